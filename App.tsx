@@ -1,14 +1,25 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { produce } from 'immer';
 import { nanoid } from 'nanoid';
 import { GoogleGenAI, Type, FunctionDeclaration, Content, FunctionCall, Part } from '@google/genai';
 
-import { parseCode } from './game/engine';
-import { getGeminiResponse, getAiThought } from './game/gemini';
-import type { GameState, Problem, ExecutionStep, FileSystemTree, FileSystemNode, PanelLayout, PanelComponentKey } from './game/types';
+import { findWorldFile, parseCode } from './game/engine';
+import { interruptScripts } from './game/script_worker';
+import { onPythonRuntimeStatus, preloadPython, PythonEngineName } from './game/python_engine';
+import { toSeed } from './game/random';
+import { findManifest, manifestLine, MANIFEST_NAME, parseManifest, RunConfiguration } from './game/project';
+import { fileIdForPath } from './game/workspace';
+import { languageRuntimeFor, runnableExtensions } from './runtimes/registry';
+import { contactKey, findContacts, Contact } from './game/collision';
+import { countPhysicsSteps } from './game/physics';
+import { advanceFrame, applyStep, expireEffects, initialGameState, runStepEffects } from './game/simulation';
+import { createTimeline, findTimelineMarkers, Timeline, TimelineMarker } from './game/timeline';
+import { createReplay, parseReplay, REPLAY_EXTENSION, ReplayFile, replayServices, serializeReplay } from './game/replay';
+import { Breakpoints, createDebugBuffer, DebugCommand, sendDebugSignal, setDebugBreakpoints } from './game/debugger';
+import type { GameState, Problem, ExecutionStep, FileSystemTree, FileSystemNode, PanelLayout, PanelComponentKey, LiveSession, LiveUpdate, SimulationMode, DebugFrame, DebugOptions, DebugPause, RuntimeStatus } from './game/types';
 import type { AIStateStatus } from './ai/types';
 import { runAssistantTurn } from './ai/assistant';
-import { toggleFullscreen, shareCode } from './controls/gameControls';
+import { toggleFullscreen, shareCode, downloadFile } from './controls/gameControls';
 
 // Components
 import { PrimaryDisplayPanel } from './components/panels/PrimaryDisplayPanel';
@@ -23,12 +34,13 @@ import SettingsModal from './components/modals/SettingsModal';
 import NewItemModal from './components/modals/NewItemModal';
 import LayoutCustomizer from './components/modals/LayoutCustomizer';
 import ConfirmationModal from './components/modals/ConfirmationModal';
+import ExportVideoModal from './components/modals/ExportVideoModal';
 
 
 // Icons
 import { 
-    PlayIcon, ChevronRightIcon, ArrowPathIcon, Cog6ToothIcon, 
-    StarIcon, UserCircleIcon, TerminalIcon, ExclamationCircleIcon, BookOpenIcon, StopIcon, PauseIcon, CpuChipIcon
+    PlayIcon, ChevronLeftIcon, ChevronRightIcon, ArrowPathIcon, Cog6ToothIcon, 
+    StarIcon, UserCircleIcon, TerminalIcon, ExclamationCircleIcon, BookOpenIcon, StopIcon, PauseIcon, CpuChipIcon, BugAntIcon
 } from './components/icons';
 import { getIconForShape } from './components/icons';
 
@@ -97,19 +109,14 @@ const initialFiles: FileSystemTree = {
   }
 };
 
-const initialGameState: GameState = { 
-    sprites: [], 
-    props: [], 
-    effects: [], 
-    physics: { gravity: 0 },
-    worldState: {
-        backgroundColor: '#111827', // bg-gray-900
-        zones: []
-    }
-};
-
 const DELETION_PERIOD_MS = 3 * 60 * 60 * 1000; // 3 hours
 
+// The run option that runs the active tab instead of a configuration from playground.json
+const CURRENT_FILE = '';
+
+// What a run configuration sets for one run in place of the settings
+type RunOverrides = Pick<RunConfiguration, 'pythonEngine' | 'seed'> & { worldFileId?: string };
+
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(initialGameState);
   const [logs, setLogs] = useState<string[]>(['Welcome! Your environment will build live as you code.']);
@@ -124,10 +131,38 @@ const App: React.FC = () => {
   const [currentStep, setCurrentStep] = useState(0);
   const [isRunning, setIsRunning] = useState(false);
   const [isExecuting, setIsExecuting] = useState(false); // For compilation/parsing
+  // Aborts the run in progress, from the Cancel button
+  const runAbortRef = useRef<AbortController | null>(null);
   const runnerTimeoutRef = useRef<number | null>(null);
+  const runnerFrameRef = useRef<number | null>(null);
+  // The runner loop reads these refs so it never works from a stale render
+  const currentStepRef = useRef(0);
+  const gameStateRef = useRef<GameState>(initialGameState);
+  // Set while a live run is active; the runner asks it for new steps once the recorded ones are played
+  const liveSessionRef = useRef<LiveSession | null>(null);
+  const liveStartedRef = useRef(false);
+  // Pairs touching on the last frame, so each collision is reported once when it begins
+  const activeContactsRef = useRef<Set<string>>(new Set());
+  const pendingCollisionsRef = useRef<Contact[]>([]);
+  // Rebuilds the state at any step of the current recording, for the timeline scrubber and step-back
+  const timelineRef = useRef<Timeline | null>(null);
+  const [timelineMarkers, setTimelineMarkers] = useState<TimelineMarker[]>([]);
+  // What a saved replay needs besides the steps: the state they start from and where they came from
+  const replayBaseRef = useRef<GameState>(initialGameState);
+  // Set while playing a replay opened from a file, which must not call Gemini
+  const isOpenedReplayRef = useRef(false);
+  const recordingInfoRef = useRef<Pick<ReplayFile, 'seed' | 'world'> & { metadata: Omit<ReplayFile['metadata'], 'createdAt'> } | null>(null);
+  // A debug run pauses the script in its worker; the page resumes it through the buffer they share
+  const [breakpoints, setBreakpoints] = useState<Breakpoints>({});
+  const debugBufferRef = useRef<SharedArrayBuffer | null>(null);
+  const [isDebugging, setIsDebugging] = useState(false);
+  const [debugFrame, setDebugFrame] = useState<DebugFrame | null>(null);
+  // The steps the debug run had generated by its last pause, which the board shows
+  const debugStepsRef = useRef<ExecutionStep[]>([]);
 
   const [isHelpOpen, setHelpOpen] = useState(false);
   const [isSettingsOpen, setSettingsOpen] = useState(false);
+  const [isExportOpen, setExportOpen] = useState(false);
   const [newItemModal, setNewItemModal] = useState<{ type: 'file' | 'folder', parentId: string } | null>(null);
   const [isMuted, setMuted] = useState(false);
   const [isLayoutCustomizationActive, setLayoutCustomizationActive] = useState(false);
@@ -146,7 +181,13 @@ const App: React.FC = () => {
   };
 
   const [settings, setSettings] = useState({
-    pythonEngine: 'pyodide' as 'pyodide' | 'pyscript',
+    pythonEngine: 'pyodide' as PythonEngineName,
+    simulationMode: 'replay' as SimulationMode,
+    showPaths: false,
+    seed: '',
+    scriptTimeLimit: 10,
+    allowNetwork: false,
+    pythonRuntimeUrl: '',
     layout: 'default' as 'default' | 'code-focused' | 'preview-focused' | 'custom',
     customLayout: defaultLayout,
     keybindings: {
@@ -161,185 +202,226 @@ const App: React.FC = () => {
   const code = (activeFile?.type === 'file' ? activeFile.code : '') || '';
   const activeLanguage = activeFile?.name.split('.').pop() || 'txt';
 
-  const processStep = useCallback(async (step: ExecutionStep) => {
-      // Synchronous state updates
-      await setGameState(produce(draft => {
-        const sprite = 'spriteId' in step && step.spriteId ? draft.sprites.find(s => s.id === step.spriteId) : undefined;
-        switch (step.type) {
-          case 'CREATE_SPRITE': draft.sprites.push(step.sprite); break;
-          case 'CREATE_PROP': draft.props.push(step.prop); break;
-          case 'DELETE_SPRITE': draft.sprites = draft.sprites.filter(s => s.id !== step.spriteId); break;
-          case 'SAY': if (sprite) sprite.message = { text: step.message, duration: step.duration }; break;
-          case 'CLEAR_MESSAGE': if (sprite) sprite.message = undefined; break;
-          case 'MOVE_TO': if (sprite) { sprite.x = step.x; sprite.y = step.y; } break;
-          case 'GO_TO': if (sprite) { sprite.x = step.x; sprite.y = step.y; } break; // For now, same as MOVE_TO
-          case 'SET_STYLE': if (sprite) sprite.styles[step.property] = step.value; break;
-          case 'SET_DATA': if (sprite) sprite.data[step.key] = step.value; break;
-          case 'AI_CHAT_REQUEST':
-             if (sprite) {
-                if(!sprite.chatHistory) sprite.chatHistory = [];
-                sprite.chatHistory.push({ role: 'user', parts: [{ text: step.message }] });
-             }
-            break;
-          case 'SET_GRAVITY': draft.physics.gravity = step.strength; break;
-          case 'ROTATE_TO': if (sprite) sprite.rotation = step.angle; break;
-          case 'LOOK_AT':
-            if (sprite) {
-                const dx = step.x - sprite.x;
-                const dy = step.y - sprite.y;
-                const angle = Math.atan2(dy, dx) * (180 / Math.PI) + 90;
-                sprite.rotation = angle;
-            }
-            break;
-          case 'PLAY_SOUND':
-            draft.effects.push({
-                id: nanoid(6), type: 'soundwave', x: step.x, y: step.y,
-                creationTime: Date.now(), duration: 1000, maxRadius: 15,
-            });
-            break;
-          case 'SET_BACKGROUND': draft.worldState.backgroundColor = step.color; break;
-          case 'SPRITE_CREATE_NETWORK': if (sprite) sprite.brain = { rewards: 0 }; break;
-          case 'SPRITE_REWARD':
-            if (sprite) {
-                if (!sprite.brain) sprite.brain = { rewards: 0 };
-                sprite.brain.rewards += step.value;
-                 draft.effects.push({
-                    id: nanoid(6), type: 'rewardflash', spriteId: step.spriteId,
-                    creationTime: Date.now(), duration: 800
-                });
-            }
-            break;
-        }
-      }));
+  // With a playground.json, Run starts its selected configuration whichever tab is focused.
+  // null selects the first configuration; CURRENT_FILE runs the active tab as before.
+  const [selectedRunConfig, setSelectedRunConfig] = useState<string | null>(null);
+  const manifestFile = findManifest(fileSystem);
+  const manifest = useMemo((): { configurations: RunConfiguration[] } | { error: string } | null => {
+      if (manifestFile === undefined) return null;
+      try {
+          return { configurations: parseManifest(manifestFile.code) };
+      } catch (e) {
+          return { error: e instanceof Error ? e.message : String(e) };
+      }
+  }, [manifestFile?.code]);
+  const runsProject = manifest !== null && selectedRunConfig !== CURRENT_FILE;
+  const runConfigurations = manifest && 'configurations' in manifest ? manifest.configurations : [];
+  const selectedConfiguration = runsProject
+      ? runConfigurations.find(configuration => configuration.name === selectedRunConfig) ?? runConfigurations[0]
+      : undefined;
+
+  const processStep = useCallback(async (step: ExecutionStep, index: number) => {
+      const now = Date.now();
+      setGameState(prev => applyStep(prev, step, now, index));
+
+      await runStepEffects(step, {
+          getState: () => gameStateRef.current,
+          updateState: recipe => setGameState(produce(recipe)),
+          log: message => setLogs(prev => [...prev, message]),
+          replaceLastLog: message => setLogs(prev => [...prev.slice(0, -1), message]),
+          clearLogs: () => setLogs([]),
+          insertSteps: steps => {
+              const index = currentStepRef.current + 1;
+              executionStepsRef.current.splice(index, 0, ...steps);
+              timelineRef.current?.invalidateFrom(index);
+              setTimelineMarkers(findTimelineMarkers(executionStepsRef.current));
+          },
+          reportError: message => {
+              setProblems(prev => [...prev, { fileId: activeTabId, line: 0, message, code: code, language: activeLanguage }]);
+              if (activeOutputTabId !== 'guide') setActiveOutputTabId('problems');
+          },
+      }, isOpenedReplayRef.current ? replayServices : undefined);
+  }, [activeOutputTabId, code, activeLanguage, activeTabId]);
 
-       if (step.type === 'LOG') setLogs(prev => [...prev, step.message]);
-       if (step.type === 'CLEAR_LOG') setLogs([]);
-
-        // Asynchronous operations that update state again
-        if (step.type === 'AI_CHAT_REQUEST') {
-            const senderSprite = gameState.sprites.find(s => s.id === step.spriteId);
-            const otherSprites = gameState.sprites.filter(s => s.id !== step.spriteId);
-            const receiverSprite = otherSprites[0];
-
-            if (senderSprite && receiverSprite) {
-                setLogs(prev => [...prev, `${senderSprite.name} says "${step.message}" to ${receiverSprite.name}...`]);
-                setLogs(prev => [...prev, `${receiverSprite.name} is thinking...`]);
-                
-                try {
-                    const systemInstruction = (receiverSprite.data?.system_instruction as string) || "You are a sprite in a virtual world.";
-                    const responseText = await getGeminiResponse(receiverSprite.chatHistory || [], step.message, systemInstruction);
-
-                    setGameState(produce(draft => {
-                        const receiver = draft.sprites.find(s => s.id === receiverSprite.id);
-                        if(receiver) {
-                           if(!receiver.chatHistory) receiver.chatHistory = [];
-                           receiver.chatHistory.push({ role: 'model', parts: [{ text: responseText }] });
-                        }
-                    }));
-                    
-                    const responseSteps: ExecutionStep[] = [
-                        { type: 'SAY', spriteId: receiverSprite.id, message: responseText, duration: 0 },
-                        { type: 'WAIT', duration: 4000 },
-                        { type: 'CLEAR_MESSAGE', spriteId: receiverSprite.id, duration: 0 }
-                    ];
-
-                    executionStepsRef.current.splice(currentStep + 1, 0, ...responseSteps);
-                    setLogs(prev => [...prev.slice(0, -1), `${receiverSprite.name} responds.`]);
-
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
-                    setLogs(prev => [...prev.slice(0, -1), `Error: Gemini API call failed for ${receiverSprite.name}: ${errorMessage}`]);
-                    setProblems(prev => [...prev, { fileId: activeTabId, line: 0, message: `Gemini API Error: ${errorMessage}`, code: code, language: activeLanguage }]);
-                    if (activeOutputTabId !== 'guide') setActiveOutputTabId('problems');
-                }
-            }
-        }
+  useEffect(() => {
+    gameStateRef.current = gameState;
+  }, [gameState]);
 
-        if (step.type === 'SPRITE_REWARD') {
-            const sprite = gameState.sprites.find(s => s.id === step.spriteId);
-            if (sprite?.brain) { // Check if brain exists
-                try {
-                    const thought = await getAiThought(sprite.name, step.value);
-                    setGameState(produce(draft => {
-                        const targetSprite = draft.sprites.find(s => s.id === step.spriteId);
-                        if (targetSprite?.brain) {
-                            targetSprite.brain.lastThought = thought;
-                        }
-                    }));
-                } catch (e) {
-                    // Log error but don't stop the simulation
-                    console.error("Failed to generate AI thought:", e);
-                    setLogs(prev => [...prev, `[System] Error generating thought for ${sprite.name}`]);
-                }
-            }
-        }
+  const [pythonRuntimeStatus, setPythonRuntimeStatus] = useState<RuntimeStatus>({ state: 'idle', message: '' });
+  useEffect(() => onPythonRuntimeStatus(setPythonRuntimeStatus), []);
 
-  }, [gameState, currentStep, activeOutputTabId, code, activeLanguage, activeTabId]);
+  // Pyodide takes a while to load, so it starts loading as soon as a Python file is opened rather than on the first run
+  const isPythonOpen = activeLanguage === 'py';
+  useEffect(() => {
+    if (isPythonOpen) preloadPython(settings.pythonEngine, settings.pythonRuntimeUrl);
+  }, [isPythonOpen, settings.pythonEngine, settings.pythonRuntimeUrl]);
 
-  const runNextStep = useCallback(async () => {
-    if (currentStep >= executionStepsRef.current.length) {
-      setIsRunning(false);
-      return;
+  const goToStep = useCallback((index: number) => {
+    currentStepRef.current = index;
+    setCurrentStep(index);
+  }, []);
+
+  // Latest processStep for the runner loop, which is only restarted when play state changes
+  const processStepRef = useRef(processStep);
+  useEffect(() => {
+    processStepRef.current = processStep;
+  }, [processStep]);
+
+  const endLiveSession = useCallback(() => {
+    liveSessionRef.current?.dispose();
+    liveSessionRef.current = null;
+    liveStartedRef.current = false;
+  }, []);
+
+  // Appends what a live handler produced to the recording so it is played (and can later be replayed)
+  const absorbLiveUpdate = useCallback((update: LiveUpdate) => {
+    if (update.logs.length > 0) setLogs(prev => [...prev, ...update.logs]);
+    executionStepsRef.current.push(...update.steps);
+    if (update.problems.length > 0) {
+        setProblems(prev => [...prev, ...update.problems]);
+        if (activeOutputTabId !== 'guide') setActiveOutputTabId('problems');
+        setLogs(prev => [...prev, 'Live session stopped after an error in an event handler.']);
+        endLiveSession();
     }
-    
-    const now = Date.now();
-    setGameState(produce(draft => {
-        draft.effects = draft.effects.filter(effect => now - effect.creationTime < effect.duration);
-        if (draft.physics.gravity !== 0) {
-            for (const sprite of draft.sprites) {
-                sprite.vy += draft.physics.gravity;
-                sprite.x += sprite.vx;
-                sprite.y += sprite.vy;
-                if (sprite.y > 95) { sprite.y = 95; sprite.vy = 0; }
-                if (sprite.y < 0) { sprite.y = 0; sprite.vy = 0; }
-                if (sprite.x > 100) { sprite.x = 100; sprite.vx = 0; }
-                if (sprite.x < 0) { sprite.x = 0; sprite.vx = 0; }
-            }
-        }
-    }));
-    
-    const step = executionStepsRef.current[currentStep];
-    await processStep(step);
-    
-    const nextStepIndex = currentStep + 1;
-    setCurrentStep(nextStepIndex);
+  }, [activeOutputTabId, endLiveSession]);
 
-    if (nextStepIndex < executionStepsRef.current.length) {
-      const currentStepDuration = 'duration' in step ? step.duration : 0;
-      if (currentStepDuration > 0) {
-        runnerTimeoutRef.current = window.setTimeout(runNextStep, currentStepDuration);
+  const absorbLiveUpdateRef = useRef(absorbLiveUpdate);
+  useEffect(() => {
+    absorbLiveUpdateRef.current = absorbLiveUpdate;
+  }, [absorbLiveUpdate]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    let cancelled = false;
+    let lastTickTime = performance.now();
+
+    // A session ended while it was answering, e.g. by a new run, keeps the steps it made but not the error its cut-off call reported
+    const withoutEndedProblems = (session: LiveSession, update: LiveUpdate): LiveUpdate =>
+        liveSessionRef.current === session ? update : { ...update, problems: [] };
+
+    const schedule = (delay: number) => {
+      if (cancelled) return;
+      if (delay > 0) {
+        runnerTimeoutRef.current = window.setTimeout(runNextStep, delay);
       } else {
-        requestAnimationFrame(runNextStep);
+        runnerFrameRef.current = requestAnimationFrame(runNextStep);
       }
-    } else {
-      setIsRunning(false);
-    }
-  }, [currentStep, processStep]);
+    };
 
-  useEffect(() => {
-    if (isRunning) {
-      runNextStep();
-    }
+    const runNextStep = async () => {
+      if (cancelled) return;
+
+      const now = Date.now();
+      setGameState(prev => expireEffects(prev, now));
+
+      // Let the script react to collisions before it is asked for anything else
+      if (liveSessionRef.current && pendingCollisionsRef.current.length > 0) {
+        for (const contact of pendingCollisionsRef.current.splice(0)) {
+          const session = liveSessionRef.current;
+          if (!session) break;
+          const update = await session.collision(gameStateRef.current, contact.aId, contact.bId);
+          if (cancelled) return;
+          absorbLiveUpdateRef.current(withoutEndedProblems(session, update));
+        }
+      }
+
+      if (currentStepRef.current >= executionStepsRef.current.length) {
+        const session = liveSessionRef.current;
+        if (!session) {
+          setIsRunning(false);
+          return;
+        }
+
+        // Live mode: the recorded steps are exhausted, so ask the script what happens next
+        const tickTime = performance.now();
+        const dt = (tickTime - lastTickTime) / 1000;
+        lastTickTime = tickTime;
+        const update = liveStartedRef.current
+            ? await session.tick(gameStateRef.current, dt)
+            : await session.start(gameStateRef.current);
+        liveStartedRef.current = true;
+        if (cancelled) return;
+        absorbLiveUpdateRef.current(withoutEndedProblems(session, update));
+        schedule(0);
+        return;
+      }
+
+      const index = currentStepRef.current;
+      const step = executionStepsRef.current[index];
+      await processStepRef.current(step, index);
+      if (cancelled) return;
+      goToStep(index + 1);
+
+      const currentStepDuration = 'duration' in step ? step.duration : 0;
+      schedule(currentStepDuration);
+    };
+
+    runNextStep();
     return () => {
+      cancelled = true;
       if (runnerTimeoutRef.current) clearTimeout(runnerTimeoutRef.current);
+      if (runnerFrameRef.current) cancelAnimationFrame(runnerFrameRef.current);
     };
-  }, [isRunning, runNextStep]);
+  }, [isRunning, goToStep]);
+
+  // Advances sprite tweens and the fixed-timestep physics every frame, independently of the step runner
+  useEffect(() => {
+    if (!isRunning) return;
+    let frame: number;
+    let lastFrameTime = performance.now();
+    let leftover = 0;
+    const animate = () => {
+      const now = Date.now();
+      const frameTime = performance.now();
+      const { steps, leftover: remaining } = countPhysicsSteps(leftover + (frameTime - lastFrameTime) / 1000);
+      lastFrameTime = frameTime;
+      leftover = remaining;
+      setGameState(prev => advanceFrame(prev, now, steps));
+      frame = requestAnimationFrame(animate);
+    };
+    frame = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(frame);
+  }, [isRunning]);
+
+  // Reports sprite–sprite and sprite–prop contacts as they begin and queues them for on_collision
+  useEffect(() => {
+    if (!isRunning) return;
+    const started: Contact[] = [];
+    const touching = new Set<string>();
+    for (const contact of findContacts(gameState.sprites, gameState.props)) {
+        const key = contactKey(contact);
+        touching.add(key);
+        if (!activeContactsRef.current.has(key)) started.push(contact);
+    }
+    activeContactsRef.current = touching;
+    if (started.length === 0) return;
+
+    const nameOf = (id: string) =>
+        gameState.sprites.find(s => s.id === id)?.name ?? gameState.props.find(p => p.id === id)?.shape ?? id;
+    setLogs(prev => [...prev, ...started.map(c => `Collision: ${nameOf(c.aId)} hit ${nameOf(c.bId)}.`)]);
+    if (liveSessionRef.current) pendingCollisionsRef.current.push(...started);
+  }, [gameState, isRunning]);
   
     // A new function to set up the initial state of a simulation without running it.
     const prepareForReplay = useCallback(() => {
         setIsRunning(false);
         if (runnerTimeoutRef.current) clearTimeout(runnerTimeoutRef.current);
         
-        setCurrentStep(0);
+        goToStep(0);
+        activeContactsRef.current = new Set();
+        pendingCollisionsRef.current = [];
 
-        if (executionStepsRef.current.length === 0) {
+        if (executionStepsRef.current.length === 0 && !liveSessionRef.current) {
+            timelineRef.current = null;
+            setTimelineMarkers([]);
             setGameState(initialGameState); // Reset to a blank state
             setLogs(prev => [...prev, 'No replay available. Run code to create one.']);
             return;
         }
 
         // Set the initial state from all CREATE_* steps
-        const previewState = produce(initialGameState, draft => {
+        const previewState = produce(replayBaseRef.current, draft => {
             for (const step of executionStepsRef.current) {
                 // Apply only the initial setup steps
                 if (step.type === 'CREATE_SPRITE') draft.sprites.push(step.sprite);
@@ -347,24 +429,68 @@ const App: React.FC = () => {
                 if (step.type === 'SET_BACKGROUND') draft.worldState.backgroundColor = step.color;
             }
         });
+        timelineRef.current = createTimeline(executionStepsRef.current, previewState);
+        setTimelineMarkers(findTimelineMarkers(executionStepsRef.current));
         setGameState(previewState);
-        setLogs(['Replay is ready. Press play to start.']);
-    }, []);
-
-    const handleRun = async (runCode: string, lang: string, fileId: string) => {
+        setLogs(prev => liveSessionRef.current
+            ? [...prev, 'Live session is ready. Press play to start it.']
+            : ['Replay is ready. Press play to start.']);
+    }, [goToStep]);
+
+    const handleRun = async (runCode: string, lang: string, fileId: string, debug = false, overrides: RunOverrides = {}) => {
+        let debugOptions: DebugOptions | undefined;
+        if (debug) {
+            const buffer = createDebugBuffer(breakpoints);
+            if (!buffer) {
+                setLogs(prev => [...prev, 'The debugger needs the page to be cross-origin isolated, as the dev server and vercel.json serve it. See the README.']);
+                return;
+            }
+            debugBufferRef.current = buffer;
+            debugStepsRef.current = [];
+            setIsDebugging(true);
+            debugOptions = { buffer, onPause: handleDebugPaused };
+        }
+        const controller = new AbortController();
+        runAbortRef.current = controller;
+        const previousProblems = problems;
         setIsExecuting(true);
-        // Stop any current replay
-        setIsRunning(false);
-        if (runnerTimeoutRef.current) clearTimeout(runnerTimeoutRef.current);
-        
-        setLogs([`Preparing to run ${lang} code...`]);
+        // The current replay carries on until the run has finished, since it may be cancelled. A live session
+        // can't: the run is sent to the worker that holds it, which keeps one session and may be
+        // terminated if the run is cancelled. What the session recorded stays loaded as the replay.
+        const endedLive = !!liveSessionRef.current;
+        endLiveSession();
+        setLogs([`Preparing to run ${lang} code...`, ...(endedLive ? ['Live session ended by the new run. What it recorded stays loaded as the replay.'] : [])]);
         setProblems([]); // Clear old problems
         setActiveOutputTabId('console');
 
         try {
-            const { steps, problems: compileProblems, logs: compileLogs } = await parseCode(runCode, fileSystem, lang, fileId, settings.pythonEngine, (logMessage) => setLogs(prev => [...prev, logMessage]));
+            const seed = overrides.seed ?? (settings.seed.trim() ? toSeed(settings.seed, 'The random seed setting') : undefined);
+            const { steps, problems: compileProblems, logs: compileLogs, session, seed: runSeed, cancelled } = await parseCode(
+                runCode, fileSystem, lang, fileId, overrides.pythonEngine ?? settings.pythonEngine,
+                (logMessage) => setLogs(prev => [...prev, logMessage]),
+                {
+                    mode: settings.simulationMode, seed, debug: debugOptions, timeoutMs: settings.scriptTimeLimit * 1000,
+                    allowNetwork: settings.allowNetwork, pythonRuntimeUrl: settings.pythonRuntimeUrl, worldFileId: overrides.worldFileId, signal: controller.signal,
+                }
+            );
+            if (cancelled) {
+                // Nothing from the cancelled run replaces the replay that was loaded before it
+                setLogs(prev => [...prev, ...compileLogs, ...(executionStepsRef.current.length > 0 ? ['The previous replay is still loaded.'] : [])]);
+                setProblems(previousProblems);
+                // A debug run that paused left its own world on the board
+                if (debugOptions) {
+                    if (timelineRef.current) showStepState(currentStepRef.current);
+                    else setGameState(initialGameState);
+                }
+                return;
+            }
+            // The run finished, so it replaces whatever was playing
+            setIsRunning(false);
+            if (runnerTimeoutRef.current) clearTimeout(runnerTimeoutRef.current);
+            if (runSeed !== undefined) setLogs(prev => [...prev, `Run seed: ${runSeed}`]);
             
-            const problemsWithCodeContext = compileProblems.map(p => ({ ...p, code: runCode, language: lang }));
+            // Problems from other files of the project already carry those files' code
+            const problemsWithCodeContext = compileProblems.map(p => p.fileId === fileId ? { ...p, code: runCode, language: lang } : p);
             setProblems(problemsWithCodeContext);
             setLogs(prev => [...prev, ...compileLogs]);
 
@@ -372,9 +498,19 @@ const App: React.FC = () => {
                 if (activeOutputTabId !== 'guide') setActiveOutputTabId('problems');
                 setLogs(prev => [...prev, 'Execution failed. Cannot create replay.']);
                 executionStepsRef.current = []; // Clear steps on failure
+                session?.dispose();
             } else {
-                setLogs(prev => [...prev, 'Execution successful. Replay is ready.']);
+                setLogs(prev => [...prev, session ? 'Execution successful. Live session is ready.' : 'Execution successful. Replay is ready.']);
                 executionStepsRef.current = steps;
+                liveSessionRef.current = session ?? null;
+                replayBaseRef.current = initialGameState;
+                isOpenedReplayRef.current = false;
+                const worldFile = findWorldFile(fileSystem, overrides.worldFileId);
+                recordingInfoRef.current = {
+                    seed: runSeed ?? null,
+                    world: worldFile?.code ?? null,
+                    metadata: { scriptName: fileSystem[fileId]?.name ?? 'script', language: lang, mode: settings.simulationMode },
+                };
             }
             
             // This will set up the preview or clear the board if compilation failed
@@ -387,15 +523,67 @@ const App: React.FC = () => {
             executionStepsRef.current = [];
             prepareForReplay();
         } finally {
+            if (runAbortRef.current === controller) runAbortRef.current = null;
+            if (debugOptions) {
+                debugBufferRef.current = null;
+                setIsDebugging(false);
+                setDebugFrame(null);
+            }
             setIsExecuting(false);
         }
     };
+
+    const handleCancelRun = () => {
+        if (!runAbortRef.current || runAbortRef.current.signal.aborted) return;
+        setLogs(prev => [...prev, 'Cancelling...']);
+        if (debugBufferRef.current) sendDebugSignal(debugBufferRef.current, 'stop');
+        runAbortRef.current.abort();
+    };
   
+  // A playground.json that can't be run is reported against itself, and nothing runs
+  const reportManifestProblem = (message: string, value?: string) => {
+      if (!manifestFile) return;
+      setProblems([{ fileId: manifestFile.id, line: value ? manifestLine(manifestFile.code, value) : 1, message, code: manifestFile.code, language: 'json' }]);
+      setLogs([`Cannot run the project: ${message}`]);
+      if (activeOutputTabId !== 'guide') setActiveOutputTabId('problems');
+  };
+
+  const runConfiguration = (debug: boolean) => {
+      if (!manifest || 'error' in manifest) {
+          reportManifestProblem(manifest?.error ?? `${MANIFEST_NAME} could not be read.`);
+          return;
+      }
+      const configuration = selectedConfiguration!;
+      const entryId = fileIdForPath(fileSystem, configuration.entry);
+      const entry = entryId ? fileSystem[entryId] : undefined;
+      if (!entryId || entry?.type !== 'file') {
+          reportManifestProblem(`The entry file "${configuration.entry}" of "${configuration.name}" doesn't exist.`, configuration.entry);
+          return;
+      }
+      const worldFileId = configuration.world ? fileIdForPath(fileSystem, configuration.world) : undefined;
+      if (configuration.world && !worldFileId) {
+          reportManifestProblem(`The world file "${configuration.world}" of "${configuration.name}" doesn't exist.`, configuration.world);
+          return;
+      }
+      handleRun(entry.code, entry.name.split('.').pop() || 'txt', entryId, debug, {
+          worldFileId, pythonEngine: configuration.pythonEngine, seed: configuration.seed,
+      });
+  };
+
   const handleRunCurrentFile = () => {
-    if (activeFile?.type !== 'file' || isExecuting || activeFile?.status === 'deleted') return;
+    if (isExecuting) return;
+    if (runsProject) return runConfiguration(false);
+    if (activeFile?.type !== 'file' || activeFile?.status === 'deleted') return;
     handleRun(activeFile.code, activeLanguage, activeTabId);
   };
 
+  const handleDebugCurrentFile = () => {
+    if (isExecuting) return;
+    if (runsProject) return runConfiguration(true);
+    if (activeFile?.type !== 'file' || activeFile?.status === 'deleted') return;
+    handleRun(activeFile.code, activeLanguage, activeTabId, true);
+  };
+
   const handleRunSelection = (selectedCode: string) => {
     if (activeFile?.type !== 'file' || isExecuting || activeFile?.status === 'deleted') return;
     handleRun(selectedCode, activeLanguage, activeTabId);
@@ -405,20 +593,24 @@ const App: React.FC = () => {
       if (isExecuting) return;
       const runnableTabs = openTabs
         .map(id => fileSystem[id])
-        .filter((node): node is Extract<FileSystemNode, {type: 'file'}> => !!node && node.type === 'file' && (node.name.endsWith('.js') || node.name.endsWith('.jsx') || node.name.endsWith('.ts') || node.name.endsWith('.tsx') || node.name.endsWith('.py')) && node.status !== 'deleted');
+        .filter((node): node is Extract<FileSystemNode, {type: 'file'}> => !!node && node.type === 'file' && !!languageRuntimeFor(node.name.split('.').pop()!)?.execute && node.status !== 'deleted');
 
       if (runnableTabs.length === 0) {
-          setLogs(prev => [...prev, 'No runnable files (.js, .jsx, .ts, .tsx, .py) are open.']);
+          setLogs(prev => [...prev, `No runnable files (${runnableExtensions().map(extension => `.${extension}`).join(', ')}) are open.`]);
           return;
       }
       
-      const combinedCode = runnableTabs.map(node => node.code).join('\n\n');
-      // Use the language and fileId of the active tab as the primary context
-      handleRun(combinedCode, activeLanguage, activeTabId);
+      // Only files in one language can be combined: the first open one's. Problems point into that file.
+      const language = runnableTabs[0].name.split('.').pop()!;
+      const combined = runnableTabs.filter(node => node.name.split('.').pop() === language);
+      const skipped = runnableTabs.filter(node => !combined.includes(node));
+      const combinedCode = combined.map(node => node.code).join('\n\n');
+      handleRun(combinedCode, language, combined[0].id);
+      if (skipped.length > 0) setLogs(prev => [...prev, `Skipped ${skipped.map(node => node.name).join(', ')}: only .${language} files can be combined with ${combined[0].name}.`]);
   };
 
     const handleToggleReplay = () => {
-        if (isExecuting || executionStepsRef.current.length === 0) {
+        if (isExecuting || (executionStepsRef.current.length === 0 && !liveSessionRef.current)) {
             if (!isExecuting) {
                 setLogs(prev => [...prev, 'No simulation has been run yet. Click "Run This File" first.']);
             }
@@ -431,7 +623,7 @@ const App: React.FC = () => {
         } else {
             // Play/Resume
             // If the replay was finished, reset it before playing again.
-            if (currentStep >= executionStepsRef.current.length) {
+            if (currentStep >= executionStepsRef.current.length && !liveSessionRef.current) {
                 // Re-call prepareForReplay to reset the visual state to frame 0
                 prepareForReplay();
                 // Use a timeout to ensure React has processed the state update from prepareForReplay
@@ -445,17 +637,180 @@ const App: React.FC = () => {
     };
 
     const handleStopReplay = () => {
-        if (isExecuting) return;
+        if (isExecuting) {
+            // The run finishes by itself once the script is interrupted, reporting why it stopped. A paused debug run
+            // is woken to stop, since it can't be interrupted while it waits.
+            if (debugBufferRef.current) sendDebugSignal(debugBufferRef.current, 'stop');
+            if (interruptScripts()) setLogs(prev => [...prev, 'Stopping the script...']);
+            return;
+        }
+        // A live handler may still be running in a script worker
+        interruptScripts();
+        // Ending a live run keeps everything it recorded as a deterministic replay
+        const wasLive = !!liveSessionRef.current;
+        endLiveSession();
         // Stop and rewind to frame 0.
         prepareForReplay();
+        if (wasLive) setLogs(prev => [...prev, 'Live session ended. The recorded run can now be replayed.']);
+    };
+
+    const handleSaveReplay = () => {
+        const info = recordingInfoRef.current;
+        if (!info || executionStepsRef.current.length === 0) {
+            setLogs(prev => [...prev, 'Nothing to save yet. Run a script to record a replay first.']);
+            return;
+        }
+        const replay = createReplay({ ...info, initialState: replayBaseRef.current, steps: executionStepsRef.current });
+        const baseName = info.metadata.scriptName.replace(/\.[^.]+$/, '');
+        downloadFile(`${baseName}${REPLAY_EXTENSION}`, serializeReplay(replay), 'application/json');
+        setLogs(prev => [...prev, `Saved replay of ${info.metadata.scriptName} (${replay.steps.length} steps).`]);
+    };
+
+    // Plays a saved recording back as-is: the script isn't run again and Gemini isn't called
+    const handleOpenReplay = async (file: File) => {
+        if (isExecuting) return;
+        let replay: ReplayFile;
+        try {
+            replay = parseReplay(await file.text());
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : 'The file could not be read.';
+            setLogs(prev => [...prev, `Could not open ${file.name}: ${errorMessage}`]);
+            setActiveOutputTabId('console');
+            return;
+        }
+
+        endLiveSession();
+        setProblems([]);
+        executionStepsRef.current = replay.steps;
+        replayBaseRef.current = replay.initialState;
+        isOpenedReplayRef.current = true;
+        recordingInfoRef.current = { seed: replay.seed, world: replay.world, metadata: replay.metadata };
+        prepareForReplay();
+        const { scriptName, language, createdAt } = replay.metadata;
+        setLogs(prev => [
+            ...prev,
+            `Opened replay of ${scriptName} (${language}) recorded ${new Date(createdAt).toLocaleString()}.`,
+            ...(replay.seed !== null ? [`Run seed: ${replay.seed}`] : []),
+        ]);
+        setActiveOutputTabId('console');
     };
 
   const handleStepForward = async () => {
     if (isRunning || currentStep >= executionStepsRef.current.length) return;
     const step = executionStepsRef.current[currentStep];
-    await processStep(step);
-    setCurrentStep(currentStep + 1);
+    await processStep(step, currentStep);
+    goToStep(currentStep + 1);
+  };
+
+  // A live script can't be rewound, so seeking is only possible once its run has been stopped
+  const canSeek = !isExecuting && !liveSessionRef.current && executionStepsRef.current.length > 0;
+
+  // Shows the world as it was before steps[index], rebuilt from the nearest snapshot. Pauses playback first.
+  const showStepState = (index: number) => {
+    const timeline = timelineRef.current;
+    if (!timeline) return;
+    setIsRunning(false);
+    const target = Math.max(0, Math.min(index, executionStepsRef.current.length));
+    const state = timeline.stateAt(target);
+    // Contacts that already exist at the new position shouldn't be reported as new collisions
+    activeContactsRef.current = new Set(findContacts(state.sprites, state.props).map(contactKey));
+    pendingCollisionsRef.current = [];
+    setGameState(state);
+    goToStep(target);
+  };
+
+  // Jumps to any step from the timeline or the playback keys
+  const seekToStep = (index: number) => {
+    if (!canSeek) return;
+    showStepState(index);
+  };
+
+  const handleStepBack = () => seekToStep(currentStep - 1);
+
+  // The line the debugger is paused on, or else the script line behind the step shown last, highlighted in the editor
+  const activeSource = debugFrame ?? (currentStep > 0 ? executionStepsRef.current[currentStep - 1]?.source ?? null : null);
+
+  // Opens a file in the editor, adding a tab for it if needed
+  const revealFile = (fileId: string) => {
+    if (fileSystem[fileId]?.type !== 'file') return;
+    setOpenTabs(tabs => tabs.includes(fileId) ? tabs : [...tabs, fileId]);
+    setActiveTabId(fileId);
+  };
+
+  // Clicking a marker plays up to that step and opens the file it came from, so its line is highlighted
+  const handleMarkerClick = (index: number) => {
+    seekToStep(index + 1);
+    const source = executionStepsRef.current[index]?.source;
+    if (source) revealFile(source.fileId);
+  };
+
+  // Shows where a debug run has paused: its line, its variables and the world as the script has built it so far
+  const handleDebugPaused = (pause: DebugPause) => {
+    debugStepsRef.current.push(...pause.steps);
+    setIsRunning(false);
+    setGameState(createTimeline(debugStepsRef.current, initialGameState).stateAt(debugStepsRef.current.length));
+    setDebugFrame(pause.frame);
+    if (activeOutputTabId !== 'guide') setActiveOutputTabId('debugger');
+  };
+
+  const handleDebugCommand = (command: DebugCommand) => {
+    const buffer = debugBufferRef.current;
+    if (!buffer || !debugFrame) return;
+    setDebugFrame(null);
+    sendDebugSignal(buffer, command);
+  };
+
+  const handleDebugPause = () => {
+    if (debugBufferRef.current) sendDebugSignal(debugBufferRef.current, 'pause');
+  };
+
+  // A debug run reads its breakpoints as it goes, so changes reach it even while it is paused
+  useEffect(() => {
+    if (debugBufferRef.current) setDebugBreakpoints(debugBufferRef.current, breakpoints);
+  }, [breakpoints]);
+
+  const handleToggleBreakpoint = useCallback((fileId: string, line: number) => {
+    setBreakpoints(prev => {
+        const lines = prev[fileId] ?? [];
+        const next = lines.includes(line) ? lines.filter(l => l !== line) : [...lines, line].sort((a, b) => a - b);
+        return { ...prev, [fileId]: next };
+    });
+  }, []);
+
+  // Brings the file of the line the debugger paused on to the front
+  useEffect(() => {
+    if (debugFrame) revealFile(debugFrame.fileId);
+  }, [debugFrame]);
+
+  // Playback shortcuts; ignored while typing in the editor or any other field
+  const handlePlaybackKey = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (e.ctrlKey || e.metaKey || e.altKey || target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+    // Space on a focused button already presses that button
+    if (e.key === ' ' && target?.closest('button')) return;
+    const actions: Record<string, () => void> = {
+        ' ': handleToggleReplay,
+        ArrowLeft: handleStepBack,
+        ArrowRight: handleStepForward,
+        Home: () => seekToStep(0),
+        End: () => seekToStep(executionStepsRef.current.length),
+    };
+    const action = actions[e.key];
+    if (!action) return;
+    e.preventDefault();
+    action();
   };
+
+  // The listener is registered once and always calls the latest handler
+  const playbackKeyRef = useRef(handlePlaybackKey);
+  useEffect(() => {
+    playbackKeyRef.current = handlePlaybackKey;
+  });
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => playbackKeyRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
   
   const updateCode = (newCode: string) => {
     if(activeFile?.type === 'file') {
@@ -659,9 +1014,10 @@ const App: React.FC = () => {
 
 
   const primaryDisplayControls = [
-    { id: 'play', icon: isRunning ? <PauseIcon /> : (isExecuting ? <ArrowPathIcon className="w-6 h-6 animate-spin" /> : <PlayIcon />), onClick: handleToggleReplay, isPrimary: true, disabled: isExecuting || executionStepsRef.current.length === 0 },
-    { id: 'step', icon: <ChevronRightIcon />, onClick: handleStepForward, disabled: isExecuting || isRunning || currentStep >= executionStepsRef.current.length },
-    { id: 'stop', icon: <StopIcon />, onClick: handleStopReplay, disabled: isExecuting || executionStepsRef.current.length === 0 },
+    { id: 'back', title: 'Step Back (←)', icon: <ChevronLeftIcon />, onClick: handleStepBack, disabled: !canSeek || currentStep === 0 },
+    { id: 'play', title: isRunning ? 'Pause (Space)' : 'Play (Space)', icon: isRunning ? <PauseIcon /> : (isExecuting ? <ArrowPathIcon className="w-6 h-6 animate-spin" /> : <PlayIcon />), onClick: handleToggleReplay, isPrimary: true, disabled: isExecuting || (executionStepsRef.current.length === 0 && !liveSessionRef.current) },
+    { id: 'step', title: 'Step Forward (→)', icon: <ChevronRightIcon />, onClick: handleStepForward, disabled: isExecuting || isRunning || currentStep >= executionStepsRef.current.length },
+    { id: 'stop', icon: <StopIcon />, onClick: handleStopReplay, disabled: !isExecuting && (executionStepsRef.current.length === 0 && !liveSessionRef.current) },
   ];
 
   const infoCardsData = gameState.sprites.map(sprite => ({
@@ -677,6 +1033,7 @@ const App: React.FC = () => {
     { id: 'console', title: 'Console', icon: <TerminalIcon /> },
     { id: 'problems', title: 'Problems', count: problems.length, icon: <ExclamationCircleIcon /> },
     { id: 'guide', title: 'Guide', icon: <BookOpenIcon /> },
+    { id: 'debugger', title: 'Debugger', icon: <BugAntIcon /> },
   ];
 
   const editorActions = [ {id: 'settings', icon: <Cog6ToothIcon />, onClick: () => setSettingsOpen(true)} ];
@@ -690,9 +1047,17 @@ const App: React.FC = () => {
     style: 'primary' | 'secondary';
   };
 
+  const runTarget = !runsProject ? 'This File' : selectedConfiguration?.name ?? 'Project';
   const actionButtons: ActionButton[] = [
-    { id: 'primary', text: 'Run This File', icon: <PlayIcon />, onClick: handleRunCurrentFile, style: 'primary' },
+    { id: 'primary', text: `Run ${runTarget}`, icon: <PlayIcon />, onClick: handleRunCurrentFile, style: 'primary' },
     { id: 'secondary', text: 'Run All Open Files', icon: <PlayIcon />, onClick: handleRunAllOpenFiles, style: 'secondary' },
+    { id: 'debug', text: `Debug ${runTarget}`, icon: <BugAntIcon />, onClick: handleDebugCurrentFile, style: 'secondary' },
+  ];
+
+  // The choices next to Run when the project has a playground.json; one that doesn't parse still gets an entry, so Run can explain it
+  const runOptions = manifest && [
+    ...('error' in manifest ? [{ value: MANIFEST_NAME, label: `${MANIFEST_NAME} (invalid)` }] : runConfigurations.map(({ name }) => ({ value: name, label: name }))),
+    { value: CURRENT_FILE, label: 'Current File' },
   ];
   
   const handleAddProblem = useCallback((problem: Problem) => {
@@ -732,6 +1097,9 @@ const App: React.FC = () => {
         onNewFileClick={() => handleNewItem('file', 'root')}
         onAddProblem={handleAddProblem}
         onRunSelection={handleRunSelection}
+        activeSource={activeSource}
+        breakpoints={breakpoints}
+        onToggleBreakpoint={handleToggleBreakpoint}
       />,
       TabbedOutputPanel: <div className="flex-shrink-0 h-[250px]"><TabbedOutputPanel 
         tabs={ideToolTabs} 
@@ -741,15 +1109,35 @@ const App: React.FC = () => {
         problems={problems}
         activeLanguage={activeLanguage}
         onApplyFix={handleApplyCodeFix}
+        debuggerProps={{
+          frame: debugFrame,
+          isDebugging,
+          isAvailable: typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated,
+          breakpoints,
+          fileName: fileId => fileSystem[fileId]?.name ?? fileId,
+          onCommand: handleDebugCommand,
+          onPause: handleDebugPause,
+          onStop: handleStopReplay,
+          onRemoveBreakpoint: handleToggleBreakpoint,
+        }}
       /></div>,
       PrimaryDisplayPanel: <PrimaryDisplayPanel 
         controls={primaryDisplayControls} 
         currentFrame={currentStep} 
         totalFrames={executionStepsRef.current.length} 
+        markers={timelineMarkers}
+        canSeek={canSeek}
+        onSeek={seekToStep}
+        onMarkerClick={handleMarkerClick}
         gameState={gameState}
+        showPaths={settings.showPaths}
         onMuteToggle={() => setMuted(!isMuted)}
         isMuted={isMuted}
         onShare={() => shareCode(code)}
+        onSaveReplay={handleSaveReplay}
+        onOpenReplay={handleOpenReplay}
+        canSaveReplay={!isExecuting && executionStepsRef.current.length > 0}
+        onExportVideo={() => { setIsRunning(false); setExportOpen(true); }}
         onFullscreen={() => toggleFullscreen('game-panel')}
       />,
       InfoCardListPanel: <InfoCardListPanel cards={infoCardsData} />,
@@ -759,6 +1147,11 @@ const App: React.FC = () => {
         buttons={actionButtons} 
         onHelpClick={() => setHelpOpen(true)}
         isExecuting={isExecuting}
+        onCancel={handleCancelRun}
+        runtimeStatus={pythonRuntimeStatus}
+        runOptions={runOptions ?? undefined}
+        selectedRunOption={runsProject ? selectedConfiguration?.name ?? MANIFEST_NAME : CURRENT_FILE}
+        onSelectRunOption={setSelectedRunConfig}
       />,
       // These are now part of CombinedSidebarPanel and should not be rendered directly
       FileTreePanel: null,
@@ -837,6 +1230,14 @@ const App: React.FC = () => {
   return (
     <>
       {isHelpOpen && <HelpModal onClose={() => setHelpOpen(false)} />}
+      {isExportOpen && <ExportVideoModal
+          steps={executionStepsRef.current}
+          initialState={replayBaseRef.current}
+          fileBaseName={(recordingInfoRef.current?.metadata.scriptName ?? 'replay').replace(/\.[^.]+$/, '')}
+          showPaths={settings.showPaths}
+          onClose={() => setExportOpen(false)}
+          onExported={message => setLogs(prev => [...prev, message])}
+      />}
       {isSettingsOpen && <SettingsModal 
           settings={settings}
           setSettings={setSettings}
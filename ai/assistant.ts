@@ -1,5 +1,6 @@
 import { GoogleGenAI, FunctionDeclaration, Content, FunctionCall, Part } from '@google/genai';
 import type { FileSystemTree, Problem } from '../game/types';
+import { describeApi } from '../game/api_schema';
 import type { AIStateStatus } from './types';
 import { buildContextPackage, formatContextForPrompt } from './context-builder';
 import { assistantTools, getToolHandlers } from './tool-manager';
@@ -64,7 +65,9 @@ You are helpful, concise, and an expert in multiple programming languages. You h
 You can read, create, and modify files by calling the provided functions.
 When asked to delete a file, you MUST call the 'deleteFile' function, which will prompt the user for confirmation.
 Before modifying a file, it's a good practice to read it first to understand its contents. Use 'updateFile' to overwrite entire files.
-Do not ask for confirmation for actions unless it is for a destructive action like deleting a file. Just perform the action.`;
+Do not ask for confirmation for actions unless it is for a destructive action like deleting a file. Just perform the action.
+Scripts control sprites through this global API. Python calls take keyword arguments; JavaScript and TypeScript calls take the same names in an options object.
+${describeApi('py')}`;
 
             const result = await ai.models.generateContent({
                 model: 'gemini-2.5-pro',
@@ -36,8 +36,8 @@ export async function buildContextPackage(appState: AppState): Promise<ContextPa
     let screenshotBase64: string | null = null;
     try {
         const gamePanel = document.getElementById('game-panel');
-        if (gamePanel && (window as any).html2canvas) {
-            const canvas = await (window as any).html2canvas(gamePanel);
+        if (gamePanel && window.html2canvas) {
+            const canvas = await window.html2canvas(gamePanel);
             const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
             if (blob) {
                 screenshotBase64 = await blobToBase64(blob);
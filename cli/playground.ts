@@ -0,0 +1,166 @@
+#!/usr/bin/env -S npx tsx
+// Headless runner: executes a playground script without the browser UI and writes what it produced to disk.
+//
+//   playground run main.py --world world.html --out replay.json --seed 42
+//
+// Python runs on Pyodide's Node build, JavaScript on the same sandboxed bridge the app uses, with
+// Babel from npm in place of the one index.html loads so modules and TypeScript compile as they do there.
+// Languages that are transpiled to Python need API_KEY in the environment, as in the app.
+
+import { readFile, writeFile, access, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import * as Babel from '@babel/standalone';
+import { loadPyodide } from 'pyodide';
+import { parseCode } from '../game/engine';
+import { setPyodideLoader } from '../game/python_engine';
+import { initialGameState, playHeadless, StepServices } from '../game/simulation';
+import { createReplay, serializeReplay } from '../game/replay';
+import { toSeed } from '../game/random';
+import type { FileSystemTree } from '../game/types';
+
+globalThis.Babel = Babel;
+
+const USAGE = `Usage: playground run <script> [--world <world.html>] [--out <replay.json>] [--seed <n>]
+
+  <script>        The .py, .js or .ts file to run (other languages are transpiled with Gemini)
+  --world <file>  World definition to load props from. Defaults to world.html next to the script
+  --out <file>    Where to write the replay. Defaults to replay.json
+  --seed <n>      Seed for ids and randomness. Reuse the seed recorded in a replay to reproduce it`;
+
+// Without an API key the Gemini-backed steps fall back instead of failing the whole run
+const offlineServices: StepServices = {
+    getGeminiResponse: async () => { throw new Error('API_KEY is not set, so sprites cannot chat in this run.'); },
+    getAiThought: async () => '...',
+};
+
+interface CliArgs {
+    script: string;
+    world?: string;
+    out: string;
+    seed?: number;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+    const [command, ...rest] = argv;
+    if (command !== 'run') throw new Error(command ? `Unknown command '${command}'.` : 'No command given.');
+
+    const args: Partial<CliArgs> = { out: 'replay.json' };
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        if (arg === '--world' || arg === '--out') {
+            const value = rest[++i];
+            if (!value) throw new Error(`${arg} needs a file path.`);
+            args[arg === '--world' ? 'world' : 'out'] = value;
+        } else if (arg === '--seed') {
+            const value = rest[++i];
+            if (!value) throw new Error('--seed needs a number.');
+            args.seed = toSeed(value, '--seed');
+        } else if (arg.startsWith('--')) {
+            throw new Error(`Unknown option '${arg}'.`);
+        } else if (!args.script) {
+            args.script = arg;
+        } else {
+            throw new Error(`Unexpected argument '${arg}'.`);
+        }
+    }
+    if (!args.script) throw new Error('No script given.');
+    return args as CliArgs;
+}
+
+const exists = (file: string) => access(file).then(() => true, () => false);
+
+// Files in the script's folder that scripts can import, so they are loaded along with it
+const PROJECT_EXTENSIONS = ['.py', '.js', '.jsx', '.mjs'];
+
+type FolderNode = Extract<FileSystemTree[string], { type: 'folder' }>;
+
+// Builds the same file tree the app keeps in memory: the script's folder is the project, and world.html is added
+// to it. Ids are paths relative to the script's folder, so problems name the file they come from.
+async function buildFileSystem(scriptPath: string, worldPath?: string): Promise<{ fileSystem: FileSystemTree; fileId: string }> {
+    const projectDir = path.dirname(scriptPath);
+    const fileSystem: FileSystemTree = { root: { id: 'root', name: 'root', type: 'folder', children: [] } };
+
+    const addFolder = async (dir: string, parentId: string) => {
+        for (const entry of await readdir(dir, { withFileTypes: true })) {
+            if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+            const fullPath = path.join(dir, entry.name);
+            const id = path.relative(projectDir, fullPath).split(path.sep).join('/');
+            if (entry.isDirectory()) {
+                fileSystem[id] = { id, name: entry.name, type: 'folder', parentId, children: [] };
+                await addFolder(fullPath, id);
+            } else if (fullPath === scriptPath || PROJECT_EXTENSIONS.includes(path.extname(entry.name))) {
+                fileSystem[id] = { id, name: entry.name, type: 'file', parentId, code: await readFile(fullPath, 'utf8') };
+            } else {
+                continue;
+            }
+            (fileSystem[parentId] as FolderNode).children.push(id);
+        }
+    };
+    await addFolder(projectDir, 'root');
+
+    if (worldPath) {
+        fileSystem['world.html'] = { id: 'world.html', name: 'world.html', type: 'file', parentId: 'root', code: await readFile(worldPath, 'utf8') };
+        (fileSystem.root as FolderNode).children.push('world.html');
+    }
+    return { fileSystem, fileId: path.basename(scriptPath) };
+}
+
+async function run(args: CliArgs) {
+    const scriptPath = path.resolve(args.script);
+    const defaultWorld = path.join(path.dirname(scriptPath), 'world.html');
+    const worldPath = args.world ? path.resolve(args.world) : (await exists(defaultWorld) ? defaultWorld : undefined);
+    const language = path.extname(scriptPath).slice(1);
+
+    setPyodideLoader(() => loadPyodide());
+    const { fileSystem, fileId } = await buildFileSystem(scriptPath, worldPath);
+    const code = (fileSystem[fileId] as Extract<FileSystemTree[string], { type: 'file' }>).code;
+
+    const logs: string[] = [];
+    const result = await parseCode(code, fileSystem, language, fileId, 'pyodide', message => logs.push(message), { seed: args.seed });
+    logs.push(...result.logs);
+
+    const problems = result.problems.map(({ code: _code, ...problem }) => problem);
+    let finalState = null;
+    let steps = result.steps;
+    if (problems.length === 0) {
+        const played = await playHeadless(result.steps, process.env.API_KEY ? undefined : offlineServices);
+        finalState = played.state;
+        steps = played.steps;
+        logs.push(...played.logs);
+        problems.push(...played.errors.map(message => ({ fileId, line: 0, message, language })));
+    }
+
+    // A regular replay file, so the app can open it; the outcome of the run is added alongside
+    const replay = createReplay({
+        metadata: { scriptName: path.basename(scriptPath), language, mode: 'replay' },
+        seed: result.seed ?? null,
+        world: worldPath ? await readFile(worldPath, 'utf8') : null,
+        initialState: initialGameState,
+        steps,
+    });
+    const output = { ...replay, finalState, logs, problems };
+    const outPath = path.resolve(args.out);
+    await writeFile(outPath, serializeReplay(output));
+
+    logs.forEach(line => console.log(line));
+    problems.forEach(problem => console.error(`${problem.fileId}:${problem.line}: ${problem.message}`));
+    console.log(`Wrote ${steps.length} steps to ${path.relative(process.cwd(), outPath)}`);
+    return problems.length === 0;
+}
+
+async function main() {
+    let args: CliArgs;
+    try {
+        args = parseArgs(process.argv.slice(2));
+    } catch (e) {
+        console.error(`${(e as Error).message}\n\n${USAGE}`);
+        process.exit(2);
+    }
+    const ok = await run(args);
+    process.exit(ok ? 0 : 1);
+}
+
+main().catch(e => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(1);
+});
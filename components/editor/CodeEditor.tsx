@@ -1,6 +1,7 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import type { Problem } from '../../game/types';
-import { getSuggestions, getCodeCompletion } from '../../editor/completions';
+import { getCodeCompletion } from '../../editor/completions';
+import { languageUiFor } from '../../runtimes/ui';
 
 // Make monaco globally available
 declare const monaco: any;
@@ -33,42 +34,17 @@ interface CodeEditorProps {
   onCursorChange: (position: { line: number, column: number }) => void;
   onOpenPalette: () => void;
   onRunSelection: (selectedCode: string) => void;
+  // The line the replay is currently at, highlighted and scrolled into view
+  activeLine?: number | null;
+  // Lines with a breakpoint; clicking the glyph margin or pressing F9 toggles one
+  breakpoints?: number[];
+  onToggleBreakpoint?: (line: number) => void;
+  // A line to put the cursor on and scroll to, e.g. one linked from the transpiled view.
+  // A new object each time, so the same line can be revealed again.
+  revealLine?: { line: number } | null;
 }
 
-const mapLanguageToMonaco = (lang: string): string => {
-    switch (lang) {
-        case 'py': return 'python';
-        case 'js': return 'javascript';
-        case 'jsx': return 'javascript';
-        case 'ts': return 'typescript';
-        case 'tsx': return 'typescript';
-        case 'md': return 'markdown';
-        case 'html': return 'html';
-        case 'css': return 'css';
-        case 'sh': return 'shell';
-        case 'c': return 'c';
-        case 'cpp': return 'cpp';
-        case 'cs': return 'csharp';
-        case 'clj': return 'clojure';
-        case 'dart': return 'dart';
-        case 'fs': return 'fsharp';
-        case 'go': return 'go';
-        case 'groovy': return 'groovy';
-        case 'hs': return 'haskell';
-        case 'java': return 'java';
-        case 'kt': return 'kotlin';
-        case 'lua': return 'lua';
-        case 'm': return 'objective-c';
-        case 'ml': return 'ocaml';
-        case 'pl': return 'perl';
-        case 'php': return 'php';
-        case 'rb': return 'ruby';
-        case 'rs': return 'rust';
-        case 'scala': return 'scala';
-        case 'swift': return 'swift';
-        default: return lang;
-    }
-};
+const mapLanguageToMonaco = (lang: string): string => languageUiFor(lang)?.monacoId ?? lang;
 
 const mapSuggestionTypeToMonacoKind = (type: string) => {
     // This function can only be called after monaco is loaded.
@@ -85,7 +61,7 @@ const mapSuggestionTypeToMonacoKind = (type: string) => {
     }
 };
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ code, onCodeChange, language, problems, settings, onCursorChange, onOpenPalette, onRunSelection }) => {
+const CodeEditor: React.FC<CodeEditorProps> = ({ code, onCodeChange, language, problems, settings, onCursorChange, onOpenPalette, onRunSelection, activeLine, breakpoints, onToggleBreakpoint, revealLine }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const editorRef = useRef<any>(null);
     const completionProviderRef = useRef<any>(null);
@@ -98,6 +74,8 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, onCodeChange, language, p
     const monacoRef = useRef<any>(null);
     const [initialCode] = useState<string>(code);
     const decorationsRef = useRef<string[]>([]);
+    const activeLineDecorationsRef = useRef<string[]>([]);
+    const breakpointDecorationsRef = useRef<string[]>([]);
     
     // Use a ref to store the latest onRunSelection callback to avoid stale closures.
     const onRunSelectionRef = useRef(onRunSelection);
@@ -105,6 +83,11 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, onCodeChange, language, p
         onRunSelectionRef.current = onRunSelection;
     }, [onRunSelection]);
 
+    const onToggleBreakpointRef = useRef(onToggleBreakpoint);
+    useEffect(() => {
+        onToggleBreakpointRef.current = onToggleBreakpoint;
+    }, [onToggleBreakpoint]);
+
 
     // Effect to initialize the editor instance. Runs only once.
     useEffect(() => {
@@ -181,6 +164,21 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, onCodeChange, language, p
                     }
                 });
 
+                editorInstance.addAction({
+                    id: 'toggle-breakpoint',
+                    label: 'Toggle Breakpoint',
+                    keybindings: [monaco.KeyCode.F9],
+                    run: (editor: any) => {
+                        onToggleBreakpointRef.current?.(editor.getPosition().lineNumber);
+                    }
+                });
+
+                editorInstance.onMouseDown((e: any) => {
+                    if (e.target.type === monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN && e.target.position) {
+                        onToggleBreakpointRef.current?.(e.target.position.lineNumber);
+                    }
+                });
+
                 editorRef.current = editorInstance;
                 setIsEditorMounted(true);
             } catch (error) {
@@ -368,13 +366,14 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, onCodeChange, language, p
         }, 300); // 300ms delay
 
 
-        // Register new providers
-        completionProviderRef.current = monaco.languages.registerCompletionItemProvider(monacoLang, {
+        // Register new providers; the language's runtime supplies the suggestions, if it has any
+        const completions = languageUiFor(language)?.completions;
+        completionProviderRef.current = completions && monaco.languages.registerCompletionItemProvider(monacoLang, {
             provideCompletionItems: (model: any, position: any) => {
                 const fullCode = model.getValue();
                 const line = model.getLineContent(position.lineNumber);
 
-                const suggestions = getSuggestions(line, position.column - 1, fullCode, language);
+                const suggestions = completions!(line, position.column - 1, fullCode, language);
                 const monacoSuggestions = suggestions.map((s: any) => ({
                     label: s.label,
                     kind: mapSuggestionTypeToMonacoKind(s.type),
@@ -454,6 +453,49 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, onCodeChange, language, p
         }
     }, [code, isEditorMounted, initialCode, debouncedUpdateDecorations]);
 
+    // Effect to draw the breakpoints in the glyph margin
+    useEffect(() => {
+        const editor = editorRef.current;
+        const monacoInstance = monacoRef.current;
+        if (!isEditorMounted || !editor || !monacoInstance) return;
+        breakpointDecorationsRef.current = editor.deltaDecorations(breakpointDecorationsRef.current, (breakpoints ?? []).map(line => ({
+            range: new monacoInstance.Range(line, 1, line, 1),
+            options: {
+                glyphMarginClassName: 'breakpoint-glyph',
+                glyphMarginHoverMessage: { value: 'Breakpoint (click or F9 to remove)' }
+            }
+        })));
+    }, [breakpoints, isEditorMounted]);
+
+    // Effect to highlight the line of the replay step being shown
+    useEffect(() => {
+        const editor = editorRef.current;
+        const monacoInstance = monacoRef.current;
+        if (!isEditorMounted || !editor || !monacoInstance) return;
+        const lineCount = editor.getModel()?.getLineCount() ?? 0;
+        if (!activeLine || activeLine > lineCount) {
+            activeLineDecorationsRef.current = editor.deltaDecorations(activeLineDecorationsRef.current, []);
+            return;
+        }
+        activeLineDecorationsRef.current = editor.deltaDecorations(activeLineDecorationsRef.current, [{
+            range: new monacoInstance.Range(activeLine, 1, activeLine, 1),
+            options: {
+                isWholeLine: true,
+                className: 'replay-active-line',
+                glyphMarginClassName: 'replay-active-line-glyph'
+            }
+        }]);
+        editor.revealLineInCenterIfOutsideViewport(activeLine);
+    }, [activeLine, isEditorMounted]);
+
+    useEffect(() => {
+        const editor = editorRef.current;
+        if (!isEditorMounted || !editor || !revealLine) return;
+        editor.setPosition({ lineNumber: revealLine.line, column: 1 });
+        editor.revealLineInCenter(revealLine.line);
+        editor.focus();
+    }, [revealLine, isEditorMounted]);
+
     return <div ref={containerRef} className="h-full w-full" />;
 };
 
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { transpiledSourceLines } from '../../game/python_bridge';
+import { XMarkIcon } from '../icons';
+
+declare const monaco: any;
+declare const require: any;
+
+interface TranspiledViewProps {
+  // The Python the file's current source was transpiled to, if it has been
+  python: string | undefined;
+  // The line the cursor is on in the source; the Python lines it became are highlighted
+  sourceLine: number;
+  // Called with the source line a clicked line of Python came from
+  onSourceLineClick: (line: number) => void;
+  onRetranspile: () => void;
+  isTranspiling: boolean;
+  onClose: () => void;
+}
+
+// A read-only view of the Python a compiled-language file is transpiled to, linked to the source through
+// the `# src: N` marker on each line
+export const TranspiledView: React.FC<TranspiledViewProps> = ({ python, sourceLine, onSourceLineClick, onRetranspile, isTranspiling, onClose }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const editorRef = useRef<any>(null);
+    const decorationsRef = useRef<string[]>([]);
+    const [isEditorMounted, setIsEditorMounted] = useState(false);
+    const sourceLines = useMemo(() => transpiledSourceLines(python ?? ''), [python]);
+
+    // Read by the click handler, which is registered once
+    const sourceLinesRef = useRef(sourceLines);
+    sourceLinesRef.current = sourceLines;
+    const onSourceLineClickRef = useRef(onSourceLineClick);
+    onSourceLineClickRef.current = onSourceLineClick;
+
+    const hasPython = python !== undefined;
+
+    useEffect(() => {
+        if (!hasPython) return;
+        let editorInstance: any = null;
+        const initializeEditor = () => {
+            if (!containerRef.current) return;
+            editorInstance = monaco.editor.create(containerRef.current, {
+                value: '',
+                language: 'python',
+                theme: 'vs-dark',
+                readOnly: true,
+                automaticLayout: true,
+                fontFamily: 'Roboto Mono, monospace',
+                fontSize: 14,
+                minimap: { enabled: false },
+                wordWrap: 'on',
+                scrollBeyondLastLine: false,
+            });
+            editorInstance.onMouseDown((e: any) => {
+                const line = e.target.position?.lineNumber;
+                const sourceLineOfClick = line ? sourceLinesRef.current[line - 1] : undefined;
+                if (sourceLineOfClick) onSourceLineClickRef.current(sourceLineOfClick);
+            });
+            editorRef.current = editorInstance;
+            setIsEditorMounted(true);
+        };
+        if (!(window as any).monaco) {
+            require(['vs/editor/editor.main'], initializeEditor);
+        } else {
+            initializeEditor();
+        }
+        return () => {
+            editorInstance?.dispose();
+            editorRef.current = null;
+            decorationsRef.current = [];
+            setIsEditorMounted(false);
+        };
+    }, [hasPython]);
+
+    useEffect(() => {
+        const editor = editorRef.current;
+        if (!isEditorMounted || !editor || python === undefined) return;
+        if (editor.getValue() !== python) editor.setValue(python);
+    }, [python, isEditorMounted]);
+
+    // Highlights the Python that came from the source line the cursor is on
+    useEffect(() => {
+        const editor = editorRef.current;
+        if (!isEditorMounted || !editor) return;
+        const lines = sourceLines.flatMap((line, index) => line === sourceLine ? [index + 1] : []);
+        decorationsRef.current = editor.deltaDecorations(decorationsRef.current, lines.map(line => ({
+            range: new monaco.Range(line, 1, line, 1),
+            options: { isWholeLine: true, className: 'transpiled-linked-line' },
+        })));
+        if (lines.length > 0) editor.revealLineInCenterIfOutsideViewport(lines[0]);
+    }, [sourceLines, sourceLine, isEditorMounted, python]);
+
+    return (
+        <div className="h-full flex flex-col border-l border-[#3a3d46]">
+            <div className="h-8 flex items-center justify-between px-3 bg-[#272a33] border-b border-[#3a3d46] text-xs text-gray-400">
+                <span className="font-semibold">Transpiled Python</span>
+                <div className="flex items-center space-x-3">
+                    <button onClick={onRetranspile} disabled={isTranspiling} className="hover:text-white disabled:opacity-50">
+                        {isTranspiling ? 'Transpiling...' : 'Re-transpile'}
+                    </button>
+                    <button onClick={onClose} className="hover:text-white" title="Close"><XMarkIcon className="w-3 h-3" /></button>
+                </div>
+            </div>
+            {hasPython ? (
+                <div ref={containerRef} className="flex-grow min-h-0" />
+            ) : (
+                <div className="flex-grow flex items-center justify-center p-4 text-center text-gray-500">
+                    This version of the file hasn't been transpiled yet. Run it, or re-transpile it.
+                </div>
+            )}
+        </div>
+    );
+};
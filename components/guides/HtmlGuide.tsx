@@ -1,5 +1,6 @@
 import React from 'react';
 import { GuideSection, CodeLine } from './api/SharedComponents';
+import { ApiSignatures } from './api/ApiReference';
 
 const CSharpExample: React.FC = () => (
     <>
@@ -23,10 +24,10 @@ const CppExample: React.FC = () => (
             auto bot = ai::Sprite("CppBot", "user", 10, 90);
         </CodeLine>
         <CodeLine>
-            bot->go_to(80, 20, 2);
+            bot-{'>'}go_to(80, 20, 2);
         </CodeLine>
         <CodeLine>
-            bot->say("Hello from C++!", 3);
+            bot-{'>'}say("Hello from C++!", 3);
         </CodeLine>
     </>
 );
@@ -88,5 +89,8 @@ export const CompiledLanguageGuide: React.FC<{ language: string }> = ({ language
         <RustExample />
         <JavaExample />
         <GoExample />
+        <h4 className="text-md font-semibold text-white mt-4 mb-2 font-sans">API Reference</h4>
+        <p className="text-slate-400 font-sans text-xs">Positional arguments fill the parameters in this order; parameters with a default can be left out.</p>
+        <ApiSignatures />
     </div>
 );
\ No newline at end of file
@@ -1,49 +1,18 @@
-
-
 import React from 'react';
-import { PythonGuide } from './PythonGuide';
-import { JavaScriptGuide } from './JavaScriptGuide';
 import { GenericGuide } from './GenericGuide';
-import { UniversalGuide } from './UniversalGuide';
-import { CompiledLanguageGuide } from './HtmlGuide';
+import { languageUiFor } from '../../runtimes/ui';
 
 interface LanguageGuideProps {
     activeLanguage: string;
 }
 
+// The guide of the active file's language (see runtimes/ui.ts)
 export const LanguageGuide: React.FC<LanguageGuideProps> = ({ activeLanguage }) => {
-    
-    const renderGuide = () => {
-        switch (activeLanguage) {
-            case 'py':
-                return <PythonGuide />;
-            case 'js':
-            case 'jsx':
-            case 'ts':
-            case 'tsx':
-                return <JavaScriptGuide />;
-            case 'md':
-            case 'html':
-                 return <UniversalGuide />;
-            case 'c':
-            case 'cpp':
-            case 'cs':
-            case 'dart':
-            case 'go':
-            case 'java':
-            case 'kt':
-            case 'rs':
-            case 'scala':
-            case 'swift':
-                return <CompiledLanguageGuide language={activeLanguage} />;
-            default:
-                return <GenericGuide language={activeLanguage} />;
-        }
-    };
+    const Guide = languageUiFor(activeLanguage)?.guide ?? GenericGuide;
 
     return (
          <div className="font-sans">
-            {renderGuide()}
+            <Guide language={activeLanguage} />
         </div>
     );
-};
\ No newline at end of file
+};
@@ -1,8 +1,6 @@
 import React from 'react';
-import { AIGuide } from './api/AIGuide';
-import { WorldGuide } from './api/WorldGuide';
-import { PhysicsGuide } from './api/PhysicsGuide';
-import { SoundGuide } from './api/SoundGuide';
+import { ApiReference } from './api/ApiReference';
+import { EventsGuide } from './api/EventsGuide';
 import { GuideSection, CodeLine } from './api/SharedComponents';
 
 export const PythonGuide: React.FC = () => (
@@ -21,9 +19,7 @@ export const PythonGuide: React.FC = () => (
             </CodeLine>
         </GuideSection>
 
-        <AIGuide />
-        <WorldGuide />
-        <PhysicsGuide />
-        <SoundGuide />
+        <ApiReference style="py" />
+        <EventsGuide />
     </div>
 );
\ No newline at end of file
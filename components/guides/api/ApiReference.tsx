@@ -0,0 +1,75 @@
+import React from 'react';
+import { GuideSection, CodeLine } from './SharedComponents';
+import { API_LIBRARIES, API_LIBRARY_NAMES, ApiMethod, ApiStyle, apiExampleCall, apiSignature, libraryMethods, SPRITE_API } from '../../../game/api_schema';
+
+// The variable the examples keep their sprite in, as ai.Sprite's example names it
+const SPRITE_VARIABLE = API_LIBRARIES.ai.methods.Sprite.example.result;
+
+// Colors an example call's keywords, strings and numbers
+export const HighlightedCode: React.FC<{ code: string }> = ({ code }) => (
+    <>
+        {code.split(/("[^"]*"|\bconst\b|-?\b\d+(?:\.\d+)?\b)/).map((part, i) => {
+            if (i % 2 === 0) return part;
+            const token = part.startsWith('"') ? 'token-string' : part === 'const' ? 'token-keyword' : 'token-number';
+            return <span key={i} className={token}>{part}</span>;
+        })}
+    </>
+);
+
+const MethodExamples: React.FC<{ target: string, methods: Record<string, ApiMethod>, style: ApiStyle }> = ({ target, methods, style }) => (
+    <>
+        {Object.entries(methods).map(([name, method]) => (
+            <CodeLine key={name} comment={method.doc}>
+                <HighlightedCode code={apiExampleCall(target, name, method, style)} />
+            </CodeLine>
+        ))}
+    </>
+);
+
+const LibraryNote: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <p className="text-xs font-sans text-slate-400">{children}</p>
+);
+
+// Every library and sprite method with an example call in the script's style, generated from the API schema
+export const ApiReference: React.FC<{ style: ApiStyle }> = ({ style }) => (
+    <>
+        {API_LIBRARY_NAMES.map(library => (
+            <React.Fragment key={library}>
+                <GuideSection title={`The '${library}' Library`}>
+                    <LibraryNote>{API_LIBRARIES[library].doc}</LibraryNote>
+                    <MethodExamples target={library} methods={libraryMethods(library)} style={style} />
+                </GuideSection>
+                {library === 'ai' && (
+                    <GuideSection title="Sprite Methods">
+                        <LibraryNote>Sprites have id, name, shape, x, y and rotation. Durations and speeds are in seconds.</LibraryNote>
+                        <MethodExamples target={SPRITE_VARIABLE} methods={SPRITE_API} style={style} />
+                    </GuideSection>
+                )}
+            </React.Fragment>
+        ))}
+    </>
+);
+
+const MethodSignatures: React.FC<{ target: string, methods: Record<string, ApiMethod> }> = ({ target, methods }) => (
+    <>
+        {Object.entries(methods).map(([name, method]) => (
+            <CodeLine key={name} comment={method.doc}>
+                {target}.{name}{apiSignature(method, 'py')}
+            </CodeLine>
+        ))}
+    </>
+);
+
+// Every method's parameters in the order positional arguments fill them, for languages without keyword arguments
+export const ApiSignatures: React.FC = () => (
+    <>
+        {API_LIBRARY_NAMES.map(library => (
+            <GuideSection key={library} title={`The '${library}' Library`}>
+                <MethodSignatures target={library} methods={libraryMethods(library)} />
+            </GuideSection>
+        ))}
+        <GuideSection title="Sprite Methods">
+            <MethodSignatures target={SPRITE_VARIABLE} methods={SPRITE_API} />
+        </GuideSection>
+    </>
+);
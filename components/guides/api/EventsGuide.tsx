@@ -0,0 +1,22 @@
+import React from 'react';
+import { GuideSection, CodeLine } from './SharedComponents';
+
+export const EventsGuide: React.FC = () => (
+    <GuideSection title="Live Mode Events">
+        <CodeLine comment="Called once, after the top-level code has played, when a live run starts.">
+            <span className="token-keyword">def</span> on_start():{'\n'}    <span className="token-variable">bot</span>.say(message=<span className="token-string">"Let's go!"</span>)
+        </CodeLine>
+        <CodeLine comment="Called every frame with the seconds elapsed since the previous tick. Sprite x/y are kept up to date.">
+            <span className="token-keyword">def</span> on_tick(dt):{'\n'}    <span className="token-variable">bot</span>.move_to(x=<span className="token-variable">bot.x</span> + <span className="token-number">10</span> * dt, y=<span className="token-variable">bot.y</span>, speed=<span className="token-number">0</span>)
+        </CodeLine>
+        <CodeLine comment="Called when two objects touch. Each argument is a sprite or a prop.">
+            <span className="token-keyword">def</span> on_collision(a, b):{'\n'}    print(f<span className="token-string">"{'{a.name}'} hit something"</span>)
+        </CodeLine>
+        <div className="text-xs font-sans p-2 bg-slate-800/50 rounded-md border border-slate-700">
+            <p className="font-bold text-slate-300">Enabling Live Mode</p>
+            <p className="mt-1 text-slate-400">
+                Choose <span className="text-white">Live</span> under Settings → Runtimes. Commands issued by a handler play out before the next tick. Press stop to end the session; everything it did can then be replayed.
+            </p>
+        </div>
+    </GuideSection>
+);
@@ -0,0 +1,126 @@
+import React, { useRef, useState } from 'react';
+import type { ExecutionStep, GameState } from '../../game/types';
+import { countVideoFrames, exportVideo, isWebMSupported, VideoExportProgress, VideoFormat } from '../../controls/replayExport';
+import { downloadFile } from '../../controls/gameControls';
+
+interface ExportVideoModalProps {
+    steps: ExecutionStep[];
+    // The state before the first step
+    initialState: GameState;
+    fileBaseName: string;
+    showPaths: boolean;
+    onClose: () => void;
+    onExported: (message: string) => void;
+}
+
+const RESOLUTIONS = [
+    { label: '320 × 180', width: 320, height: 180 },
+    { label: '480 × 270', width: 480, height: 270 },
+    { label: '640 × 360', width: 640, height: 360 },
+    { label: '1280 × 720', width: 1280, height: 720 },
+];
+const FRAME_RATES = [10, 15, 24, 30];
+
+const selectClassName = "bg-[#1e2026] border border-[#3a3d46] rounded-md px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const ExportVideoModal: React.FC<ExportVideoModalProps> = ({ steps, initialState, fileBaseName, showPaths, onClose, onExported }) => {
+    const webMSupported = isWebMSupported();
+    const [format, setFormat] = useState<VideoFormat>('gif');
+    const [resolutionIndex, setResolutionIndex] = useState(1);
+    const [fps, setFps] = useState(15);
+    const [progress, setProgress] = useState<VideoExportProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const isExporting = progress !== null;
+    const frameCount = countVideoFrames(steps, fps);
+
+    const handleExport = async () => {
+        const { width, height } = RESOLUTIONS[resolutionIndex];
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError(null);
+        setProgress({ phase: 'rendering', done: 0, total: frameCount });
+        try {
+            const video = await exportVideo(steps, initialState, { format, width, height, fps, showPaths }, setProgress, controller.signal);
+            const fileName = `${fileBaseName}.${format}`;
+            downloadFile(fileName, video, video.type);
+            onExported(`Exported ${fileName} (${width}×${height}, ${fps} fps, ${(video.size / 1024).toFixed(0)} KB).`);
+            onClose();
+        } catch (e) {
+            if (!controller.signal.aborted) setError(e instanceof Error ? e.message : 'The export failed.');
+            setProgress(null);
+        } finally {
+            abortRef.current = null;
+        }
+    };
+
+    const handleCancel = () => {
+        if (abortRef.current) abortRef.current.abort();
+        else onClose();
+    };
+
+    const percent = progress ? Math.round((progress.done / Math.max(1, progress.total)) * 100) : 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4" onClick={isExporting ? undefined : onClose}>
+            <div className="bg-[#272a33] rounded-lg shadow-lg p-6 w-full max-w-md text-gray-300 border border-[#3a3d46]" onClick={e => e.stopPropagation()}>
+                <h2 className="text-lg font-bold text-white mb-4">Export Video</h2>
+                <div className="space-y-4 text-sm">
+                    <div className="flex items-center justify-between">
+                        <label className="text-gray-300">Format</label>
+                        <select value={format} disabled={isExporting} onChange={e => setFormat(e.target.value as VideoFormat)} className={selectClassName}>
+                            <option value="gif">Animated GIF</option>
+                            <option value="webm" disabled={!webMSupported}>WebM video{webMSupported ? '' : ' (not supported in this browser)'}</option>
+                        </select>
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <label className="text-gray-300">Resolution</label>
+                        <select value={resolutionIndex} disabled={isExporting} onChange={e => setResolutionIndex(Number(e.target.value))} className={selectClassName}>
+                            {RESOLUTIONS.map((resolution, index) => <option key={resolution.label} value={index}>{resolution.label}</option>)}
+                        </select>
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <label className="text-gray-300">Frame rate</label>
+                        <select value={fps} disabled={isExporting} onChange={e => setFps(Number(e.target.value))} className={selectClassName}>
+                            {FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+                        </select>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                        {frameCount} frames ({(frameCount / fps).toFixed(1)} s). Gemini is not called: chat replies appear only if they were recorded while the replay played.
+                        {format === 'webm' && ' WebM is recorded in real time once the frames are rendered.'}
+                    </p>
+                    {progress && (
+                        <div>
+                            <div className="flex justify-between text-xs text-gray-400 mb-1">
+                                <span>{progress.phase === 'rendering' ? 'Rendering frames' : 'Encoding video'}</span>
+                                <span>{progress.done}/{progress.total}</span>
+                            </div>
+                            <div className="h-2 bg-[#1e2026] rounded-full overflow-hidden">
+                                <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+                            </div>
+                        </div>
+                    )}
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+                </div>
+                <div className="flex justify-end space-x-3 mt-6">
+                    <button
+                        onClick={handleCancel}
+                        className="bg-[#3a3d46] hover:bg-[#4a4d56] text-gray-300 font-bold py-2 px-4 rounded-md transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        disabled={isExporting}
+                        className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition-colors"
+                    >
+                        {isExporting ? `Exporting ${percent}%` : 'Export'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExportVideoModal;
@@ -1,4 +1,6 @@
 import React from 'react';
+import { API_LIBRARIES, API_LIBRARY_NAMES, ApiMethod, apiExampleCall, SPRITE_API } from '../../game/api_schema';
+import { HighlightedCode } from '../guides/api/ApiReference';
 
 interface HelpModalProps {
     onClose: () => void;
@@ -11,43 +13,28 @@ const CodeLine: React.FC<{ children: React.ReactNode, comment?: string }> = ({ c
     </div>
 );
 
+// A few calls to get going, with their examples from the API schema
+const QUICK_START: [string, string, ApiMethod][] = [
+    ['ai', 'Sprite', API_LIBRARIES.ai.methods.Sprite],
+    ['bot', 'move_to', SPRITE_API.move_to],
+    ['bot', 'say', SPRITE_API.say],
+    ['bot', 'set_style', SPRITE_API.set_style],
+    ['ai', 'wait', API_LIBRARIES.ai.methods.wait],
+];
 
 const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => (
     <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4" onClick={onClose}>
         <div className="bg-[#272a33] rounded-lg shadow-lg p-6 w-full max-w-2xl text-gray-300 border border-[#3a3d46]" onClick={e => e.stopPropagation()}>
-            <h2 className="text-xl font-bold text-white mb-4">SpriteScript Guide</h2>
-            <p className="mb-4">SpriteScript is a powerful language for creating animated scenes. See the <span className="font-semibold text-white">Guide</span> tab for the full reference.</p>
+            <h2 className="text-xl font-bold text-white mb-4">Quick Start</h2>
+            <p className="mb-4">Scripts control sprites through the {API_LIBRARY_NAMES.slice(0, -1).join(', ')} and {API_LIBRARY_NAMES[API_LIBRARY_NAMES.length - 1]} libraries, which need no import. See the <span className="font-semibold text-white">Guide</span> tab for the full reference.</p>
             <div className="font-mono text-sm space-y-4 bg-[#1e2026] p-4 rounded-md">
-                 <div>
-                    <CodeLine comment="Import the AI module (must be the first line).">
-                        <span className="token-keyword">import</span> ai
-                    </CodeLine>
-                </div>
-                 <div>
-                    <CodeLine comment="Create a sprite and assign it to a variable.">
-                        <span className="token-variable">my_bot</span> = ai.create_sprite(name=<span className="token-string">"B-101"</span>, shape=<span className="token-string">"user"</span>)
-                    </CodeLine>
-                </div>
-                 <div>
-                    <CodeLine comment="Store custom data on your sprite.">
-                        <span className="token-variable">my_bot</span>.set_data(key=<span className="token-string">"hp"</span>, value=<span className="token-number">100</span>)
-                    </CodeLine>
-                </div>
-                <div>
-                    <CodeLine comment="Animate movement over 1.5 seconds (1500ms).">
-                       <span className="token-variable">my_bot</span>.move_to(x=<span className="token-number">75</span>, y=<span className="token-number">50</span>, speed=<span className="token-number">1500</span>)
-                    </CodeLine>
-                </div>
-                 <div>
-                    <CodeLine comment="Make it talk for 3 seconds (3000ms).">
-                        <span className="token-variable">my_bot</span>.say(message=<span className="token-string">"Hello, world!"</span>, duration=<span className="token-number">3000</span>)
-                    </CodeLine>
-                </div>
-                <div>
-                    <CodeLine comment="Animate a style change over 2 seconds.">
-                        <span className="token-variable">my_bot</span>.set_style(property=<span className="token-string">"transform"</span>, value=<span className="token-string">"rotate(360deg)"</span>, duration=<span className="token-number">2000</span>)
-                    </CodeLine>
-                </div>
+                {QUICK_START.map(([target, name, method]) => (
+                    <div key={name}>
+                        <CodeLine comment={method.doc}>
+                            <HighlightedCode code={apiExampleCall(target, name, method, 'py')} />
+                        </CodeLine>
+                    </div>
+                ))}
             </div>
             <button onClick={onClose} className="mt-6 w-full sm:w-auto bg-blue-700 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-md transition-colors">
                 Got It
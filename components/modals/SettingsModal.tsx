@@ -1,11 +1,18 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { produce } from 'immer';
-import type { PanelComponentKey, PanelLayout } from '../../game/types';
+import type { PanelComponentKey, PanelLayout, SimulationMode } from '../../game/types';
+import type { PythonEngineName } from '../../game/python_engine';
 
 type LayoutOption = 'default' | 'code-focused' | 'preview-focused' | 'custom';
 
 interface Settings {
-    pythonEngine: 'pyodide' | 'pyscript';
+    pythonEngine: PythonEngineName;
+    simulationMode: SimulationMode;
+    showPaths: boolean;
+    seed: string;
+    scriptTimeLimit: number;
+    allowNetwork: boolean;
+    pythonRuntimeUrl: string;
     layout: LayoutOption;
     customLayout: PanelLayout;
     keybindings: {
@@ -284,12 +291,84 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose, settings, setSet
                             />
                             <RadioOption
                                 label="PyScript"
-                                description="Uses the PyScript framework loader."
+                                description="Uses the Pyodide build that ships with PyScript."
                                 value="pyscript"
                                 checked={settings.pythonEngine === 'pyscript'}
                                 onChange={() => setSettings(produce(draft => { draft.pythonEngine = 'pyscript'; }))}
                             />
                             </div>
+                            <h3 className="text-md font-bold text-white mt-6 mb-2">Python Runtime URL</h3>
+                            <p className="text-xs text-gray-400 mb-4">The folder Pyodide is loaded from, for either engine. Leave it blank for the jsDelivr CDN, or point it at a copy of a Pyodide release served with the app, e.g. /pyodide/, to run Python offline or behind a proxy.</p>
+                            <input
+                                type="text"
+                                placeholder="https://cdn.jsdelivr.net/pyodide/..."
+                                defaultValue={settings.pythonRuntimeUrl}
+                                // Taken when the field is left, so a half-typed URL isn't loaded from
+                                onBlur={(e) => { const value = e.target.value.trim(); setSettings(produce(draft => { draft.pythonRuntimeUrl = value; })); }}
+                                className="w-full bg-[#1e2026] border border-[#3a3d46] rounded-md px-2 py-1 text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <h3 className="text-md font-bold text-white mt-6 mb-2">Simulation Mode</h3>
+                            <p className="text-xs text-gray-400 mb-4">Choose whether scripts are recorded once and replayed, or kept running so their event handlers can react to the world.</p>
+                            <div className="space-y-3">
+                            <RadioOption
+                                label="Replay"
+                                description="Run the script once, then play back the recorded steps deterministically."
+                                value="replay"
+                                checked={settings.simulationMode === 'replay'}
+                                onChange={() => setSettings(produce(draft => { draft.simulationMode = 'replay'; }))}
+                            />
+                            <RadioOption
+                                label="Live"
+                                description="Call on_start(), on_tick(dt) and on_collision(a, b) every frame against the current world. Running a script ends the session, keeping what it recorded as a replay, even if that run is cancelled."
+                                value="live"
+                                checked={settings.simulationMode === 'live'}
+                                onChange={() => setSettings(produce(draft => { draft.simulationMode = 'live'; }))}
+                            />
+                            </div>
+                            <h3 className="text-md font-bold text-white mt-6 mb-2">Random Seed</h3>
+                            <p className="text-xs text-gray-400 mb-4">Sprite ids, Python's random and Math.random() all follow this seed, so the same script replays the same way. Leave it blank to pick a new seed each run; the seed used is printed to the console.</p>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                placeholder="Random each run"
+                                value={settings.seed}
+                                onChange={(e) => setSettings(produce(draft => { draft.seed = e.target.value; }))}
+                                className="w-48 bg-[#1e2026] border border-[#3a3d46] rounded-md px-2 py-1 text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <h3 className="text-md font-bold text-white mt-6 mb-2">Script Time Limit</h3>
+                            <p className="text-xs text-gray-400 mb-4">Scripts run in the background, so one stuck in a loop can't freeze the page. It is stopped after this many seconds, or when you press Stop. Set it to 0 for no limit.</p>
+                            <input
+                                type="number"
+                                min={0}
+                                value={settings.scriptTimeLimit}
+                                onChange={(e) => setSettings(produce(draft => { draft.scriptTimeLimit = Math.max(0, Number(e.target.value) || 0); }))}
+                                className="w-48 bg-[#1e2026] border border-[#3a3d46] rounded-md px-2 py-1 text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <label className="flex items-center p-3 mt-3 rounded-md border-2 cursor-pointer border-[#3a3d46] bg-[#1e2026] hover:border-gray-500">
+                                <input
+                                    type="checkbox"
+                                    checked={settings.allowNetwork}
+                                    onChange={(e) => setSettings(produce(draft => { draft.allowNetwork = e.target.checked; }))}
+                                    className="h-4 w-4 accent-blue-500 bg-gray-800 border-gray-600"
+                                />
+                                <div className="ml-3">
+                                    <p className="text-sm font-semibold text-white">Allow Network Access</p>
+                                    <p className="text-xs text-gray-400">Let JavaScript scripts use fetch(), WebSocket and import(). Only turn this on for code you trust.</p>
+                                </div>
+                            </label>
+                            <h3 className="text-md font-bold text-white mt-6 mb-2">Debugging</h3>
+                            <label className="flex items-center p-3 rounded-md border-2 cursor-pointer border-[#3a3d46] bg-[#1e2026] hover:border-gray-500">
+                                <input
+                                    type="checkbox"
+                                    checked={settings.showPaths}
+                                    onChange={(e) => setSettings(produce(draft => { draft.showPaths = e.target.checked; }))}
+                                    className="h-4 w-4 accent-blue-500 bg-gray-800 border-gray-600"
+                                />
+                                <div className="ml-3">
+                                    <p className="text-sm font-semibold text-white">Show Pathfinding Routes</p>
+                                    <p className="text-xs text-gray-400">Draw the route each sprite planned around props on its last go_to().</p>
+                                </div>
+                            </label>
                         </div>
                     )}
                     {activeTab === 'layout' && (
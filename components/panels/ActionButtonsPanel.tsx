@@ -2,6 +2,7 @@
 
 
 import React from 'react';
+import type { RuntimeStatus } from '../../game/types';
 import { QuestionMarkCircleIcon, ArrowPathIcon } from '../icons';
 
 interface ActionButtonsPanelProps {
@@ -9,31 +10,69 @@ interface ActionButtonsPanelProps {
     buttons: { id: string; onClick: () => void; style: 'primary' | 'secondary'; icon: React.ReactNode; text: string; }[];
     onHelpClick: () => void;
     isExecuting: boolean;
+    // While executing, the primary button turns into a Cancel button that calls this
+    onCancel?: () => void;
+    // Run configurations offered in a dropdown beside the primary button; none is shown without them
+    runOptions?: { value: string; label: string; }[];
+    selectedRunOption?: string;
+    onSelectRunOption?: (value: string) => void;
+    // How loading the Python runtime is going, shown under the title unless it hasn't started
+    runtimeStatus?: RuntimeStatus;
 }
 
-export const ActionButtonsPanel: React.FC<ActionButtonsPanelProps> = ({ title, buttons, onHelpClick, isExecuting }) => (
+const STATUS_STYLES: Record<RuntimeStatus['state'], string> = {
+    idle: '',
+    loading: 'text-gray-400',
+    ready: 'text-green-400',
+    error: 'text-red-400',
+};
+
+export const ActionButtonsPanel: React.FC<ActionButtonsPanelProps> = ({ title, buttons, onHelpClick, isExecuting, onCancel, runOptions, selectedRunOption, onSelectRunOption, runtimeStatus }) => (
     <div className="flex-grow bg-[#272a33] rounded-lg p-2 flex flex-col space-y-2 border border-[#3a3d46]">
         <div className="flex items-center space-x-2">
             <h2 className="text-gray-400 font-semibold text-xs uppercase tracking-wider">{title}</h2>
             <button onClick={onHelpClick} className="text-gray-500 hover:text-white" title="Help"><QuestionMarkCircleIcon /></button>
         </div>
+        {runtimeStatus && runtimeStatus.state !== 'idle' && (
+            <div className={`flex items-center space-x-2 text-xs ${STATUS_STYLES[runtimeStatus.state]}`} title={runtimeStatus.message}>
+                {runtimeStatus.state === 'loading' && <ArrowPathIcon className="animate-spin w-4 h-4 flex-shrink-0" />}
+                <span className={runtimeStatus.state === 'error' ? 'break-words' : 'truncate'}>{runtimeStatus.message}</span>
+            </div>
+        )}
          <div className="space-y-2">
             {buttons.map(button => {
                 const primaryStyles = "bg-blue-700 hover:bg-blue-600 text-white font-bold";
                 const secondaryStyles = "bg-[#3a3d46] hover:bg-[#4a4d56] border border-[#4f525c] text-gray-300 font-semibold";
-                const isDisabled = isExecuting;
+                const isCancel = isExecuting && button.style === 'primary' && !!onCancel;
+                const isDisabled = isExecuting && !isCancel;
                 
-                return (
+                const buttonElement = (
                     <button 
                         key={button.id} 
-                        onClick={button.onClick} 
+                        onClick={isCancel ? onCancel : button.onClick} 
                         disabled={isDisabled}
                         className={`w-full h-10 rounded-md flex items-center justify-center space-x-2 transition-colors text-xs ${button.style === 'primary' ? primaryStyles : secondaryStyles} disabled:bg-gray-600 disabled:cursor-not-allowed`}
                     >
                         {isExecuting ? <ArrowPathIcon className="animate-spin w-5 h-5" /> : button.icon}
-                        <span>{isExecuting ? 'Executing...' : button.text}</span>
+                        <span>{isCancel ? 'Cancel' : isExecuting ? 'Executing...' : button.text}</span>
                     </button>
-                )
+                );
+                if (button.style !== 'primary' || !runOptions) return buttonElement;
+
+                return (
+                    <div key={button.id} className="flex space-x-2">
+                        {buttonElement}
+                        <select
+                            value={selectedRunOption}
+                            onChange={e => onSelectRunOption?.(e.target.value)}
+                            disabled={isExecuting}
+                            title="Run configuration"
+                            className="h-10 max-w-[45%] bg-[#1e2026] border border-[#4f525c] rounded-md px-2 text-xs text-gray-300 focus:outline-none focus:border-blue-500 disabled:cursor-not-allowed"
+                        >
+                            {runOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </select>
+                    </div>
+                );
             })}
          </div>
     </div>
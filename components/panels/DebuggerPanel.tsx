@@ -0,0 +1,82 @@
+import React from 'react';
+import type { DebugFrame } from '../../game/types';
+import type { Breakpoints, DebugCommand } from '../../game/debugger';
+import { XMarkIcon } from '../icons';
+
+export interface DebuggerPanelProps {
+    // The line the debug run is paused on, or null while it runs or when there is none
+    frame: DebugFrame | null;
+    isDebugging: boolean;
+    // Whether the page can pause scripts at all, which needs cross-origin isolation
+    isAvailable: boolean;
+    breakpoints: Breakpoints;
+    fileName: (fileId: string) => string;
+    onCommand: (command: DebugCommand) => void;
+    onPause: () => void;
+    onStop: () => void;
+    onRemoveBreakpoint: (fileId: string, line: number) => void;
+}
+
+const COMMANDS: { command: DebugCommand; label: string; title: string }[] = [
+    { command: 'continue', label: 'Continue', title: 'Run until the script reaches a breakpoint' },
+    { command: 'over', label: 'Step Over', title: 'Run to the next line in this function' },
+    { command: 'into', label: 'Step Into', title: 'Run to the next line, entering any call' },
+    { command: 'out', label: 'Step Out', title: 'Run until the current function returns' },
+];
+
+const buttonClassName = "px-2 py-1 rounded bg-[#3a3d46] hover:bg-[#4a4d56] text-gray-200 font-sans disabled:opacity-40 disabled:cursor-not-allowed";
+
+export const DebuggerPanel: React.FC<DebuggerPanelProps> = ({
+    frame, isDebugging, isAvailable, breakpoints, fileName, onCommand, onPause, onStop, onRemoveBreakpoint
+}) => {
+    const breakpointList = Object.entries(breakpoints).flatMap(([fileId, lines]) => lines.map(line => ({ fileId, line })));
+    const canStep = isDebugging && !!frame;
+
+    let status: string;
+    if (!isAvailable) status = 'The debugger needs the page to be cross-origin isolated, as the dev server and vercel.json serve it (see the README).';
+    else if (!isDebugging) status = 'Click the editor gutter (or press F9) to set breakpoints, then press "Debug This File". The script pauses at the first breakpoint it reaches, or on its first line if there are none.';
+    else if (frame) status = `Paused at ${fileName(frame.fileId)}:${frame.line} in ${frame.scope}`;
+    else status = 'Running…';
+
+    const variables = frame ? Object.entries(frame.variables) : [];
+
+    return (
+        <div className="flex flex-col space-y-2">
+            <div className="flex flex-wrap items-center gap-1">
+                {COMMANDS.map(({ command, label, title }) => (
+                    <button key={command} onClick={() => onCommand(command)} disabled={!canStep} className={buttonClassName} title={title}>{label}</button>
+                ))}
+                <button onClick={onPause} disabled={!isDebugging || !!frame} className={buttonClassName} title="Pause the script on the next line it runs">Pause</button>
+                <button onClick={onStop} disabled={!isDebugging} className={buttonClassName} title="Stop the script">Stop</button>
+            </div>
+            <div className="text-gray-300">{status}</div>
+            {frame && (
+                <div>
+                    <div className="text-gray-500 uppercase tracking-wider text-[10px] mb-1">Variables</div>
+                    {variables.length > 0 ? (
+                        <table className="w-full">
+                            <tbody>
+                                {variables.map(([name, value]) => (
+                                    <tr key={name} className="align-top">
+                                        <td className="pr-4 text-sky-300 whitespace-nowrap">{name}</td>
+                                        <td className="text-gray-300 break-all">{value}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : <div className="text-gray-500">No variables in scope.</div>}
+                </div>
+            )}
+            <div>
+                <div className="text-gray-500 uppercase tracking-wider text-[10px] mb-1">Breakpoints</div>
+                {breakpointList.length > 0 ? breakpointList.map(({ fileId, line }) => (
+                    <div key={`${fileId}:${line}`} className="flex items-center space-x-2">
+                        <span className="w-2 h-2 rounded-full bg-red-500 flex-shrink-0" />
+                        <span>{fileName(fileId)}:{line}</span>
+                        <button onClick={() => onRemoveBreakpoint(fileId, line)} className="text-gray-500 hover:text-white" title="Remove breakpoint"><XMarkIcon className="w-3 h-3" /></button>
+                    </div>
+                )) : <div className="text-gray-500">None.</div>}
+            </div>
+        </div>
+    );
+};
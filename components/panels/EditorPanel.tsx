@@ -1,10 +1,14 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import CodeEditor from '../editor/CodeEditor';
-import type { FileSystemTree, Problem, EditorCommand } from '../../game/types';
+import type { FileSystemTree, Problem, EditorCommand, SourceLocation } from '../../game/types';
 import { FileIcon, XMarkIcon, PlusIcon } from '../icons';
 import { formatCode } from '../../game/gemini';
+import type { Breakpoints } from '../../game/debugger';
 import { EditorStatusBar } from '../editor/EditorStatusBar';
 import { CommandPalette } from '../editor/CommandPalette';
+import { TranspiledView } from '../editor/TranspiledView';
+import { cachedTranspilation, onTranspilationCached, transpileWithCache } from '../../game/transpile_cache';
+import { languageRuntimeFor } from '../../runtimes/registry';
 
 interface EditorPanelProps {
     actions: { id: string; icon: React.ReactNode; onClick: () => void; }[];
@@ -20,10 +24,14 @@ interface EditorPanelProps {
     onTabsReorder: (tabs: string[]) => void;
     onAddProblem: (problem: Problem) => void;
     onRunSelection: (selectedCode: string) => void;
+    // Where the replay step currently shown came from
+    activeSource?: SourceLocation | null;
+    breakpoints: Breakpoints;
+    onToggleBreakpoint: (fileId: string, line: number) => void;
 }
 
 export const EditorPanel: React.FC<EditorPanelProps> = ({ 
-    actions, openTabs, activeTabId, fileSystem, problems, settings, onTabClick, onTabClose, onCodeChange, onNewFileClick, onTabsReorder, onAddProblem, onRunSelection
+    actions, openTabs, activeTabId, fileSystem, problems, settings, onTabClick, onTabClose, onCodeChange, onNewFileClick, onTabsReorder, onAddProblem, onRunSelection, activeSource, breakpoints, onToggleBreakpoint
 }) => {
   const activeFile = fileSystem[activeTabId];
   const code = (activeFile?.type === 'file' ? activeFile.code : '') || '';
@@ -36,6 +44,16 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
   const [cursorPosition, setCursorPosition] = useState({ line: 1, column: 1 });
   const [isFormatting, setIsFormatting] = useState(false);
 
+  // The Python a compiled-language file runs as, shown beside it (see transpile_cache.ts)
+  const isTranspiled = !!languageRuntimeFor(activeLanguage)?.transpiledToPython;
+  const [showTranspiled, setShowTranspiled] = useState(false);
+  const [isTranspiling, setIsTranspiling] = useState(false);
+  const [revealLine, setRevealLine] = useState<{ line: number } | null>(null);
+  // Re-renders when a transpilation is cached, since the cache lives outside React
+  const [, setCacheVersion] = useState(0);
+  useEffect(() => onTranspilationCached(() => setCacheVersion(version => version + 1)), []);
+  const transpiledPython = isTranspiled ? cachedTranspilation(code, activeLanguage) : undefined;
+
   const handleFormatDocument = useCallback(async () => {
     if (isFormatting || !activeFile || activeFile.type !== 'file') return;
     setIsFormatting(true);
@@ -57,12 +75,45 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
     }
   }, [code, activeLanguage, activeFile, isFormatting, onCodeChange, onAddProblem, activeTabId]);
 
+  // Transpiles the file again even if it's cached, for when the cached Python is wrong
+  const handleRetranspile = useCallback(async () => {
+    if (isTranspiling || !isTranspiled) return;
+    setIsTranspiling(true);
+    setShowTranspiled(true);
+    try {
+        await transpileWithCache(code, activeLanguage, undefined, true);
+    } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : "An unknown error occurred during transpilation.";
+        onAddProblem({
+            fileId: activeTabId,
+            line: 0,
+            message: `Transpiling to Python failed: ${errorMessage}`,
+            code: code,
+            language: activeLanguage,
+        });
+    } finally {
+        setIsTranspiling(false);
+    }
+  }, [code, activeLanguage, isTranspiled, isTranspiling, onAddProblem, activeTabId]);
+
   const commands: EditorCommand[] = [
     {
         id: 'formatDocument',
         label: isFormatting ? 'Formatting document...' : 'Format Document',
         action: handleFormatDocument,
     },
+    ...(isTranspiled ? [
+        {
+            id: 'toggleTranspiledView',
+            label: showTranspiled ? 'Hide Transpiled Python' : 'Show Transpiled Python',
+            action: () => setShowTranspiled(shown => !shown),
+        },
+        {
+            id: 'retranspile',
+            label: isTranspiling ? 'Transpiling to Python...' : 'Re-transpile to Python',
+            action: handleRetranspile,
+        },
+    ] : []),
     // More commands can be added here, e.g., for toggling settings
   ];
 
@@ -181,6 +232,15 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
             </button>
         </div>
         <div className="flex items-center space-x-3 px-3 text-gray-400">
+            {isTranspiled && (
+                <button
+                    onClick={() => setShowTranspiled(shown => !shown)}
+                    className={`text-xs font-semibold hover:text-white ${showTranspiled ? 'text-sky-400' : ''}`}
+                    title="Show the Python this file is transpiled to"
+                >
+                    Python
+                </button>
+            )}
             {actions.map(action => (
                 <button key={action.id} onClick={action.onClick} className="hover:text-white">{action.icon}</button>
             ))}
@@ -188,8 +248,10 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
       </div>
       
       {/* Editor */}
-      <div className="flex-grow relative min-h-0">
+      <div className="flex-grow relative min-h-0 flex">
         {activeTabId && activeFile ? (
+          <>
+          <div className="flex-1 min-w-0 relative">
             <CodeEditor 
               key={activeTabId}
               code={code} 
@@ -200,7 +262,25 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
               onCursorChange={setCursorPosition}
               onOpenPalette={() => setPaletteOpen(true)}
               onRunSelection={onRunSelection}
+              activeLine={activeSource?.fileId === activeTabId ? activeSource.line : null}
+              breakpoints={breakpoints[activeTabId]}
+              onToggleBreakpoint={line => onToggleBreakpoint(activeTabId, line)}
+              revealLine={revealLine}
             />
+          </div>
+          {isTranspiled && showTranspiled && (
+            <div className="w-1/2 min-w-0">
+              <TranspiledView
+                python={transpiledPython}
+                sourceLine={cursorPosition.line}
+                onSourceLineClick={line => setRevealLine({ line })}
+                onRetranspile={handleRetranspile}
+                isTranspiling={isTranspiling}
+                onClose={() => setShowTranspiled(false)}
+              />
+            </div>
+          )}
+          </>
         ) : (
             <div className="absolute inset-0 flex items-center justify-center text-gray-500">
                 Select a file to begin editing.
@@ -4,6 +4,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import type { FileSystemTree, FileSystemNode } from '../../game/types';
 import { produce } from 'immer';
 import { FolderIcon, FileIcon, ChevronRightIcon, ChevronDownIcon } from '../icons';
+import { languageUiFor } from '../../runtimes/ui';
 
 export interface FileTreePanelProps {
     fileSystem: FileSystemTree;
@@ -42,28 +43,7 @@ const ContextMenu = ({ x, y, options, onClose }: { x: number, y: number, options
     );
 };
 
-const getFileColor = (fileName: string) => {
-    const extension = fileName.split('.').pop();
-    switch (extension) {
-        case 'py': return 'text-green-400';
-        case 'js':
-        case 'jsx':
-             return 'text-yellow-400';
-        case 'ts':
-        case 'tsx':
-             return 'text-blue-400';
-        case 'html': return 'text-orange-400';
-        case 'css': return 'text-sky-400'
-        case 'cpp':
-        case 'c':
-             return 'text-blue-500';
-        case 'cs': return 'text-purple-400';
-        case 'java': return 'text-red-400';
-        case 'go': return 'text-cyan-300';
-        case 'rs': return 'text-orange-500';
-        default: return 'text-gray-400';
-    }
-};
+const getFileColor = (fileName: string) => languageUiFor(fileName.split('.').pop() ?? '')?.color ?? 'text-gray-400';
 
 const formatTimeRemaining = (ms: number): string => {
     if (ms <= 0) {
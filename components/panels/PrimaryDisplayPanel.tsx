@@ -1,22 +1,40 @@
 
 
 
-import React from 'react';
+import React, { useRef } from 'react';
 import type { GameState, Sprite } from '../../game/types';
-import { getIconForShape, SpeakerWaveIcon, SpeakerXMarkIcon, ShareIcon, ArrowsPointingOutIcon } from '../icons';
+import type { TimelineMarker, TimelineMarkerKind } from '../../game/timeline';
+import { getIconForShape, SpeakerWaveIcon, SpeakerXMarkIcon, ShareIcon, ArrowsPointingOutIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, VideoCameraIcon } from '../icons';
+import { REPLAY_EXTENSION } from '../../game/replay';
 
 interface PrimaryDisplayPanelProps {
-    controls: { id: string; icon: React.ReactNode; onClick: () => void; isPrimary?: boolean; disabled?: boolean; }[];
+    controls: { id: string; icon: React.ReactNode; onClick: () => void; isPrimary?: boolean; disabled?: boolean; title?: string; }[];
     currentFrame: number;
     totalFrames: number;
+    markers?: TimelineMarker[];
+    canSeek?: boolean;
+    onSeek?: (frame: number) => void;
+    // Called with the marker's step index; seeks past that step when not given
+    onMarkerClick?: (index: number) => void;
     gameState: GameState;
+    showPaths?: boolean;
     onMuteToggle: () => void;
     isMuted: boolean;
     onShare: () => void;
+    onSaveReplay: () => void;
+    onOpenReplay: (file: File) => void;
+    canSaveReplay: boolean;
+    onExportVideo: () => void;
     onFullscreen: () => void;
 }
 
-const SpriteComponent: React.FC<{ sprite: Sprite, isRewardFlashing: boolean }> = ({ sprite, isRewardFlashing }) => (
+const MARKER_COLORS: Record<TimelineMarkerKind, string> = {
+    say: 'bg-sky-400',
+    reward: 'bg-yellow-400',
+    chat: 'bg-purple-400',
+};
+
+const SpriteComponent: React.FC<{ sprite: Sprite, isRewardFlashing: boolean, animate: boolean }> = ({ sprite, isRewardFlashing, animate }) => (
     <div 
         key={sprite.id} 
         style={{ 
@@ -31,30 +49,40 @@ const SpriteComponent: React.FC<{ sprite: Sprite, isRewardFlashing: boolean }> =
         {sprite.message && (
             <div 
                 className="absolute bottom-full mb-2 w-max max-w-xs bg-white text-black text-xs font-semibold rounded py-1 px-2 shadow-lg z-10"
-                style={{ animation: `fadeInOut ${sprite.message.duration / 1000}s ease-in-out forwards` }}
+                style={animate ? { animation: `fadeInOut ${sprite.message.duration / 1000}s ease-in-out forwards` } : undefined}
             >
                 {sprite.message.text}
             </div>
         )}
-        <div className={isRewardFlashing ? 'reward-flash-animation' : ''}>
+        <div className={isRewardFlashing && animate ? 'reward-flash-animation' : ''}>
              {getIconForShape(sprite.shape, 'w-12 h-12')}
         </div>
     </div>
 );
 
-export const PrimaryDisplayPanel: React.FC<PrimaryDisplayPanelProps> = ({ 
-    controls, currentFrame, totalFrames, gameState, onMuteToggle, isMuted, onShare, onFullscreen 
+interface WorldViewProps {
+    gameState: GameState;
+    showPaths?: boolean;
+    // The time effects are drawn at; the video exporter passes the time of the frame it renders
+    now?: number;
+    // CSS animations (speech fade, reward flash) can't be captured frame by frame, so exports turn them off
+    animate?: boolean;
+    className?: string;
+}
+
+// Draws the world itself. Shared by the preview panel and the video exporter so both look the same.
+export const WorldView: React.FC<WorldViewProps> = ({
+    gameState, showPaths = false, now = Date.now(), animate = true, className = 'flex-grow m-1 rounded-sm relative overflow-hidden'
 }) => {
     const rewardEffectSpriteIds = new Set(
         gameState.effects.flatMap(e => (e.type === 'rewardflash' ? [e.spriteId] : []))
     );
 
     return (
-      <div id="game-panel" className="flex-grow bg-[#272a33] rounded-lg flex flex-col border border-[#3a3d46]">
-        <div className="flex-grow m-1 rounded-sm relative overflow-hidden" style={{ backgroundColor: gameState.worldState.backgroundColor }}>
+        <div className={className} style={{ backgroundColor: gameState.worldState.backgroundColor }}>
             {gameState.effects.map(effect => {
                 if (effect.type === 'soundwave') {
-                    const progress = (Date.now() - effect.creationTime) / effect.duration;
+                    const progress = (now - effect.creationTime) / effect.duration;
                     return (
                         <div 
                             key={effect.id}
@@ -87,18 +115,69 @@ export const PrimaryDisplayPanel: React.FC<PrimaryDisplayPanelProps> = ({
                     title={prop.shape}
                 />
            ))}
+           {showPaths && (
+                <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                    {gameState.sprites.filter(sprite => sprite.path && sprite.path.length > 1).map(sprite => (
+                        <polyline
+                            key={sprite.id}
+                            points={sprite.path!.map(p => `${p.x},${p.y}`).join(' ')}
+                            fill="none"
+                            stroke="#facc15"
+                            strokeWidth={2}
+                            strokeDasharray="4 3"
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    ))}
+                </svg>
+           )}
            {gameState.sprites.map(sprite => (
-               <SpriteComponent key={sprite.id} sprite={sprite} isRewardFlashing={rewardEffectSpriteIds.has(sprite.id)} />
+               <SpriteComponent key={sprite.id} sprite={sprite} isRewardFlashing={rewardEffectSpriteIds.has(sprite.id)} animate={animate} />
             ))}
         </div>
-        <div className="h-10 flex items-center px-4 space-x-4 border-t border-[#3a3d46] text-gray-400">
+    );
+};
+
+export const PrimaryDisplayPanel: React.FC<PrimaryDisplayPanelProps> = ({ 
+    controls, currentFrame, totalFrames, markers = [], canSeek = false, onSeek, onMarkerClick, gameState, showPaths = false, onMuteToggle, isMuted, onShare, onSaveReplay, onOpenReplay, canSaveReplay, onExportVideo, onFullscreen 
+}) => {
+    const replayInputRef = useRef<HTMLInputElement>(null);
+
+    return (
+      <div id="game-panel" className="flex-grow bg-[#272a33] rounded-lg flex flex-col border border-[#3a3d46]">
+        <WorldView gameState={gameState} showPaths={showPaths} />
+        <div className="px-4 pt-1 border-t border-[#3a3d46]">
+            {/* Markers sit on the step they belong to; clicking one jumps to just after it */}
+            <div className="relative h-2">
+                {totalFrames > 0 && markers.map(marker => (
+                    <button
+                        key={`${marker.kind}-${marker.index}`}
+                        onClick={() => onMarkerClick ? onMarkerClick(marker.index) : onSeek?.(marker.index + 1)}
+                        disabled={!canSeek}
+                        className={`absolute top-0 w-1 h-2 -translate-x-1/2 rounded-sm ${MARKER_COLORS[marker.kind]} disabled:opacity-40 disabled:cursor-not-allowed`}
+                        style={{ left: `${(marker.index / totalFrames) * 100}%` }}
+                        title={marker.label}
+                    />
+                ))}
+            </div>
+            <input
+                type="range"
+                min={0}
+                max={totalFrames}
+                value={currentFrame}
+                disabled={!canSeek}
+                onChange={(e) => onSeek?.(Number(e.target.value))}
+                className="w-full h-1 accent-blue-500 cursor-pointer disabled:cursor-not-allowed block"
+                title="Drag to seek (Home / End jump to the start or end)"
+            />
+        </div>
+        <div className="h-10 flex items-center px-4 space-x-4 text-gray-400">
           {controls.map(control => (
             <button 
                 key={control.id} 
                 onClick={control.onClick} 
                 disabled={control.disabled}
                 className={`${control.isPrimary ? 'text-white' : ''} hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed transition-colors`}
-                title={control.id.charAt(0).toUpperCase() + control.id.slice(1)}
+                title={control.title ?? control.id.charAt(0).toUpperCase() + control.id.slice(1)}
             >
               {control.icon}
             </button>
@@ -108,6 +187,21 @@ export const PrimaryDisplayPanel: React.FC<PrimaryDisplayPanelProps> = ({
           <button onClick={onMuteToggle} className="hover:text-white transition-colors" title={isMuted ? "Unmute" : "Mute"}>
             {isMuted ? <SpeakerXMarkIcon /> : <SpeakerWaveIcon />}
           </button>
+          <button onClick={onSaveReplay} disabled={!canSaveReplay} className="hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed transition-colors" title="Save Replay"><ArrowDownTrayIcon /></button>
+          <button onClick={() => replayInputRef.current?.click()} className="hover:text-white transition-colors" title="Open Replay"><ArrowUpTrayIcon /></button>
+          <input
+            ref={replayInputRef}
+            type="file"
+            accept={`${REPLAY_EXTENSION},application/json`}
+            className="hidden"
+            onChange={(e) => {
+                const file = e.target.files?.[0];
+                // Reset so choosing the same file again still fires onChange
+                e.target.value = '';
+                if (file) onOpenReplay(file);
+            }}
+          />
+          <button onClick={onExportVideo} disabled={!canSaveReplay} className="hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed transition-colors" title="Export GIF / WebM"><VideoCameraIcon /></button>
           <button onClick={onShare} className="hover:text-white transition-colors" title="Share Code"><ShareIcon /></button>
           <button onClick={onFullscreen} className="hover:text-white transition-colors" title="Toggle Fullscreen"><ArrowsPointingOutIcon /></button>
         </div>
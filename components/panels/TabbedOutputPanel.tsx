@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import type { Problem } from '../../game/types';
 import { getFixForCodeError } from '../../game/gemini';
 import { LanguageGuide } from '../guides/LanguageGuide';
+import { DebuggerPanel, DebuggerPanelProps } from './DebuggerPanel';
 import { ArrowPathIcon, CheckIcon, XMarkIcon, SparklesIcon } from '../icons';
 
 
@@ -13,6 +14,7 @@ interface TabbedOutputPanelProps {
     problems: Problem[];
     activeLanguage: string;
     onApplyFix: (fileId: string, startLine: number, endLine: number, newCode: string) => void;
+    debuggerProps: DebuggerPanelProps;
 }
 
 const AIFixComponent: React.FC<{ problem: Problem, onApplyFix: (fileId: string, startLine: number, endLine: number, newCode: string) => void }> = ({ problem, onApplyFix }) => {
@@ -79,7 +81,7 @@ const AIFixComponent: React.FC<{ problem: Problem, onApplyFix: (fileId: string,
 }
 
 export const TabbedOutputPanel: React.FC<TabbedOutputPanelProps> = ({ 
-    tabs, onTabClick, activeTabId, logs, problems, activeLanguage, onApplyFix
+    tabs, onTabClick, activeTabId, logs, problems, activeLanguage, onApplyFix, debuggerProps
 }) => (
   <div className="h-full bg-[#272a33] rounded-lg flex flex-col min-h-0 border border-[#3a3d46]">
     <div className="flex border-b border-[#3a3d46] text-gray-400 flex-shrink-0">
@@ -113,6 +115,7 @@ export const TabbedOutputPanel: React.FC<TabbedOutputPanelProps> = ({
                 : <div>No problems detected.</div>
         )}
         {activeTabId === 'guide' && <LanguageGuide activeLanguage={activeLanguage} />}
+        {activeTabId === 'debugger' && <DebuggerPanel {...debuggerProps} />}
     </div>
   </div>
 );
\ No newline at end of file
@@ -25,3 +25,12 @@ export const shareCode = async (code: string) => {
         alert('Failed to copy code.');
     }
 };
+
+export const downloadFile = (fileName: string, contents: BlobPart, type = 'text/plain') => {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
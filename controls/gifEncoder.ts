@@ -0,0 +1,182 @@
+// A small animated GIF encoder, enough for exporting the preview without pulling in a library.
+// Every frame is mapped onto one fixed 256-colour palette (a 6x6x6 colour cube plus 40 greys),
+// which suits the flat colours the world is drawn with.
+
+const CUBE_LEVELS = 6;
+const GREY_LEVELS = 40;
+const MAX_CODE_SIZE = 12;
+
+const buildPalette = (): Uint8Array => {
+    const palette = new Uint8Array(256 * 3);
+    let index = 0;
+    for (let r = 0; r < CUBE_LEVELS; r++) {
+        for (let g = 0; g < CUBE_LEVELS; g++) {
+            for (let b = 0; b < CUBE_LEVELS; b++) {
+                palette.set([r * 51, g * 51, b * 51], index * 3);
+                index++;
+            }
+        }
+    }
+    for (let i = 0; i < GREY_LEVELS; i++) {
+        const grey = Math.round((i + 1) * 255 / (GREY_LEVELS + 1));
+        palette.set([grey, grey, grey], index * 3);
+        index++;
+    }
+    return palette;
+};
+
+const PALETTE = buildPalette();
+
+// The closest palette entry: the nearest cube colour, or a grey if that is closer
+const paletteIndex = (r: number, g: number, b: number): number => {
+    const cr = Math.round(r / 51), cg = Math.round(g / 51), cb = Math.round(b / 51);
+    const cubeError = (r - cr * 51) ** 2 + (g - cg * 51) ** 2 + (b - cb * 51) ** 2;
+    const greyStep = Math.min(GREY_LEVELS - 1, Math.max(0, Math.round((r + g + b) / 3 * (GREY_LEVELS + 1) / 255) - 1));
+    const grey = PALETTE[(216 + greyStep) * 3];
+    const greyError = (r - grey) ** 2 + (g - grey) ** 2 + (b - grey) ** 2;
+    return greyError < cubeError ? 216 + greyStep : cr * 36 + cg * 6 + cb;
+};
+
+// Collects bytes, with helpers for the little-endian words GIF uses
+class ByteWriter {
+    private chunks: Uint8Array[] = [];
+    private buffer = new Uint8Array(4096);
+    private length = 0;
+
+    byte(value: number) {
+        if (this.length === this.buffer.length) this.flush();
+        this.buffer[this.length++] = value;
+    }
+
+    word(value: number) {
+        this.byte(value & 0xff);
+        this.byte((value >> 8) & 0xff);
+    }
+
+    bytes(values: ArrayLike<number>) {
+        for (let i = 0; i < values.length; i++) this.byte(values[i]);
+    }
+
+    text(value: string) {
+        for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+    }
+
+    private flush() {
+        this.chunks.push(this.buffer.slice(0, this.length));
+        this.length = 0;
+    }
+
+    toBlob(): Blob {
+        this.flush();
+        return new Blob(this.chunks as BlobPart[], { type: 'image/gif' });
+    }
+}
+
+// LZW-compresses palette indices into the sub-blocks of a GIF image
+function writeImageData(out: ByteWriter, indices: Uint8Array) {
+    const minCodeSize = 8;
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+
+    let block: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+    const emit = (code: number, size: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += size;
+        while (bitCount >= 8) {
+            block.push(bitBuffer & 0xff);
+            bitBuffer >>= 8;
+            bitCount -= 8;
+            if (block.length === 255) {
+                out.byte(255);
+                out.bytes(block);
+                block = [];
+            }
+        }
+    };
+
+    let dictionary = new Map<number, number>();
+    let nextCode = endCode + 1;
+    let codeSize = minCodeSize + 1;
+
+    out.byte(minCodeSize);
+    emit(clearCode, codeSize);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const key = (prefix << 8) | indices[i];
+        const existing = dictionary.get(key);
+        if (existing !== undefined) {
+            prefix = existing;
+            continue;
+        }
+        emit(prefix, codeSize);
+        if (nextCode < 1 << MAX_CODE_SIZE) {
+            dictionary.set(key, nextCode++);
+            if (nextCode > 1 << codeSize && codeSize < MAX_CODE_SIZE) codeSize++;
+        } else {
+            // The table is full: start over so the codes stay within 12 bits
+            emit(clearCode, codeSize);
+            dictionary = new Map();
+            nextCode = endCode + 1;
+            codeSize = minCodeSize + 1;
+        }
+        prefix = indices[i];
+    }
+    emit(prefix, codeSize);
+    emit(endCode, codeSize);
+    if (bitCount > 0) emit(0, 8 - bitCount);
+    if (block.length > 0) {
+        out.byte(block.length);
+        out.bytes(block);
+    }
+    out.byte(0);
+}
+
+export interface GifEncoder {
+    addFrame: (frame: ImageData) => void;
+    finish: () => Blob;
+}
+
+// Frames are compressed as they are added, so only the finished bytes are kept in memory
+export function createGifEncoder(width: number, height: number, fps: number): GifEncoder {
+    const out = new ByteWriter();
+    // GIF delays are in hundredths of a second
+    const delay = Math.max(2, Math.round(100 / fps));
+
+    out.text('GIF89a');
+    out.word(width);
+    out.word(height);
+    out.byte(0xf7); // global colour table of 256 entries
+    out.byte(0);
+    out.byte(0);
+    out.bytes(PALETTE);
+    // Loop forever
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.text('NETSCAPE2.0');
+    out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+    return {
+        addFrame: (frame) => {
+            const indices = new Uint8Array(width * height);
+            const { data } = frame;
+            for (let i = 0; i < indices.length; i++) {
+                indices[i] = paletteIndex(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+            }
+            out.bytes([0x21, 0xf9, 0x04, 0x04]); // graphic control: keep the previous frame underneath
+            out.word(delay);
+            out.bytes([0x00, 0x00]);
+            out.byte(0x2c);
+            out.word(0);
+            out.word(0);
+            out.word(width);
+            out.word(height);
+            out.byte(0);
+            writeImageData(out, indices);
+        },
+        finish: () => {
+            out.byte(0x3b);
+            return out.toBlob();
+        },
+    };
+}
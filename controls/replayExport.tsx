@@ -0,0 +1,154 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import type { ExecutionStep, GameState } from '../game/types';
+import { recordingDuration, sampleFrames } from '../game/timeline';
+import { WorldView } from '../components/panels/PrimaryDisplayPanel';
+import { createGifEncoder } from './gifEncoder';
+
+export type VideoFormat = 'gif' | 'webm';
+
+export interface VideoExportOptions {
+    format: VideoFormat;
+    width: number;
+    height: number;
+    fps: number;
+    showPaths: boolean;
+}
+
+export interface VideoExportProgress {
+    // WebM is recorded in real time after the frames are rendered, so it reports two phases
+    phase: 'rendering' | 'encoding';
+    done: number;
+    total: number;
+}
+
+// Frames still to be shown after the last step, so the final movement and speech are visible
+const TAIL_MS = 1000;
+
+export const isWebMSupported = () =>
+    typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+export const countVideoFrames = (steps: ExecutionStep[], fps: number) =>
+    Math.floor((recordingDuration(steps) + TAIL_MS) / (1000 / fps)) + 1;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new Error('Export cancelled.');
+};
+
+// Renders each frame with the same WorldView as the preview panel, then captures it with html2canvas
+function createFrameRenderer(options: VideoExportOptions) {
+    const { html2canvas } = window;
+    if (!html2canvas) throw new Error('html2canvas is not loaded, so frames cannot be captured.');
+
+    const host = document.createElement('div');
+    Object.assign(host.style, {
+        position: 'fixed', left: '0', top: '0', zIndex: '-1', pointerEvents: 'none',
+        width: `${options.width}px`, height: `${options.height}px`,
+    });
+    document.body.appendChild(host);
+
+    const frame = document.createElement('canvas');
+    frame.width = options.width;
+    frame.height = options.height;
+    const context = frame.getContext('2d', { willReadFrequently: true })!;
+
+    return {
+        frame,
+        context,
+        render: async (state: GameState, time: number) => {
+            host.innerHTML = renderToStaticMarkup(
+                <WorldView gameState={state} now={time} showPaths={options.showPaths} animate={false} className="relative overflow-hidden w-full h-full" />
+            );
+            const capture = await html2canvas(host, { width: options.width, height: options.height, scale: 1, logging: false });
+            context.clearRect(0, 0, options.width, options.height);
+            context.drawImage(capture, 0, 0, options.width, options.height);
+        },
+        dispose: () => host.remove(),
+    };
+}
+
+async function exportGif(steps: ExecutionStep[], start: GameState, options: VideoExportOptions, onProgress: (progress: VideoExportProgress) => void, signal?: AbortSignal) {
+    const renderer = createFrameRenderer(options);
+    const total = countVideoFrames(steps, options.fps);
+    const encoder = createGifEncoder(options.width, options.height, options.fps);
+    try {
+        let done = 0;
+        for (const { state, time } of sampleFrames(steps, start, options.fps, TAIL_MS)) {
+            throwIfAborted(signal);
+            await renderer.render(state, time);
+            encoder.addFrame(renderer.context.getImageData(0, 0, options.width, options.height));
+            onProgress({ phase: 'rendering', done: ++done, total });
+        }
+        return encoder.finish();
+    } finally {
+        renderer.dispose();
+    }
+}
+
+// MediaRecorder timestamps frames by the wall clock, so the rendered frames are first kept as JPEGs
+// and then shown at the real frame rate while recording
+async function exportWebM(steps: ExecutionStep[], start: GameState, options: VideoExportOptions, onProgress: (progress: VideoExportProgress) => void, signal?: AbortSignal) {
+    const renderer = createFrameRenderer(options);
+    const total = countVideoFrames(steps, options.fps);
+    const frames: Blob[] = [];
+    try {
+        for (const { state, time } of sampleFrames(steps, start, options.fps, TAIL_MS)) {
+            throwIfAborted(signal);
+            await renderer.render(state, time);
+            const jpeg = await new Promise<Blob | null>(resolve => renderer.frame.toBlob(resolve, 'image/jpeg', 0.92));
+            if (!jpeg) throw new Error('A frame could not be captured.');
+            frames.push(jpeg);
+            onProgress({ phase: 'rendering', done: frames.length, total });
+        }
+    } finally {
+        renderer.dispose();
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = options.width;
+    canvas.height = options.height;
+    const context = canvas.getContext('2d')!;
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    recorder.start();
+    try {
+        for (let i = 0; i < frames.length; i++) {
+            throwIfAborted(signal);
+            const bitmap = await createImageBitmap(frames[i]);
+            context.drawImage(bitmap, 0, 0);
+            bitmap.close();
+            track.requestFrame();
+            onProgress({ phase: 'encoding', done: i + 1, total: frames.length });
+            await sleep(1000 / options.fps);
+        }
+    } finally {
+        recorder.stop();
+        await stopped;
+        track.stop();
+    }
+    return new Blob(chunks, { type: 'video/webm' });
+}
+
+// Renders the recording frame by frame, from `start` (the state before the first step), and encodes it
+export async function exportVideo(
+    steps: ExecutionStep[],
+    start: GameState,
+    options: VideoExportOptions,
+    onProgress: (progress: VideoExportProgress) => void,
+    signal?: AbortSignal,
+): Promise<Blob> {
+    if (steps.length === 0) throw new Error('There is no replay to export. Run a script first.');
+    if (options.format === 'webm') {
+        if (!isWebMSupported()) throw new Error('This browser cannot record WebM video. Export a GIF instead.');
+        return exportWebM(steps, start, options, onProgress, signal);
+    }
+    return exportGif(steps, start, options, onProgress, signal);
+}
@@ -1,34 +1,17 @@
 
-import type { Suggestion, SuggestionType } from '../game/types';
+import type { Suggestion } from '../game/types';
+import { API_LIBRARY_NAMES, ApiLibraryName, ApiMethod, apiSignature, describeApi, libraryMethods, SPRITE_API } from '../game/api_schema';
 import { GoogleGenAI, Type } from "@google/genai";
 
-const API_DEFINITIONS = {
-    libraries: ['ai', 'world', 'physics', 'sound'],
-    ai: {
-        'Sprite': { type: 'class', detail: '({ name, shape, x, y })', params: ['name', 'shape', 'x', 'y'] },
-        'wait': { type: 'method', detail: '({ seconds })', params: ['seconds'] }
-    },
-    world: {
-        'set_background': { type: 'method', detail: '({ color })', params: ['color'] },
-    },
-    physics: {
-        'set_gravity': { type: 'method', detail: '({ strength })', params: ['strength'] }
-    },
-    sound: {
-        'play': { type: 'method', detail: '({ x, y })', params: ['x', 'y'] }
-    },
-    sprite: {
-        'go_to': { type: 'method', detail: '({ x, y, speed })', params: ['x', 'y', 'speed'] },
-        'move_to': { type: 'method', detail: '({ x, y, speed })', params: ['x', 'y', 'speed'] },
-        'rotate_to': { type: 'method', detail: '({ angle, speed })', params: ['angle', 'speed'] },
-        'look_at': { type: 'method', detail: '({ x, y, speed })', params: ['x', 'y', 'speed'] },
-        'say': { type: 'method', detail: '({ message, duration })', params: ['message', 'duration'] },
-        'chat': { type: 'method', detail: '({ message })', params: ['message'] },
-        'set_style': { type: 'method', detail: '({ property, value, speed })', params: ['property', 'value', 'speed'] },
-        'create_network': { type: 'method', detail: '()', params: [] },
-        'reward': { type: 'method', detail: '({ value })', params: ['value'] }
-    }
-};
+const isLibrary = (name: string): name is ApiLibraryName => (API_LIBRARY_NAMES as string[]).includes(name);
+
+// Suggestions for the methods of a library or a sprite, with their parameters as the language writes them
+const methodSuggestions = (methods: Record<string, ApiMethod>, language: string): Suggestion[] =>
+    Object.entries(methods).map(([name, method]) => ({
+        label: name,
+        type: method.constructs ? 'class' : 'method',
+        detail: apiSignature(method, language === 'py' ? 'py' : 'js'),
+    }));
 
 const PYTHON_LIBRARIES: Suggestion[] = [
     'numpy', 'pandas', 'matplotlib', 'requests', 'datetime', 'math', 'random', 'sys', 'os',
@@ -126,24 +109,14 @@ export const getSuggestions = (line: string, cursorPosition: number, fullCode: s
     const libMethodMatch = textBeforeCursor.match(/(\w+)\.$/);
     if (libMethodMatch) {
         const libName = libMethodMatch[1].toLowerCase();
-        if (libName in API_DEFINITIONS) {
-            return Object.entries((API_DEFINITIONS as any)[libName]).map(([key, value]: [string, any]) => ({
-                label: key,
-                type: value.type as SuggestionType,
-                detail: value.detail,
-            }));
-        }
+        if (isLibrary(libName)) return methodSuggestions(libraryMethods(libName), language);
     }
 
     // Case 2: Suggesting sprite methods (e.g., "my_bot.")
     const spriteVariables = getSpriteVariables(fullCode, language);
     const spriteMethodMatch = textBeforeCursor.match(`(${spriteVariables.join('|')})\\.$`);
      if (spriteMethodMatch && spriteVariables.length > 0) {
-        return Object.entries(API_DEFINITIONS.sprite).map(([key, value]) => ({
-            label: key,
-            type: value.type as SuggestionType,
-            detail: value.detail,
-        }));
+        return methodSuggestions(SPRITE_API, language);
     }
 
     // Case 3: Suggesting parameters inside a function call
@@ -153,18 +126,15 @@ export const getSuggestions = (line: string, cursorPosition: number, fullCode: s
         
         const existingArgs = (argsSoFar.match(/(\w+)\s*[:=]/g) || []).map(arg => arg.replace(/[:=]/, '').trim());
         
-        let methodDef: any = null;
+        const library = libOrVar.toLowerCase();
+        const methods: Record<string, ApiMethod> | undefined = isLibrary(library) ? libraryMethods(library)
+            : spriteVariables.includes(libOrVar) ? SPRITE_API : undefined;
+        const methodDef = methods && Object.hasOwn(methods, methodName) ? methods[methodName] : undefined;
 
-        if (libOrVar.toLowerCase() in API_DEFINITIONS) {
-            methodDef = (API_DEFINITIONS as any)[libOrVar.toLowerCase()][methodName];
-        } else if (spriteVariables.includes(libOrVar)) {
-            methodDef = API_DEFINITIONS.sprite[methodName as keyof typeof API_DEFINITIONS.sprite];
-        }
-
-        if (methodDef && methodDef.params) {
+        if (methodDef) {
             return methodDef.params
-                .filter((p: string) => !existingArgs.includes(p))
-                .map((p: string) => ({ label: p, type: 'param' }));
+                .filter(param => !existingArgs.includes(param.name))
+                .map(param => ({ label: param.name, type: 'param' }));
         }
     }
 
@@ -203,7 +173,7 @@ export const getSuggestions = (line: string, cursorPosition: number, fullCode: s
         }
         
         // Suggest global engine objects for JS and Python
-        API_DEFINITIONS.libraries.forEach(lib => {
+        API_LIBRARY_NAMES.forEach(lib => {
              if (lib.startsWith(partialWord)) {
                 suggestions.push({ label: lib, type: 'library' });
             }
@@ -262,7 +232,7 @@ export const getCodeCompletion = async (
 
 **Core Directives:**
 
-1.  **Analyze Holistically:** Deeply analyze the user's code, including variables, function definitions, overall structure, and the custom game engine API (\`ai\`, \`world\`, \`physics\`). The cursor's position is marked by "<CURSOR>".
+1.  **Analyze Holistically:** Deeply analyze the user's code, including variables, function definitions, overall structure, and the playground API listed below. The cursor's position is marked by "<CURSOR>".
 2.  **Adapt to Style:** Your suggestions MUST match the user's coding style (indentation, naming conventions, use of whitespace).
 3.  **Anticipate Intent:** Go beyond simple line completion. If the user is starting a loop, suggest the entire loop body. If they define a sprite, suggest the next logical actions for that sprite. Think one or two steps ahead.
 4.  **Provide Diverse Options:** Generate up to 3 distinct, high-quality suggestions. They should offer different approaches or levels of completion (e.g., one simple completion, one more complex block).
@@ -274,6 +244,9 @@ If the user's code is \`bot = ai.Sprite(name="B-101")\\n<CURSOR>\`, you might su
 - \`bot.say(message="I'm ready!")\`
 - \`for i in range(5):\\n    bot.move_to(x=i*10, y=50, speed=0.5)\\n    ai.wait(0.5)\`
 
+**PLAYGROUND API** (global, no import needed; ${language === 'py' ? 'called with keyword arguments' : 'called with an options object'}):
+${describeApi(language === 'py' ? 'py' : 'js')}
+
 **LANGUAGE:** ${langName}
 
 **USER'S CODE:**
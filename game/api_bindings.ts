@@ -0,0 +1,268 @@
+import type { Easing, ExecutionStep, Prop, Sprite } from './types';
+import { API_LIBRARIES, API_TYPES, ApiLibraryName, ApiMethod, ApiParam, SPRITE_API } from './api_schema';
+import { describeProp, distanceBetween, findNearest, propsInRect, toPoint } from './world_model';
+import { sweepMove } from './collision';
+import { routeTo } from './pathfinding';
+import { SeededRandom, toSeed } from './random';
+
+// A sprite as the bridges keep it. Its methods are added when it's created, one for each entry of SPRITE_API.
+export class BridgeSprite {
+    public id: string;
+    public name: string;
+    public shape: Sprite['shape'];
+    public x: number;
+    public y: number;
+    public rotation: number;
+
+    constructor(id: string, name: string, shape: Sprite['shape'], x: number, y: number) {
+        this.id = id;
+        this.name = name;
+        this.shape = shape;
+        this.x = x;
+        this.y = y;
+        this.rotation = 0;
+    }
+}
+
+// What a bridge gives the bindings to run against
+export interface BridgeHost {
+    pushStep: (step: ExecutionStep) => void;
+    rng: SeededRandom;
+    // The world's props as they are now; a live session replaces them between handler calls
+    props: () => Prop[];
+    // Converts an argument as the script passed it, e.g. Python keyword arguments or a tuple, to plain JavaScript
+    fromScript?: (value: unknown) => unknown;
+    // Hands a list back to the script
+    toList?: (items: unknown[]) => unknown;
+    // What the script holds for a new sprite, e.g. a Proxy that records assignments to x and y
+    wrapSprite?: (sprite: BridgeSprite) => BridgeSprite;
+    // Called once ai.seed() has reseeded the run
+    onSeed?: (seed: number) => void;
+}
+
+export interface ApiBindings {
+    libraries: Record<ApiLibraryName, Record<string, (...args: unknown[]) => unknown>>;
+    // The sprites created so far by id, as the bridge updates them
+    sprites: Map<string, BridgeSprite>;
+    // The same sprites as the script holds them
+    handles: Map<string, BridgeSprite>;
+}
+
+type Args = Record<string, any>;
+
+type LibraryImplementations = {
+    [L in ApiLibraryName]: { [M in keyof (typeof API_LIBRARIES)[L]['methods']]: (args: Args) => unknown };
+};
+type SpriteImplementations = { [M in keyof typeof SPRITE_API]: (sprite: BridgeSprite, args: Args) => unknown };
+
+const isKeywords = (value: unknown): value is Args => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+};
+
+// How an argument is described when it's missing or wrong, e.g. "a positive 'value' argument"
+function describeParam(param: ApiParam): string {
+    const name = `'${param.name}' argument`;
+    const { values } = API_TYPES[param.type];
+    if (values) return `${/^[aeiou]/.test(param.name) ? 'an' : 'a'} ${name}, one of ${values.map(value => `'${value}'`).join(', ')}`;
+    switch (param.type) {
+        case 'number':
+            if (param.min !== undefined && param.max !== undefined) return `a ${name} between ${param.min} and ${param.max}`;
+            if (param.positive) return `a positive ${name}`;
+            if (param.min === 0) return `a non-negative ${name}`;
+            return `a numeric ${name}`;
+        case 'integer': return `an integer ${name}`;
+        case 'string': return `a string ${name}`;
+        case 'point': return `${/^[aeiou]/.test(param.name) ? 'an' : 'a'} ${name}: ${API_TYPES.point.description}`;
+        default: return `a ${name}`;
+    }
+}
+
+function isValid(param: ApiParam, value: unknown, isSprite: (value: unknown) => boolean): boolean {
+    const { values } = API_TYPES[param.type];
+    if (values) return typeof value === 'string' && values.includes(value);
+    switch (param.type) {
+        case 'number':
+        case 'integer':
+            return typeof value === 'number' && Number.isFinite(value)
+                && (param.type === 'number' || Number.isInteger(value))
+                && (param.min === undefined || value >= param.min)
+                && (param.max === undefined || value <= param.max)
+                && (!param.positive || value > 0);
+        case 'string':
+        case 'shape':
+            return typeof value === 'string';
+        case 'sprite':
+            return isSprite(value);
+        default:
+            return true;
+    }
+}
+
+// The arguments of one call by parameter name, checked against the schema and with defaults filled in.
+// Arguments fill the parameters in order; a trailing plain object holds keyword arguments, as Pyodide passes
+// Python's and as JavaScript scripts write them.
+function readArguments(label: string, method: ApiMethod, given: unknown[], isSprite: (value: unknown) => boolean): Args {
+    const positional = [...given];
+    let keywords: Args = {};
+    const last = positional[positional.length - 1];
+    // A point can itself be a plain object, e.g. distance_to({ x: 5, y: 5 })
+    const takesObject = method.params[positional.length - 1]?.type === 'point';
+    if (isKeywords(last) && (!takesObject || method.params.some(param => param.name in last))) {
+        keywords = positional.pop() as Args;
+    }
+
+    if (positional.length > method.params.length) {
+        throw new Error(`${label}() takes ${method.params.length === 0 ? 'no' : `at most ${method.params.length}`} argument${method.params.length === 1 ? '' : 's'}.`);
+    }
+    const unknown = Object.keys(keywords).find(key => !method.params.some(param => param.name === key));
+    if (unknown !== undefined) {
+        const names = method.params.map(param => param.name);
+        throw new Error(`${label}() has no '${unknown}' argument. ${names.length === 0 ? 'It takes none.' : `It takes ${names.join(', ')}.`}`);
+    }
+
+    const args: Args = {};
+    method.params.forEach((param, i) => {
+        const value = keywords[param.name] ?? positional[i];
+        if (value === undefined || value === null) {
+            if (param.default === undefined && !param.optional) throw new Error(`${label}() requires ${describeParam(param)}.`);
+            args[param.name] = param.default;
+        } else if (!isValid(param, value, isSprite)) {
+            throw new Error(`${label}() requires ${describeParam(param)}.`);
+        } else {
+            args[param.name] = value;
+        }
+    });
+    return args;
+}
+
+// The playground API bound to one run: every library and sprite method the schema lists, with its arguments
+// checked and its steps recorded through the host. Both bridges hand these to scripts.
+export function createApiBindings(host: BridgeHost): ApiBindings {
+    const sprites = new Map<string, BridgeSprite>();
+    const handles = new Map<string, BridgeSprite>();
+    const isSprite = (value: unknown) => value instanceof BridgeSprite && sprites.has(value.id);
+    const propInfo = () => host.props().map(describeProp);
+
+    const spriteMethods: SpriteImplementations = {
+        say: (sprite, args) => {
+            host.pushStep({ type: 'SAY', spriteId: sprite.id, message: args.message, duration: 0 });
+            host.pushStep({ type: 'WAIT', duration: args.duration * 1000 });
+            host.pushStep({ type: 'CLEAR_MESSAGE', spriteId: sprite.id, duration: 0 });
+        },
+        go_to: (sprite, args) => {
+            const path = routeTo(sprite, { x: args.x, y: args.y }, host.props());
+            sprite.x = args.x;
+            sprite.y = args.y;
+            host.pushStep({ type: 'GO_TO', spriteId: sprite.id, x: args.x, y: args.y, path, duration: args.speed * 1000, easing: args.easing as Easing });
+        },
+        move_to: (sprite, args) => {
+            // Props are solid, so the sprite stops where the first one blocks it
+            const end = sweepMove(sprite, { x: args.x, y: args.y }, host.props());
+            sprite.x = end.x;
+            sprite.y = end.y;
+            host.pushStep({ type: 'MOVE_TO', spriteId: sprite.id, x: end.x, y: end.y, duration: args.speed * 1000, easing: args.easing as Easing });
+        },
+        rotate_to: (sprite, args) => {
+            sprite.rotation = args.angle;
+            host.pushStep({ type: 'ROTATE_TO', spriteId: sprite.id, angle: args.angle, duration: args.speed * 1000, easing: args.easing as Easing });
+        },
+        look_at: (sprite, args) => {
+            sprite.rotation = Math.atan2(args.y - sprite.y, args.x - sprite.x) * (180 / Math.PI) + 90;
+            host.pushStep({ type: 'LOOK_AT', spriteId: sprite.id, x: args.x, y: args.y, duration: args.speed * 1000, easing: args.easing as Easing });
+        },
+        set_style: (sprite, args) => {
+            host.pushStep({ type: 'SET_STYLE', spriteId: sprite.id, property: args.property, value: args.value, duration: 0 });
+        },
+        chat: (sprite, args) => {
+            host.pushStep({ type: 'AI_CHAT_REQUEST', spriteId: sprite.id, message: args.message, duration: 0 });
+        },
+        create_network: (sprite) => {
+            host.pushStep({ type: 'SPRITE_CREATE_NETWORK', spriteId: sprite.id, duration: 0 });
+        },
+        reward: (sprite, args) => {
+            host.pushStep({ type: 'SPRITE_REWARD', spriteId: sprite.id, value: args.value, duration: 0 });
+        },
+        set_velocity: (sprite, args) => {
+            host.pushStep({ type: 'SET_VELOCITY', spriteId: sprite.id, vx: args.vx, vy: args.vy, duration: 0 });
+        },
+        set_mass: (sprite, args) => {
+            host.pushStep({ type: 'SET_BODY', spriteId: sprite.id, mass: args.value, duration: 0 });
+        },
+        set_bounciness: (sprite, args) => {
+            host.pushStep({ type: 'SET_BODY', spriteId: sprite.id, restitution: args.value, duration: 0 });
+        },
+        distance_to: (sprite, args) => distanceBetween(sprite, toPoint(args.other, 'distance_to')),
+        nearest: (sprite, args) => findNearest(sprite, [...handles.values(), ...propInfo()], args.shape),
+    };
+
+    const libraries: LibraryImplementations = {
+        ai: {
+            Sprite: (args) => {
+                if ([...sprites.values()].some(sprite => sprite.name === args.name)) throw new Error(`A sprite named '${args.name}' already exists.`);
+                const id = host.rng.id(8);
+                const sprite = new BridgeSprite(id, args.name, args.shape, args.x, args.y);
+                for (const [name, method] of Object.entries(SPRITE_API)) {
+                    const implementation = spriteMethods[name as keyof SpriteImplementations];
+                    Object.defineProperty(sprite, name, {
+                        value: (...given: unknown[]) => call(name, method, given, args => implementation(sprite, args)),
+                    });
+                }
+                host.pushStep({ type: 'CREATE_SPRITE', sprite: { id, name: args.name, shape: args.shape, x: args.x, y: args.y, vx: 0, vy: 0, rotation: 0, styles: {}, data: {} }, duration: 0 });
+                sprites.set(id, sprite);
+                const handle = host.wrapSprite?.(sprite) ?? sprite;
+                handles.set(id, handle);
+                return handle;
+            },
+            wait: (args) => {
+                host.pushStep({ type: 'WAIT', duration: args.seconds * 1000 });
+            },
+            seed: (args) => {
+                const seed = toSeed(args.value, 'ai.seed()');
+                host.rng.reseed(seed);
+                host.onSeed?.(seed);
+            },
+        },
+        world: {
+            set_background: (args) => {
+                host.pushStep({ type: 'SET_BACKGROUND', color: args.color, duration: 0 });
+            },
+            sprites: () => [...handles.values()],
+            props: () => propInfo(),
+            props_in_rect: (args) => propsInRect(host.props(), args.x, args.y, args.width, args.height).map(describeProp),
+        },
+        sound: {
+            play: (args) => {
+                host.pushStep({ type: 'PLAY_SOUND', x: args.x, y: args.y, duration: 0 });
+            },
+        },
+        physics: {
+            set_gravity: (args) => {
+                host.pushStep({ type: 'SET_GRAVITY', strength: args.strength, duration: 0 });
+            },
+            set_friction: (args) => {
+                host.pushStep({ type: 'SET_FRICTION', friction: args.value, duration: 0 });
+            },
+            apply_force: (args) => {
+                host.pushStep({ type: 'APPLY_FORCE', spriteId: args.sprite.id, fx: args.fx, fy: args.fy, duration: 0 });
+            },
+        },
+    };
+
+    function call(label: string, method: ApiMethod, given: unknown[], implementation: (args: Args) => unknown): unknown {
+        const args = readArguments(label, method, host.fromScript ? given.map(host.fromScript) : given, isSprite);
+        const result = implementation(args);
+        return (method.returns === 'sprites' || method.returns === 'props') && host.toList ? host.toList(result as unknown[]) : result;
+    }
+
+    const bound = Object.fromEntries(Object.entries(API_LIBRARIES).map(([library, { methods }]) => [
+        library,
+        Object.fromEntries(Object.entries(methods).map(([name, method]) => {
+            const implementation = (libraries as Record<string, Record<string, (args: Args) => unknown>>)[library][name];
+            return [name, (...given: unknown[]) => call(`${library}.${name}`, method, given, implementation)];
+        })),
+    ])) as ApiBindings['libraries'];
+
+    return { libraries: bound, sprites, handles };
+}
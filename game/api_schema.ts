@@ -0,0 +1,367 @@
+import type { ExecutionStep } from './types';
+import { EASING_NAMES } from './tween';
+
+// The playground API, described once. The Python and JavaScript bridges, the TypeScript declaration, the offline
+// transpiler, the editor's completions, the guides and the Gemini prompts are all generated from it.
+
+export type ApiType = 'number' | 'integer' | 'string' | 'sprite' | 'sprite_shape' | 'shape' | 'easing' | 'point' | 'sprites' | 'props' | 'nearest';
+
+// How a type is spelled in TypeScript and Python, and the values a string type is limited to
+export interface ApiTypeInfo {
+    ts: string;
+    py: string;
+    description: string;
+    values?: readonly string[];
+}
+
+// The kinds of value the API takes and returns
+export const API_TYPES: Record<ApiType, ApiTypeInfo> = {
+    number: { ts: 'number', py: 'float', description: 'a number' },
+    integer: { ts: 'number', py: 'int', description: 'an integer' },
+    string: { ts: 'string', py: 'str', description: 'a string' },
+    sprite: { ts: 'Sprite', py: 'Sprite', description: 'a sprite' },
+    sprite_shape: { ts: 'SpriteShape', py: 'str', description: 'a sprite shape', values: ['cube', 'skull', 'user', 'smiley'] },
+    shape: { ts: 'SpriteShape | PropShape', py: 'str', description: "a sprite or prop shape, e.g. 'user' or 'rock'" },
+    easing: { ts: 'Easing', py: 'str', description: 'an easing curve', values: EASING_NAMES },
+    point: { ts: 'Sprite | PropInfo | Point', py: 'Sprite | Prop | tuple', description: 'a sprite, a prop, or an (x, y) point' },
+    sprites: { ts: 'Sprite[]', py: 'list[Sprite]', description: 'a list of sprites' },
+    props: { ts: 'PropInfo[]', py: 'list[Prop]', description: 'a list of props' },
+    nearest: { ts: 'Sprite | PropInfo | null', py: 'Sprite | Prop | None', description: 'a sprite or a prop, or nothing' },
+};
+
+// A value in an example call: a literal, or an expression such as a variable
+export type ApiExample = number | string | { expression: string };
+
+export interface ApiParam {
+    name: string;
+    type: ApiType;
+    // Used when the argument is left out. A parameter with neither a default nor `optional` is required.
+    default?: number | string;
+    optional?: boolean;
+    // Bounds for numbers; `positive` excludes zero
+    min?: number;
+    max?: number;
+    positive?: boolean;
+}
+
+export interface ApiMethod {
+    doc: string;
+    params: ApiParam[];
+    // Takes its one argument as it is, e.g. ai.wait(1.5), rather than as keyword arguments
+    positional?: boolean;
+    // Creates something, so it's offered as a class
+    constructs?: boolean;
+    returns?: ApiType;
+    // The steps a call adds to the run
+    emits: ExecutionStep['type'][];
+    example: { args?: Record<string, ApiExample>; result?: string };
+}
+
+export interface ApiLibrary {
+    doc: string;
+    methods: Record<string, ApiMethod>;
+}
+
+const EASING: ApiParam = { name: 'easing', type: 'easing', default: 'linear' };
+
+export const API_LIBRARIES = {
+    ai: {
+        doc: 'Creates sprites and controls the run.',
+        methods: {
+            Sprite: {
+                doc: 'Creates a new sprite and returns it. Names must be unique.',
+                params: [
+                    { name: 'name', type: 'string' },
+                    { name: 'shape', type: 'sprite_shape', default: 'cube' },
+                    { name: 'x', type: 'number', default: 50 },
+                    { name: 'y', type: 'number', default: 50 },
+                ],
+                constructs: true,
+                returns: 'sprite',
+                emits: ['CREATE_SPRITE'],
+                example: { args: { name: 'B-101', shape: 'user', x: 10, y: 10 }, result: 'bot' },
+            },
+            wait: {
+                doc: 'Pauses the simulation for a number of seconds.',
+                params: [{ name: 'seconds', type: 'number', min: 0 }],
+                positional: true,
+                emits: ['WAIT'],
+                example: { args: { seconds: 1.5 } },
+            },
+            seed: {
+                doc: "Restarts the run's randomness from a seed: sprite ids and random numbers repeat exactly on every run.",
+                params: [{ name: 'value', type: 'integer' }],
+                positional: true,
+                emits: [],
+                example: { args: { value: 42 } },
+            },
+        },
+    },
+    world: {
+        doc: 'Props are defined in world.html and are solid: moving sprites stop when they hit one, and every collision is logged and sent to on_collision in Live mode.',
+        methods: {
+            set_background: {
+                doc: 'Sets the background color of the simulation panel.',
+                params: [{ name: 'color', type: 'string', default: '#000' }],
+                emits: ['SET_BACKGROUND'],
+                example: { args: { color: '#0f172a' } },
+            },
+            sprites: {
+                doc: 'Every sprite created so far, with its current x, y and rotation.',
+                params: [],
+                returns: 'sprites',
+                emits: [],
+                example: { result: 'everyone' },
+            },
+            props: {
+                doc: 'Read-only copies of the props defined in world.html (id, shape, x, y, width, height).',
+                params: [],
+                returns: 'props',
+                emits: [],
+                example: { result: 'props' },
+            },
+            props_in_rect: {
+                doc: 'Props overlapping a rectangle given by its top-left corner and size.',
+                params: [
+                    { name: 'x', type: 'number' },
+                    { name: 'y', type: 'number' },
+                    { name: 'width', type: 'number' },
+                    { name: 'height', type: 'number' },
+                ],
+                returns: 'props',
+                emits: [],
+                example: { args: { x: 40, y: 40, width: 20, height: 20 }, result: 'nearby' },
+            },
+        },
+    },
+    sound: {
+        doc: 'Plays sounds in the world.',
+        methods: {
+            play: {
+                doc: 'Shows a sound wave at a position.',
+                params: [
+                    { name: 'x', type: 'number', default: 50 },
+                    { name: 'y', type: 'number', default: 50 },
+                ],
+                emits: ['PLAY_SOUND'],
+                example: { args: { x: { expression: 'bot.x' }, y: { expression: 'bot.y' } } },
+            },
+        },
+    },
+    physics: {
+        doc: 'Forces that act on every sprite. Sprites have their own velocity, mass and bounciness too.',
+        methods: {
+            set_gravity: {
+                doc: 'Sets the gravitational pull for all sprites. Positive values pull down.',
+                params: [{ name: 'strength', type: 'number' }],
+                emits: ['SET_GRAVITY'],
+                example: { args: { strength: 0.005 } },
+            },
+            set_friction: {
+                doc: 'Slows every sprite down by this fraction of its speed per second. 0 means no friction.',
+                params: [{ name: 'value', type: 'number', min: 0 }],
+                emits: ['SET_FRICTION'],
+                example: { args: { value: 0.5 } },
+            },
+            apply_force: {
+                doc: "Gives a sprite an instant push; its velocity changes by force / mass.",
+                params: [
+                    { name: 'sprite', type: 'sprite' },
+                    { name: 'fx', type: 'number', default: 0 },
+                    { name: 'fy', type: 'number', default: 0 },
+                ],
+                emits: ['APPLY_FORCE'],
+                example: { args: { sprite: { expression: 'bot' }, fx: 20, fy: -40 } },
+            },
+        },
+    },
+} satisfies Record<string, ApiLibrary>;
+
+// Methods of the sprites ai.Sprite returns. Durations and speeds are in seconds.
+export const SPRITE_API = {
+    say: {
+        doc: 'Shows a message bubble for a number of seconds.',
+        params: [
+            { name: 'message', type: 'string' },
+            { name: 'duration', type: 'number', default: 2, min: 0 },
+        ],
+        emits: ['SAY', 'WAIT', 'CLEAR_MESSAGE'],
+        example: { args: { message: 'Hello, world!', duration: 3 } },
+    },
+    go_to: {
+        doc: 'Travels to a position along a route that avoids props. Reports a problem if the target is unreachable.',
+        params: [
+            { name: 'x', type: 'number' },
+            { name: 'y', type: 'number' },
+            { name: 'speed', type: 'number', default: 2, min: 0 },
+            EASING,
+        ],
+        emits: ['GO_TO'],
+        example: { args: { x: 80, y: 25, speed: 2.5 } },
+    },
+    move_to: {
+        doc: 'Moves in a straight line, stopping at the first prop in the way.',
+        params: [
+            { name: 'x', type: 'number' },
+            { name: 'y', type: 'number' },
+            { name: 'speed', type: 'number', default: 1, min: 0 },
+            EASING,
+        ],
+        emits: ['MOVE_TO'],
+        example: { args: { x: 80, y: 20, speed: 1, easing: 'ease_in_out' } },
+    },
+    rotate_to: {
+        doc: 'Rotates to an absolute angle in degrees.',
+        params: [
+            { name: 'angle', type: 'number' },
+            { name: 'speed', type: 'number', default: 1, min: 0 },
+            EASING,
+        ],
+        emits: ['ROTATE_TO'],
+        example: { args: { angle: 90, speed: 1 } },
+    },
+    look_at: {
+        doc: 'Rotates to face a position.',
+        params: [
+            { name: 'x', type: 'number' },
+            { name: 'y', type: 'number' },
+            { name: 'speed', type: 'number', default: 0.5, min: 0 },
+            EASING,
+        ],
+        emits: ['LOOK_AT'],
+        example: { args: { x: { expression: 'foe.x' }, y: { expression: 'foe.y' } } },
+    },
+    set_style: {
+        doc: "Sets a CSS style on the sprite, by its camelCase name, e.g. opacity or backgroundColor.",
+        params: [
+            { name: 'property', type: 'string' },
+            { name: 'value', type: 'string' },
+        ],
+        emits: ['SET_STYLE'],
+        example: { args: { property: 'filter', value: 'hue-rotate(90deg)' } },
+    },
+    chat: {
+        doc: 'Asks Gemini for a reply to a message, which the sprite says.',
+        params: [{ name: 'message', type: 'string' }],
+        emits: ['AI_CHAT_REQUEST'],
+        example: { args: { message: 'What is our objective?' } },
+    },
+    create_network: {
+        doc: 'Gives the sprite a neural network, so it can be rewarded.',
+        params: [],
+        emits: ['SPRITE_CREATE_NETWORK'],
+        example: {},
+    },
+    reward: {
+        doc: "Gives the sprite's network a positive or negative reward.",
+        params: [{ name: 'value', type: 'number', default: 1 }],
+        emits: ['SPRITE_REWARD'],
+        example: { args: { value: 1 } },
+    },
+    set_velocity: {
+        doc: "Sets the sprite's velocity, in % of the world per second.",
+        params: [
+            { name: 'vx', type: 'number', default: 0 },
+            { name: 'vy', type: 'number', default: 0 },
+        ],
+        emits: ['SET_VELOCITY'],
+        example: { args: { vx: 10, vy: 0 } },
+    },
+    set_mass: {
+        doc: 'Heavier sprites are pushed less by the same force. The default mass is 1.',
+        params: [{ name: 'value', type: 'number', positive: true }],
+        emits: ['SET_BODY'],
+        example: { args: { value: 2 } },
+    },
+    set_bounciness: {
+        doc: "How much speed is kept when bouncing off props and the world's edges, from 0 to 1.",
+        params: [{ name: 'value', type: 'number', min: 0, max: 1 }],
+        emits: ['SET_BODY'],
+        example: { args: { value: 0.8 } },
+    },
+    distance_to: {
+        doc: 'Distance to another sprite, a prop, or an (x, y) point.',
+        params: [{ name: 'other', type: 'point' }],
+        positional: true,
+        returns: 'number',
+        emits: [],
+        example: { args: { other: { expression: 'foe' } }, result: 'gap' },
+    },
+    nearest: {
+        doc: 'The closest sprite or prop, optionally of one shape, or nothing if there is none.',
+        params: [{ name: 'shape', type: 'shape', optional: true }],
+        returns: 'nearest',
+        emits: [],
+        example: { args: { shape: 'rock' }, result: 'rock' },
+    },
+} satisfies Record<string, ApiMethod>;
+
+export type ApiLibraryName = keyof typeof API_LIBRARIES;
+export type SpriteMethodName = keyof typeof SPRITE_API;
+
+export const API_LIBRARY_NAMES = Object.keys(API_LIBRARIES) as ApiLibraryName[];
+
+export const libraryMethods = (library: ApiLibraryName): Record<string, ApiMethod> => API_LIBRARIES[library].methods;
+
+// Scripts are written in one of two styles: keyword arguments, bot.say(message="Hi"), or an options object,
+// bot.say({ message: "Hi" })
+export type ApiStyle = 'py' | 'js';
+
+export const isOptionalParam = (param: ApiParam) => param.optional || param.default !== undefined;
+
+const formatExample = (value: ApiExample): string => {
+    if (typeof value === 'object') return value.expression;
+    return typeof value === 'string' ? JSON.stringify(value) : String(value);
+};
+
+// The parameter list as the editor and the prompts show it, e.g. (x, y, speed=2) or ({ x, y, speed? })
+export function apiSignature(method: ApiMethod, style: ApiStyle): string {
+    if (method.positional || method.params.length === 0) return `(${method.params.map(param => param.name).join(', ')})`;
+    if (style === 'py') {
+        return `(${method.params.map(param => param.default !== undefined ? `${param.name}=${formatExample(param.default)}` : param.name).join(', ')})`;
+    }
+    return `({ ${method.params.map(param => isOptionalParam(param) ? `${param.name}?` : param.name).join(', ')} })`;
+}
+
+// A call with the method's example arguments, e.g. bot.go_to(x=80, y=25) or bot.go_to({ x: 80, y: 25 })
+export function apiExampleCall(target: string, name: string, method: ApiMethod, style: ApiStyle): string {
+    const args = Object.entries(method.example.args ?? {});
+    let argumentList: string;
+    if (method.positional) {
+        argumentList = args.map(([, value]) => formatExample(value)).join(', ');
+    } else if (args.length === 0) {
+        argumentList = '';
+    } else if (style === 'py') {
+        argumentList = args.map(([key, value]) => `${key}=${formatExample(value)}`).join(', ');
+    } else {
+        argumentList = `{ ${args.map(([key, value]) => `${key}: ${formatExample(value)}`).join(', ')} }`;
+    }
+    const call = `${target}.${name}(${argumentList})`;
+    if (!method.example.result) return style === 'js' ? `${call};` : call;
+    return style === 'js' ? `const ${method.example.result} = ${call};` : `${method.example.result} = ${call}`;
+}
+
+// Bullet points of every library and sprite method for a prompt, in the style scripts are written in
+export function describeApi(style: ApiStyle): string {
+    const describeParams = (method: ApiMethod) => method.params.length === 0 ? '' : ` Parameters: ${method.params.map(param => {
+        const info = API_TYPES[param.type];
+        const type = info.values?.map(value => `'${value}'`).join(' | ') ?? (style === 'py' ? info.py : info.ts);
+        const bounds = param.positive ? ', positive'
+            : param.min !== undefined && param.max !== undefined ? `, ${param.min} to ${param.max}`
+            : param.min !== undefined ? `, at least ${param.min}` : '';
+        const note = bounds + (param.default !== undefined ? `, default ${formatExample(param.default)}` : isOptionalParam(param) ? ', optional' : '');
+        return `${param.name} (${type}${note})`;
+    }).join(', ')}.`;
+    const returns = (method: ApiMethod) => method.returns ? ` Returns ${API_TYPES[method.returns].description}.` : '';
+    const line = (target: string, name: string, method: ApiMethod) =>
+        `- \`${target}.${name}${apiSignature(method, style)}\`: ${method.doc}${describeParams(method)}${returns(method)}`;
+
+    return [
+        ...API_LIBRARY_NAMES.flatMap(library => [
+            `\`${library}\`: ${API_LIBRARIES[library].doc}`,
+            ...Object.entries(libraryMethods(library)).map(([name, method]) => line(library, name, method)),
+        ]),
+        'Sprites have `id`, `name`, `shape`, `x`, `y` and `rotation`, and these methods:',
+        ...Object.entries(SPRITE_API).map(([name, method]) => line('sprite', name, method)),
+    ].join('\n');
+}
@@ -0,0 +1,114 @@
+import type { Prop, Sprite } from './types';
+
+// Sprites are treated as a square of this half-size (in % of the world) for collisions
+export const SPRITE_HALF_SIZE = 3;
+// How close two bounds must be to count as touching, so a sprite resting against a wall still reports contact
+const CONTACT_MARGIN = 0.05;
+// Distance between samples when sweeping a move across the world
+const SWEEP_STEP = 0.5;
+// Rebounds slower than this (% per second) come to rest instead of jittering against a surface
+const REST_SPEED = 1;
+
+export interface Bounds {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+// Either side of a contact: a sprite id paired with another sprite's or a prop's id
+export interface Contact {
+    aId: string;
+    bId: string;
+}
+
+type Point = { x: number; y: number };
+
+export const spriteBounds = ({ x, y }: Point): Bounds => ({
+    left: x - SPRITE_HALF_SIZE, top: y - SPRITE_HALF_SIZE,
+    right: x + SPRITE_HALF_SIZE, bottom: y + SPRITE_HALF_SIZE,
+});
+
+// Props are positioned by their centre, matching how PrimaryDisplayPanel renders them
+export const propBounds = (prop: Prop): Bounds => ({
+    left: prop.x - prop.width / 2, top: prop.y - prop.height / 2,
+    right: prop.x + prop.width / 2, bottom: prop.y + prop.height / 2,
+});
+
+export const boundsOverlap = (a: Bounds, b: Bounds, margin = 0) =>
+    a.left < b.right + margin && a.right > b.left - margin &&
+    a.top < b.bottom + margin && a.bottom > b.top - margin;
+
+export const contactKey = (contact: Contact) => `${contact.aId}:${contact.bId}`;
+
+const blockingProp = (point: Point, props: Prop[]) =>
+    props.find(prop => boundsOverlap(spriteBounds(point), propBounds(prop)));
+
+// Moves from `from` towards `to` and stops just short of the first prop in the way.
+// Props the sprite already overlaps at the start are ignored so it can always move out of them.
+export function sweepMove(from: Point, to: Point, props: Prop[]): Point & { blockedBy?: Prop } {
+    const solid = props.filter(prop => !boundsOverlap(spriteBounds(from), propBounds(prop)));
+    const samples = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / SWEEP_STEP));
+    const at = (t: number): Point => ({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t });
+
+    let free = 0;
+    for (let i = 1; i <= samples; i++) {
+        const t = i / samples;
+        const blockedBy = blockingProp(at(t), solid);
+        if (!blockedBy) {
+            free = t;
+            continue;
+        }
+        // Narrow the gap between the last free sample and the blocked one
+        let blocked = t;
+        for (let j = 0; j < 12; j++) {
+            const mid = (free + blocked) / 2;
+            if (blockingProp(at(mid), solid)) blocked = mid; else free = mid;
+        }
+        return { ...at(free), blockedBy };
+    }
+    return { x: to.x, y: to.y };
+}
+
+// Pushes a sprite out of any prop it has sunk into along the shallowest axis and rebounds it on that axis,
+// keeping `restitution` of its speed (0 stops it dead). Returns the last prop it was pushed out of.
+export function pushOutOfProps(sprite: Pick<Sprite, 'x' | 'y' | 'vx' | 'vy'>, props: Prop[], restitution = 0): Prop | undefined {
+    const rebound = (velocity: number) => Math.abs(velocity * restitution) < REST_SPEED ? 0 : -velocity * restitution;
+    let hit: Prop | undefined;
+    for (const prop of props) {
+        const a = spriteBounds(sprite);
+        const b = propBounds(prop);
+        if (!boundsOverlap(a, b)) continue;
+
+        const pushLeft = a.right - b.left;
+        const pushRight = b.right - a.left;
+        const pushUp = a.bottom - b.top;
+        const pushDown = b.bottom - a.top;
+        const minX = Math.min(pushLeft, pushRight);
+        const minY = Math.min(pushUp, pushDown);
+        if (minX < minY) {
+            sprite.x += pushLeft < pushRight ? -pushLeft : pushRight;
+            sprite.vx = rebound(sprite.vx);
+        } else {
+            sprite.y += pushUp < pushDown ? -pushUp : pushDown;
+            sprite.vy = rebound(sprite.vy);
+        }
+        hit = prop;
+    }
+    return hit;
+}
+
+// Every sprite–sprite and sprite–prop pair that is currently touching
+export function findContacts(sprites: Sprite[], props: Prop[]): Contact[] {
+    const contacts: Contact[] = [];
+    sprites.forEach((sprite, i) => {
+        const bounds = spriteBounds(sprite);
+        for (const other of sprites.slice(i + 1)) {
+            if (boundsOverlap(bounds, spriteBounds(other), CONTACT_MARGIN)) contacts.push({ aId: sprite.id, bId: other.id });
+        }
+        for (const prop of props) {
+            if (boundsOverlap(bounds, propBounds(prop), CONTACT_MARGIN)) contacts.push({ aId: sprite.id, bId: prop.id });
+        }
+    });
+    return contacts;
+}
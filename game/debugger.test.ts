@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DebugPause } from './types';
+import { createDebugBuffer, createLinePauser, DebugLine, sendDebugSignal, setDebugBreakpoints } from './debugger';
+
+// Node shares memory without isolation; the page only does when it is cross-origin isolated
+Object.assign(globalThis, { crossOriginIsolated: true });
+
+const line = (number: number, depth = 0): DebugLine => ({ fileId: 'main', line: number, depth, scope: depth ? 'f' : '<module>', variables: () => ({ n: String(number) }) });
+
+// Runs lines through a pauser whose page answers each pause with the next reply, right away
+const debugLines = (lines: DebugLine[], replies: ((buffer: SharedArrayBuffer) => void)[], breakpoints: number[] = []) => {
+    const buffer = createDebugBuffer({ main: breakpoints })!;
+    const pauses: DebugPause[] = [];
+    const pauseAt = createLinePauser({
+        buffer,
+        onPause: (pause) => {
+            pauses.push(pause);
+            replies[pauses.length - 1](buffer);
+        },
+    }, () => []);
+    const ran: number[] = [];
+    for (const next of lines) {
+        if (pauseAt(next)) break;
+        ran.push(next.line);
+    }
+    return { paused: pauses.map(pause => pause.frame.line), ran, variables: pauses.map(pause => pause.frame.variables) };
+};
+
+test('a debug run without breakpoints pauses on its first line and steps over, into and out of calls', () => {
+    const lines = [line(1), line(5, 1), line(6, 1), line(2), line(5, 1), line(6, 1), line(3)];
+    const { paused, ran, variables } = debugLines(lines, [
+        buffer => sendDebugSignal(buffer, 'over'),
+        buffer => sendDebugSignal(buffer, 'into'),
+        buffer => sendDebugSignal(buffer, 'out'),
+        buffer => sendDebugSignal(buffer, 'continue'),
+    ]);
+    assert.deepEqual(paused, [1, 2, 5, 3]);
+    assert.deepEqual(ran, [1, 5, 6, 2, 5, 6, 3]);
+    assert.deepEqual(variables[0], { n: '1' });
+});
+
+test('a debug run picks up breakpoints changed while it is paused, and stops when told to', () => {
+    const lines = [line(1), line(2), line(3), line(4)];
+    const { paused, ran } = debugLines(lines, [
+        buffer => {
+            setDebugBreakpoints(buffer, { main: [3] });
+            sendDebugSignal(buffer, 'continue');
+        },
+        buffer => sendDebugSignal(buffer, 'stop'),
+    ], [1]);
+    assert.deepEqual(paused, [1, 3]);
+    assert.deepEqual(ran, [1, 2]);
+});
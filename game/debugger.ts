@@ -0,0 +1,133 @@
+import type { DebugFrame, DebugOptions, ExecutionStep, SourceLocation } from './types';
+
+// A debug run pauses the script itself, in its worker: before each line the instrumented script asks whether to
+// stop there, and while it is paused the worker blocks on a buffer shared with the page until a command arrives.
+// The page writes commands and the breakpoints into that buffer, so both reach a script that never yields.
+// Sharing memory with a worker needs the page to be cross-origin isolated (see vite.config.ts).
+
+// Breakpoint lines by file id
+export type Breakpoints = Record<string, number[]>;
+
+export type DebugCommand = 'into' | 'over' | 'out' | 'continue';
+
+// What the page can tell a debug run: a command while it is paused, or to pause or stop while it runs
+type DebugSignal = DebugCommand | 'pause' | 'stop';
+
+// Written to the buffer as their position here plus one, so that 0 means no signal
+const SIGNALS: DebugSignal[] = ['continue', 'over', 'into', 'out', 'pause', 'stop'];
+const NO_SIGNAL = 0;
+const codeOf = (signal: DebugSignal) => SIGNALS.indexOf(signal) + 1;
+
+// The buffer starts with three Int32 slots, followed by the breakpoints as JSON
+const SIGNAL = 0;
+const BREAKPOINTS_VERSION = 1;
+const BREAKPOINTS_LENGTH = 2;
+const HEADER_BYTES = 3 * Int32Array.BYTES_PER_ELEMENT;
+const BUFFER_BYTES = 64 * 1024;
+
+const MAX_VALUE_LENGTH = 80;
+
+// The buffer for a debug run, or null when the page can't share memory with its workers
+export function createDebugBuffer(breakpoints: Breakpoints): SharedArrayBuffer | null {
+    if (typeof SharedArrayBuffer === 'undefined' || !globalThis.crossOriginIsolated) return null;
+    const buffer = new SharedArrayBuffer(BUFFER_BYTES);
+    setDebugBreakpoints(buffer, breakpoints);
+    return buffer;
+}
+
+// Hands the breakpoints to the run, which picks them up at its next line, paused or not
+export function setDebugBreakpoints(buffer: SharedArrayBuffer, breakpoints: Breakpoints) {
+    const bytes = new TextEncoder().encode(JSON.stringify(breakpoints));
+    if (bytes.length > BUFFER_BYTES - HEADER_BYTES) return;
+    const slots = new Int32Array(buffer, 0, 3);
+    new Uint8Array(buffer, HEADER_BYTES).set(bytes);
+    Atomics.store(slots, BREAKPOINTS_LENGTH, bytes.length);
+    Atomics.add(slots, BREAKPOINTS_VERSION, 1);
+}
+
+// Resumes a paused run with a command, or asks a running one to pause or stop, waking it if it is paused
+export function sendDebugSignal(buffer: SharedArrayBuffer, signal: DebugSignal) {
+    const slots = new Int32Array(buffer, 0, 3);
+    Atomics.store(slots, SIGNAL, codeOf(signal));
+    Atomics.notify(slots, SIGNAL);
+}
+
+// A line the script is about to run, as the bridges report it. The variables are only read if it pauses there.
+export interface DebugLine extends SourceLocation {
+    depth: number;
+    scope: string;
+    variables: () => Record<string, string>;
+}
+
+// The worker's side of a debug run. Returns what the instrumented script calls before each line: it decides
+// whether to pause, blocks until the page resumes the run, and returns true once the page has stopped it.
+// `takeSteps` hands over the steps generated since the last pause, so the page can show the world as it is.
+export function createLinePauser(debug: DebugOptions, takeSteps: () => ExecutionStep[]): (line: DebugLine) => boolean {
+    const slots = new Int32Array(debug.buffer, 0, 3);
+    let version = -1;
+    let breakpoints: Breakpoints = {};
+    const readBreakpoints = () => {
+        const current = Atomics.load(slots, BREAKPOINTS_VERSION);
+        if (current === version) return;
+        const length = Atomics.load(slots, BREAKPOINTS_LENGTH);
+        // TextDecoder won't read shared memory, so the bytes are copied out first
+        const bytes = new Uint8Array(debug.buffer, HEADER_BYTES, length).slice();
+        try {
+            breakpoints = JSON.parse(new TextDecoder().decode(bytes));
+            version = current;
+        } catch {
+            // Read while the page was writing them; the next line reads them again
+        }
+    };
+    readBreakpoints();
+
+    // Without breakpoints the run pauses on its first line
+    let command: DebugCommand = Object.values(breakpoints).some(lines => lines.length > 0) ? 'continue' : 'into';
+    // The depth of the line the last command was given on, for Step Over and Step Out
+    let commandDepth = 0;
+
+    return (line) => {
+        readBreakpoints();
+        const signal = Atomics.exchange(slots, SIGNAL, NO_SIGNAL);
+        if (signal === codeOf('stop')) return true;
+        const shouldPause = signal === codeOf('pause')
+            || (breakpoints[line.fileId]?.includes(line.line) ?? false)
+            || command === 'into'
+            || (command === 'over' && line.depth <= commandDepth)
+            || (command === 'out' && line.depth < commandDepth);
+        if (!shouldPause) return false;
+
+        const { variables, ...location } = line;
+        const frame: DebugFrame = { ...location, variables: variables() };
+        debug.onPause({ frame, steps: takeSteps() });
+        // A pause asked for while already paused means nothing; anything else resumes the run
+        let received = NO_SIGNAL;
+        while (received === NO_SIGNAL || received === codeOf('pause')) {
+            Atomics.wait(slots, SIGNAL, NO_SIGNAL);
+            received = Atomics.exchange(slots, SIGNAL, NO_SIGNAL);
+        }
+        if (received === codeOf('stop')) return true;
+        command = SIGNALS[received - 1] as DebugCommand;
+        commandDepth = line.depth;
+        debug.onResume?.();
+        return false;
+    };
+}
+
+const truncate = (text: string) => text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 3)}...` : text;
+
+// A one-line description of a script value for the Variables panel. Sprites are shown by name and position.
+export function describeTraceValue(value: any): string {
+    if (value === undefined) return 'undefined';
+    if (value === null) return 'null';
+    if (typeof value === 'object' && typeof value.id === 'string' && typeof value.name === 'string' && typeof value.x === 'number' && typeof value.y === 'number') {
+        return `Sprite '${value.name}' at (${+value.x.toFixed(2)}, ${+value.y.toFixed(2)})`;
+    }
+    if (typeof value === 'function') return `function ${value.name || '(anonymous)'}`;
+    if (typeof value !== 'object') return truncate(typeof value === 'string' ? JSON.stringify(value) : String(value));
+    try {
+        return truncate(JSON.stringify(value) ?? String(value));
+    } catch {
+        return Array.isArray(value) ? `Array(${value.length})` : '[object]';
+    }
+}
@@ -1,25 +1,55 @@
 
 
 
-import { ExecutionResult, FileSystemTree, ExecutionStep, Prop } from './types';
-import { executePythonCode } from './python_engine';
-import { executeJavaScriptCode } from './javascript_engine';
-import { transpileCode } from './gemini';
-import { nanoid } from 'nanoid';
+import { ExecutionResult, FileSystemTree, FileSystemNode, ExecutionStep, Prop, ExecutionOptions } from './types';
+import type { PythonEngineName } from './python_engine';
+import { languageRuntimeFor, runnableExtensions } from '../runtimes/registry';
+import { createSeededRandom, randomSeed } from './random';
+import { cancelledRun } from './script_worker';
+import { workspaceFiles } from './workspace';
+
+type PropElement = { shape: string | null; style: string };
+
+// Reads the attributes of every `.prop` element without a DOM, so the world can be parsed in Node.
+// It only needs to understand the flat markup world.html uses: one tag per prop, quoted attributes.
+function findPropElements(htmlContent: string): PropElement[] {
+    const elements: PropElement[] = [];
+    const withoutComments = htmlContent.replace(/<!--[\s\S]*?-->/g, '');
+    const tagRegex = /<[a-zA-Z][\w-]*\b([^>]*)>/g;
+    const attributeRegex = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+
+    for (const [, attributeText] of withoutComments.matchAll(tagRegex)) {
+        const attributes: Record<string, string> = {};
+        for (const [, name, doubleQuoted, singleQuoted, unquoted] of attributeText.matchAll(attributeRegex)) {
+            attributes[name.toLowerCase()] = doubleQuoted ?? singleQuoted ?? unquoted ?? '';
+        }
+        if ((attributes.class ?? '').split(/\s+/).includes('prop')) {
+            elements.push({ shape: attributes['data-shape'] ?? null, style: attributes.style ?? '' });
+        }
+    }
+    return elements;
+}
 
 // New function to parse world.html for declarative props
-function parseWorldHTML(htmlContent: string): ExecutionStep[] {
+function parseWorldHTML(htmlContent: string, createId: () => string): ExecutionStep[] {
     const steps: ExecutionStep[] = [];
-    if (typeof DOMParser === 'undefined') return steps; // Guard for non-browser environments
 
     try {
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(htmlContent, 'text/html');
-        const props = doc.querySelectorAll('.prop');
+        let elements: PropElement[];
+        if (typeof DOMParser !== 'undefined') {
+            const parser = new DOMParser();
+            const doc = parser.parseFromString(htmlContent, 'text/html');
+            elements = Array.from(doc.querySelectorAll('.prop'), el => ({
+                shape: el.getAttribute('data-shape'),
+                style: el.getAttribute('style') || '',
+            }));
+        } else {
+            elements = findPropElements(htmlContent);
+        }
 
-        props.forEach(el => {
-            const shape = el.getAttribute('data-shape') as Prop['shape'] || 'rock';
-            const style = el.getAttribute('style') || '';
+        elements.forEach(el => {
+            const shape = el.shape as Prop['shape'] || 'rock';
+            const style = el.style;
             
             const styleProps = style.split(';')
               .filter(s => s.trim())
@@ -30,7 +60,7 @@ function parseWorldHTML(htmlContent: string): ExecutionStep[] {
             }, {} as Record<string, string>);
 
             const newProp: Prop = {
-                id: nanoid(8),
+                id: createId(),
                 shape,
                 x: parseFloat(styleProps.left) || 50,
                 y: parseFloat(styleProps.top) || 50,
@@ -48,106 +78,67 @@ function parseWorldHTML(htmlContent: string): ExecutionStep[] {
     return steps;
 }
 
-const LANGUAGE_NAME_MAP: Record<string, string> = {
-    c: 'C',
-    cpp: 'C++',
-    cs: 'C#',
-    dart: 'Dart',
-    go: 'Go',
-    java: 'Java',
-    kt: 'Kotlin',
-    rs: 'Rust',
-    scala: 'Scala',
-    swift: 'Swift',
-    py: 'Python',
-    js: 'JavaScript'
-};
+// The world a run starts in: the given file, or else the project's world.html
+export function findWorldFile(fileSystem: FileSystemTree, worldFileId?: string): Extract<FileSystemNode, { type: 'file' }> | undefined {
+    const node = worldFileId
+        ? fileSystem[worldFileId]
+        : Object.values(fileSystem).find(node => node.name === 'world.html' && node.type === 'file' && node.status !== 'deleted');
+    return node?.type === 'file' ? node : undefined;
+}
 
 export async function parseCode(
     code: string, 
     fileSystem: FileSystemTree, 
     language: string, 
     fileId: string, 
-    pythonEngine: 'pyodide' | 'pyscript',
-    logCallback: (message: string) => void
+    pythonEngine: PythonEngineName,
+    logCallback: (message: string) => void,
+    options: ExecutionOptions = {}
 ): Promise<Omit<ExecutionResult, 'newState'>> {
+    // 0. Every id and random number in the run comes from this seed, so recording it makes the run reproducible
+    const seed = options.seed ?? randomSeed();
+    const random = createSeededRandom(seed);
+
     // 1. Parse the world from HTML first to establish the static environment
-    const worldFile = Object.values(fileSystem).find(node => node.name === 'world.html' && node.type === 'file');
-    const worldSteps = worldFile ? parseWorldHTML((worldFile as any).code) : [];
-
-    let scriptResult: Omit<ExecutionResult, 'newState'>;
-
-    // 2. Execute the user's script based on language
-    switch (language) {
-        case 'py':
-            scriptResult = await executePythonCode(code, fileSystem, fileId, pythonEngine);
-            break;
-        case 'js':
-        case 'jsx':
-        case 'ts':
-        case 'tsx':
-            scriptResult = await executeJavaScriptCode(code, fileSystem, fileId);
-            break;
-        case 'html':
-            scriptResult = {
-                logs: [`You are viewing world.html. Edit this file to define props. Run a .py or .js file to start the simulation.`],
-                problems: [],
-                steps: [],
-                executedLines: 0,
-            };
-            break;
-        // New cases for transpiled execution
-        case 'c':
-        case 'cpp':
-        case 'cs':
-        case 'dart':
-        case 'go':
-        case 'java':
-        case 'kt':
-        case 'rs':
-        case 'scala':
-        case 'swift':
-            try {
-                const sourceLangName = LANGUAGE_NAME_MAP[language] || language;
-                logCallback(`Transpiling ${sourceLangName} to Python...`);
-                
-                const pythonCode = await transpileCode(code, language);
-                logCallback(`Transpilation complete. Executing...`);
-
-                // If the user wants to see the transpiled code, we can log it.
-                // logCallback(`--- Transpiled Python Code ---\n${pythonCode}\n--------------------`);
-
-                scriptResult = await executePythonCode(
-                    pythonCode, 
-                    fileSystem, 
-                    fileId, 
-                    pythonEngine,
-                    { code, language } // Pass original source for better error mapping
-                );
-            } catch (e) {
-                 const errorMessage = e instanceof Error ? e.message : "An unknown transpilation error occurred.";
-                 scriptResult = {
-                    logs: [`Failed to transpile code. ${errorMessage}`],
-                    problems: [{ fileId, line: 0, message: `Transpilation Error: ${errorMessage}`, code, language }],
-                    steps: [],
-                    executedLines: 0,
-                };
-            }
-            break;
-        default:
-            // For languages like md, txt, etc.
-            scriptResult = {
-                logs: [`File type '${language}' is not runnable. Only Python (.py) and JavaScript (.js) are supported for direct execution. Other languages are transpiled.`],
-                problems: [],
-                steps: [],
-                executedLines: 0,
-            };
-            break;
+    const worldFile = findWorldFile(fileSystem, options.worldFileId);
+    const worldSteps = worldFile ? parseWorldHTML(worldFile.code, () => random.id(8)) : [];
+    const props = worldSteps.flatMap(step => step.type === 'CREATE_PROP' ? [step.prop] : []);
+    options = { ...options, props, seed, random, files: workspaceFiles(fileSystem) };
+    const { signal, debug } = options;
+    if (debug) {
+        // The world's steps come first, so a debug run's first pause hands them over with the script's
+        let unreported = worldSteps;
+        options.debug = {
+            ...debug,
+            onPause: (pause) => {
+                debug.onPause({ ...pause, steps: [...unreported, ...pause.steps] });
+                unreported = [];
+            },
+        };
+    }
+
+    // 2. Execute the user's script with its language's runtime (see runtimes/registry.ts)
+    const runtime = languageRuntimeFor(language);
+    const scriptResult: Omit<ExecutionResult, 'newState'> = runtime?.execute
+        ? await runtime.execute({ code, fileSystem, fileId, language, pythonEngine, log: logCallback, options })
+        : {
+            logs: [runtime?.runHint ?? `File type '${language}' is not runnable. Files that run: ${runnableExtensions().map(extension => `.${extension}`).join(', ')}.`],
+            problems: [],
+            steps: [],
+            executedLines: 0,
+        };
+
+    // A cancelled run hands back only what it logged, leaving whatever was loaded before it untouched
+    if (scriptResult.cancelled) return { ...scriptResult, seed };
+    if (signal?.aborted) {
+        scriptResult.session?.dispose();
+        return { ...cancelledRun(scriptResult.logs), seed };
     }
 
     // 3. Combine world steps and script steps
     return {
         ...scriptResult,
         steps: [...worldSteps, ...scriptResult.steps],
+        seed,
     };
 }
\ No newline at end of file
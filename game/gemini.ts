@@ -1,4 +1,5 @@
 import { GoogleGenAI, Type } from "@google/genai";
+import { describeApi } from './api_schema';
 
 const model = 'gemini-2.5-flash';
 
@@ -176,7 +177,11 @@ ${code}
     }
 };
 
-export const transpileCode = async (code: string, sourceLanguage: string): Promise<string> => {
+// Whether transpileCode can be tried at all: it needs an API key and a connection
+export const isTranspilerAvailable = (): boolean =>
+    !!process.env.API_KEY && (typeof navigator === 'undefined' || navigator.onLine !== false);
+
+export const transpileCode = async (code: string, sourceLanguage: string, signal?: AbortSignal): Promise<string> => {
      if (!process.env.API_KEY) {
         throw new Error("API_KEY is not configured for transpilation.");
     }
@@ -184,13 +189,8 @@ export const transpileCode = async (code: string, sourceLanguage: string): Promi
     const prompt = `You are an expert code transpiler. Your task is to convert code from various languages into Python.
 The target Python environment has a specific, globally available API for controlling sprites.
 
-**Target Python API:**
-- \`ai.Sprite(name="str", shape="str", x=int, y=int)\`: Creates a sprite.
-- \`sprite.go_to(x=int, y=int, speed=float)\`: Moves a sprite.
-- \`sprite.say(message="str", duration=float)\`: Makes a sprite talk.
-- \`sprite.create_network()\`: Initializes AI for the sprite.
-- \`sprite.reward(value=int)\`: Gives a reward to the sprite.
-- All other libraries like \`world\`, \`sound\`, and \`physics\` follow a similar keyword-argument style.
+**Target Python API** (called with keyword arguments, e.g. \`bot.go_to(x=80, y=20)\`):
+${describeApi('py')}
 
 **Instructions:**
 1.  Transpile the provided ${sourceLanguage} code into the equivalent Python code that uses the target API.
@@ -214,6 +214,7 @@ ${code}
             config: {
                 temperature: 0.0,
                 stopSequences: [],
+                abortSignal: signal,
             }
         });
 
@@ -227,6 +228,8 @@ ${code}
         return cleanedCode;
 
     } catch (error) {
+        // A cancelled run isn't a transpiler failure
+        if (signal?.aborted) throw error;
         console.error("Error transpiling code via Gemini API:", error);
         throw new Error("The AI failed to transpile the code. It may contain unsupported syntax or the API failed.");
     }
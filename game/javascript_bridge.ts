@@ -0,0 +1,258 @@
+import { ExecutionResult, Problem, ExecutionStep, ExecutionOptions, SourceLocation } from './types';
+import { createLiveSession, hasLiveHandlers, LIVE_HANDLER_NAMES, LiveHandlers } from './live_session';
+import { describeProp } from './world_model';
+import { BridgeSprite, createApiBindings } from './api_bindings';
+import { createSeededRandom, randomSeed } from './random';
+import { createLinePauser, describeTraceValue } from './debugger';
+import { dirname, joinPath } from './workspace';
+
+// Steps one run (or one live handler call) may generate, so a runaway loop fails with a Problem instead of
+// filling the page's memory with a replay nobody can watch
+export const MAX_SCRIPT_STEPS = 100_000;
+
+// Files the module loader can import; a specifier may leave the extension off
+export const MODULE_EXTENSIONS = ['.js', '.jsx', '.mjs', '.ts', '.tsx'];
+
+// The project's JavaScript and TypeScript files, compiled to CommonJS on the main thread so scripts can require() them
+export interface JavaScriptModule {
+    fileId: string;
+    path: string;
+    source: string;
+    // The compiled module, or why it couldn't be compiled
+    code?: string;
+    error?: string;
+}
+
+export interface CompiledScript {
+    // The script rewritten for its imports or for a debug run, when it needed that and it worked
+    code?: string;
+    // Where the script lives, so its relative imports can be resolved
+    path: string;
+    modules: JavaScriptModule[];
+}
+
+// The user's code starts this many lines into the function the AsyncFunction (or Function) constructor generates:
+// the function header, its parameter list and the "use strict" line come first
+const SANDBOX_LINE_OFFSET = 3;
+
+// Modules are named by this sourceURL plus their path, so stack traces say which file a frame is in.
+// The script being run shows up as <anonymous>.
+const MODULE_URL = 'playground:///';
+const SANDBOX_FRAME = /(<anonymous>|playground:\/\/\/[^\s():]+):(\d+):\d+/;
+const SANDBOX_FRAMES = new RegExp(SANDBOX_FRAME.source, 'g');
+
+// The innermost sandboxed frame in a stack trace, if there is one: the module's path (null for the script) and its line
+const sandboxFrameFromStack = (stack?: string): { path: string | null, line: number } | undefined => {
+    const match = stack?.match(SANDBOX_FRAME);
+    if (!match) return undefined;
+    const path = match[1] === '<anonymous>' ? null : match[1].slice(MODULE_URL.length);
+    return { path, line: Math.max(1, parseInt(match[2], 10) - SANDBOX_LINE_OFFSET) };
+};
+
+// Debug runs call this sandbox parameter before every statement
+export const TRACE_FUNCTION = '__trace__';
+
+// Taken when the bridge loads, since the JavaScript worker then takes the Function constructors away from scripts
+const FunctionConstructor = Function;
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as FunctionConstructor;
+
+// Runs a script against the bridge in the current realm. Called in the JavaScript worker, and in-process where
+// there are no workers. `compiled` holds what the main thread compiled for it (see javascript_engine.ts).
+export async function runJavaScript(
+    code: string,
+    fileId: string,
+    options: ExecutionOptions = {},
+    compiled: CompiledScript = { path: '', modules: [] },
+    onStart?: () => void
+): Promise<Omit<ExecutionResult, 'newState'>> {
+    const logs: string[] = [];
+    const problems: Problem[] = [];
+    const steps: ExecutionStep[] = [];
+    let worldProps = options.props ?? [];
+    const rng = options.random ?? createSeededRandom(options.seed ?? randomSeed());
+    // The sandbox sees this in place of the global Math, so Math.random() follows the run's seed
+    const seededMath = Object.create(Math, { random: { value: () => rng.random() } });
+    let session: ExecutionResult['session'];
+
+    const modulesByPath = new Map(compiled.modules.map(module => [module.path, module]));
+
+    // The file and line of the innermost sandboxed frame in a stack trace
+    const locate = (stack?: string): SourceLocation | undefined => {
+        const frame = sandboxFrameFromStack(stack);
+        if (!frame) return undefined;
+        const module = frame.path === null ? undefined : modulesByPath.get(frame.path);
+        return { fileId: module?.fileId ?? fileId, line: frame.line };
+    };
+
+    const toProblem = (e: unknown): Problem => {
+        const error = e as Error;
+        const message = error?.message || "An unknown JavaScript error occurred.";
+        
+        // Errors thrown by the bridge are attributed to the line that called it, in whichever file that is
+        const location = locate(error?.stack) ?? { fileId, line: 1 };
+        const module = compiled.modules.find(candidate => candidate.fileId === location.fileId && location.fileId !== fileId);
+
+        return { ...location, message, code: module?.source ?? code, language: 'js' };
+    };
+    
+    // Every step remembers the line that produced it, read from the stack of the bridge call
+    const pushStep = (step: ExecutionStep) => {
+        if (steps.length >= MAX_SCRIPT_STEPS) {
+            throw new Error(`The script generated more than ${MAX_SCRIPT_STEPS} steps. Check for a loop that never ends.`);
+        }
+        const source = locate(new Error().stack);
+        steps.push(source ? { ...step, source } : step);
+    };
+
+    // Called by instrumented code before each statement, where a debug run may pause. Depth is read from the stack:
+    // one sandbox frame per call. Live handlers run after the script has finished and don't pause.
+    let reportedSteps = 0;
+    const pauseAt = options.debug && createLinePauser(options.debug, () => {
+        const newSteps = steps.slice(reportedSteps);
+        reportedSteps = steps.length;
+        return newSteps;
+    });
+    let isTracing = true;
+    let stopped = false;
+    const traceLine = (traceFileId: string) => (line: number, scope: string, names: string[], getters: (() => unknown)[]) => {
+        if (!pauseAt || !isTracing) return;
+        const sandboxFrames = new Error().stack?.match(SANDBOX_FRAMES)?.length ?? 1;
+        // Once stopped, every line throws again, so a try/catch in the script can't carry on past it
+        stopped ||= pauseAt({
+            fileId: traceFileId, line, depth: Math.max(0, sandboxFrames - 1), scope,
+            variables: () => {
+                const variables: Record<string, string> = {};
+                for (const [i, name] of names.entries()) {
+                    try {
+                        const value = getters[i]();
+                        if (typeof value !== 'function') variables[name] = describeTraceValue(value);
+                    } catch {
+                        // Declared further down and not initialised yet
+                    }
+                }
+                return variables;
+            },
+        });
+        if (stopped) throw new Error('Execution stopped by the user.');
+    };
+
+    const customConsole = {
+        log: (...args: any[]) => {
+            logs.push(args.map(a => {
+                try {
+                    return typeof a === 'object' ? JSON.stringify(a) : String(a);
+                } catch {
+                    return '[Circular Object]';
+                }
+            }).join(' '));
+        }
+    };
+
+    // Assigning a sprite's x, y or rotation moves it on the spot
+    const wrapSprite = (sprite: BridgeSprite) => new Proxy(sprite, {
+        set(target, prop, value) {
+            if (prop === 'x' || prop === 'y' || prop === 'rotation') {
+                if (typeof value !== 'number') {
+                    customConsole.log(`Warning: Sprite property '${String(prop)}' must be a number.`);
+                    return true;
+                }
+
+                target[prop] = value;
+
+                if (prop === 'x' || prop === 'y') {
+                    // Create an instantaneous move step to update the renderer
+                    pushStep({ type: 'MOVE_TO', spriteId: target.id, x: target.x, y: target.y, duration: 0 });
+                } else { // prop === 'rotation'
+                    pushStep({ type: 'ROTATE_TO', spriteId: target.id, angle: target.rotation, duration: 0 });
+                }
+                return true;
+            }
+
+            // Prevent changing immutable properties or adding new ones
+            if (prop === 'id' || prop === 'name') {
+                 customConsole.log(`Warning: Cannot change immutable property '${String(prop)}' of sprite '${target.name}'.`);
+            } else {
+                 customConsole.log(`Warning: Cannot set unknown property '${String(prop)}' on sprite '${target.name}'.`);
+            }
+            return true; // Return true to avoid throwing an error in strict mode
+        }
+    });
+
+    try {
+        const bridge = createApiBindings({ pushStep, rng, props: () => worldProps, wrapSprite });
+        const { sprites: spriteInstances, handles: spriteProxies } = bridge;
+
+        // In live mode the script's top-level handler declarations are handed back to the runner.
+        // The export is appended after the user's code so reported line numbers stay the same.
+        const handlerExport = options.mode === 'live'
+            ? `\nreturn { ${LIVE_HANDLER_NAMES.map(name => `${name}: typeof ${name} === 'function' ? ${name} : undefined`).join(', ')} };`
+            : '';
+
+        if (options.debug && compiled.code === undefined) logs.push('The debugger could not instrument this script, so it runs without pausing.');
+        const runCode = compiled.code ?? code;
+
+        const sandboxParams = ['ai', 'world', 'sound', 'physics', 'console', 'Math', TRACE_FUNCTION, 'require', 'module', 'exports'];
+        const sandboxArgs = (traceFileId: string, requireFrom: string, module: { exports: any }) => [
+            bridge.libraries.ai, bridge.libraries.world, bridge.libraries.sound, bridge.libraries.physics, customConsole, seededMath, traceLine(traceFileId), createRequire(requireFrom), module, module.exports,
+        ];
+
+        // Each module runs once, the first time it's required, like Node's require(). Cycles see a partial module.
+        const loadedModules = new Map<string, { exports: any }>();
+        const createRequire = (fromPath: string) => (specifier: string) => {
+            const base = /^\.{0,2}\//.test(specifier) ? joinPath(dirname(fromPath), specifier) : null;
+            const candidates = base === null ? [] : [base, ...MODULE_EXTENSIONS.map(ext => base + ext), `${base}/index.js`];
+            const module = candidates.map(candidate => modulesByPath.get(candidate)).find(Boolean);
+            if (!module) {
+                throw new Error(`Cannot find module '${specifier}'. Scripts can import the project's own .js and .ts files by relative path, e.g. './utils.js'.`);
+            }
+            const loaded = loadedModules.get(module.path);
+            if (loaded) return loaded.exports;
+            if (module.code === undefined) throw new Error(`${module.path} could not be compiled: ${module.error}`);
+
+            const moduleObject = { exports: {} };
+            loadedModules.set(module.path, moduleObject);
+            const moduleFunction = new FunctionConstructor(...sandboxParams, `"use strict";\n${module.code}\n//# sourceURL=${MODULE_URL}${module.path}`);
+            moduleFunction(...sandboxArgs(module.fileId, module.path, moduleObject));
+            return moduleObject.exports;
+        };
+
+        // The AsyncFunction constructor lets scripts use top-level await
+        const sandboxedExecutor = new AsyncFunction(...sandboxParams, `"use strict";\n${runCode}${handlerExport}`);
+
+        onStart?.();
+        const handlers: LiveHandlers | undefined = await sandboxedExecutor(...sandboxArgs(fileId, compiled.path, { exports: {} }));
+        isTracing = false;
+        logs.push(`Execution successful. ${steps.length} steps generated.`);
+
+        if (options.mode === 'live' && handlers && hasLiveHandlers(handlers)) {
+            session = createLiveSession({
+                handlers,
+                sync: (state) => {
+                    worldProps = state.props;
+                    for (const spriteState of state.sprites) {
+                        // Write to the raw target so the proxy doesn't record a move step
+                        const sprite = spriteInstances.get(spriteState.id);
+                        if (!sprite) continue;
+                        sprite.x = spriteState.x;
+                        sprite.y = spriteState.y;
+                        sprite.rotation = spriteState.rotation;
+                    }
+                },
+                resolve: (id, state) => {
+                    const prop = state.props.find(p => p.id === id);
+                    return spriteProxies.get(id) ?? (prop ? describeProp(prop) : null);
+                },
+                drain: () => ({ steps: steps.splice(0), logs: logs.splice(0) }),
+                toProblem,
+            });
+            const registered = LIVE_HANDLER_NAMES.filter(name => typeof handlers[name] === 'function');
+            logs.push(`Live mode: registered ${registered.join(', ')}.`);
+        }
+    } catch (e) {
+        problems.push(toProblem(e));
+        logs.push(`Execution failed.`);
+    }
+
+    // A live session keeps appending to these buffers, so hand the caller what has been collected so far
+    return { logs: logs.splice(0), problems, steps: steps.splice(0), executedLines: code.split('\n').length, session };
+}
\ No newline at end of file
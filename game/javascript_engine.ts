@@ -1,183 +1,183 @@
-import { Sprite, Prop, ExecutionResult, Problem, ExecutionStep, FileSystemTree, Zone } from './types';
-import { nanoid } from 'nanoid';
-
-class JavaScriptSprite {
-    public id: string;
-    public name: string;
-    public x: number;
-    public y: number;
-    public rotation: number;
-    
-    constructor(id: string, name: string, x: number, y: number) {
-        this.id = id;
-        this.name = name;
-        this.x = x;
-        this.y = y;
-        this.rotation = 0;
-    }
-}
+import type { ExecutionResult, FileSystemTree, ExecutionOptions, Problem } from './types';
+import type { JavaScriptRunRequest } from './javascript_worker';
+import type { TypeScriptCheckRequest } from './typescript_worker';
+import { CompiledScript, JavaScriptModule, MODULE_EXTENSIONS, runJavaScript, TRACE_FUNCTION } from './javascript_bridge';
+import { cancelledRun, createScriptWorker, DEFAULT_SCRIPT_TIMEOUT_MS } from './script_worker';
+
+// In the browser scripts run in a worker (see javascript_worker.ts), away from the page's window, storage and
+// API keys. Scripts and their modules are compiled here first, since Babel is loaded by the page and not the worker.
+// TypeScript has its types stripped by Babel too, after being type-checked in a worker of its own (see typescript_worker.ts).
 
-export async function executeJavaScriptCode(code: string, fileSystem: FileSystemTree, fileId: string): Promise<Omit<ExecutionResult, 'newState'>> {
-    const logs: string[] = [];
-    const problems: Problem[] = [];
-    const steps: ExecutionStep[] = [];
-    const spriteInstances = new Map<string, JavaScriptSprite>();
-    const spriteNames = new Set<string>();
-    
-    const customConsole = {
-        log: (...args: any[]) => {
-            logs.push(args.map(a => {
-                try {
-                    return typeof a === 'object' ? JSON.stringify(a) : String(a);
-                } catch {
-                    return '[Circular Object]';
-                }
-            }).join(' '));
+// The function a statement belongs to, as the debugger names it
+const scopeNameOf = (path: any): string => {
+    const fn = path.getFunctionParent();
+    if (!fn) return '<module>';
+    return fn.node.id?.name ?? fn.node.key?.name ?? (fn.parentPath.isVariableDeclarator() ? fn.parentPath.node.id.name : undefined) ?? '(anonymous)';
+};
+
+// Every variable declared in the scopes enclosing a statement, innermost first
+const visibleNames = (scope: any): string[] => {
+    const names: string[] = [];
+    for (let current = scope; current; current = current.parent) {
+        for (const name of Object.keys(current.bindings)) {
+            if (!names.includes(name)) names.push(name);
         }
-    };
+    }
+    return names;
+};
 
-    const createApiBridge = () => ({
-        ai: {
-            Sprite: (args: { name: string, shape?: Sprite['shape'], x?: number, y?: number }): JavaScriptSprite => {
-                if (!args || !args.name) throw new Error("ai.Sprite() requires an object with a 'name' property.");
-                if (spriteNames.has(args.name)) throw new Error(`A sprite named '${args.name}' already exists.`);
-                
-                const id = nanoid(8);
-                const x = args.x ?? 50;
-                const y = args.y ?? 50;
-                const sprite = new JavaScriptSprite(id, args.name, x, y);
-                
-                const newSprite: Sprite = {
-                    id, name: args.name, shape: args.shape || 'cube', x, y,
-                    vx: 0, vy: 0, rotation: 0, styles: {}, data: {}
-                };
-                steps.push({ type: 'CREATE_SPRITE', sprite: newSprite, duration: 0 });
-                spriteInstances.set(id, sprite);
-                spriteNames.add(args.name);
-                
-                // Return a proxy to intercept method calls and property access
-                return new Proxy(sprite, {
-                    get(target, prop) {
-                        if (prop in target) {
-                            return (target as any)[prop];
-                        }
-
-                        // Intercept method calls
-                        return (methodArgs: any = {}) => {
-                             if (prop === 'say') {
-                                const duration = (methodArgs.duration ?? 2) * 1000;
-                                steps.push({ type: 'SAY', spriteId: id, message: methodArgs.message ?? '', duration: 0 });
-                                steps.push({ type: 'WAIT', duration });
-                                steps.push({ type: 'CLEAR_MESSAGE', spriteId: id, duration: 0 });
-                            } else if (prop === 'go_to') {
-                                const speed = (methodArgs.speed ?? 2) * 1000;
-                                target.x = methodArgs.x;
-                                target.y = methodArgs.y;
-                                steps.push({ type: 'GO_TO', spriteId: id, x: methodArgs.x, y: methodArgs.y, duration: speed });
-                            } else if (prop === 'move_to') {
-                                const speed = (methodArgs.speed ?? 1) * 1000;
-                                target.x = methodArgs.x;
-                                target.y = methodArgs.y;
-                                steps.push({ type: 'MOVE_TO', spriteId: id, x: methodArgs.x, y: methodArgs.y, duration: speed });
-                            } else if (prop === 'rotate_to') {
-                                const speed = (methodArgs.speed ?? 1) * 1000;
-                                target.rotation = methodArgs.angle;
-                                steps.push({ type: 'ROTATE_TO', spriteId: id, angle: methodArgs.angle, duration: speed });
-                            } else if (prop === 'look_at') {
-                                const speed = (methodArgs.speed ?? 0.5) * 1000;
-                                const dx = methodArgs.x - target.x;
-                                const dy = methodArgs.y - target.y;
-                                const angle = Math.atan2(dy, dx) * (180 / Math.PI) + 90;
-                                target.rotation = angle;
-                                steps.push({ type: 'LOOK_AT', spriteId: id, x: methodArgs.x, y: methodArgs.y, duration: speed });
-                            } else if (prop === 'chat') {
-                                steps.push({ type: 'AI_CHAT_REQUEST', spriteId: id, message: methodArgs.message ?? '', duration: 0 });
-                            } else if (prop === 'create_network') {
-                                steps.push({ type: 'SPRITE_CREATE_NETWORK', spriteId: id, duration: 0 });
-                            } else if (prop === 'reward') {
-                                steps.push({ type: 'SPRITE_REWARD', spriteId: id, value: methodArgs.value ?? 1, duration: 0 });
-                            }
-                        }
-                    },
-                    set(target, prop, value) {
-                        // Handle direct property assignment for rendering updates
-                        if (prop === 'x' || prop === 'y' || prop === 'rotation') {
-                            if (typeof value !== 'number') {
-                                customConsole.log(`Warning: Sprite property '${String(prop)}' must be a number.`);
-                                return true;
-                            }
-                            
-                            (target as any)[prop] = value;
-
-                            if (prop === 'x' || prop === 'y') {
-                                // Create an instantaneous move step to update the renderer
-                                steps.push({ type: 'MOVE_TO', spriteId: id, x: target.x, y: target.y, duration: 0 });
-                            } else { // prop === 'rotation'
-                                steps.push({ type: 'ROTATE_TO', spriteId: id, angle: target.rotation, duration: 0 });
-                            }
-                            return true;
-                        }
-                        
-                        // Prevent changing immutable properties or adding new ones
-                        if (prop === 'id' || prop === 'name') {
-                             customConsole.log(`Warning: Cannot change immutable property '${String(prop)}' of sprite '${target.name}'.`);
-                        } else {
-                             customConsole.log(`Warning: Cannot set unknown property '${String(prop)}' on sprite '${target.name}'.`);
-                        }
-                        return true; // Return true to avoid throwing an error in strict mode
-                    }
-                });
-            },
-            wait: (seconds: number) => {
-                if (typeof seconds !== 'number') throw new Error("ai.wait() requires a numeric argument for seconds.");
-                steps.push({ type: 'WAIT', duration: seconds * 1000 });
+// Declarations that only exist for the type checker and are gone once the script is compiled
+const isTypeOnly = (node: any) => node.declare || node.exportKind === 'type' || node.type === 'TSInterfaceDeclaration' || node.type === 'TSTypeAliasDeclaration';
+
+// Statements that make a script a module, so it has to be compiled before it can run. Not import(), which is a call.
+const MODULE_SYNTAX = /^\s*(import\s*[\w{*'"]|export\s)/m;
+
+// Each statement of a debug run first reports its line, its function, and the variables in scope with a getter for each
+const tracePlugin = ({ types: t }: any) => {
+    const inserted = new WeakSet<object>();
+    return {
+        visitor: {
+            Statement(path: any) {
+                if (inserted.has(path.node) || !path.node.loc) return;
+                if (path.listKey !== 'body' && path.listKey !== 'consequent') return;
+                if (path.isImportDeclaration() || isTypeOnly(path.node)) return;
+                // A getter for a variable that isn't initialised yet throws, and the tracer skips it
+                const names = visibleNames(path.scope);
+                const call = t.expressionStatement(t.callExpression(t.identifier(TRACE_FUNCTION), [
+                    t.numericLiteral(path.node.loc.start.line),
+                    t.stringLiteral(scopeNameOf(path)),
+                    t.arrayExpression(names.map(name => t.stringLiteral(name))),
+                    t.arrayExpression(names.map(name => t.arrowFunctionExpression([], t.identifier(name)))),
+                ]));
+                // Printed on the statement's own line, which is where a debug stop thrown from it is reported
+                call.loc = path.node.loc;
+                inserted.add(call);
+                path.insertBefore(call);
             },
         },
-        world: {
-            set_background: (args: { color: string }) => {
-                steps.push({ type: 'SET_BACKGROUND', color: args.color || '#000', duration: 0 });
-            }
-        },
-        sound: {
-            play: (args: { x: number, y: number }) => {
-                 steps.push({ type: 'PLAY_SOUND', x: args.x ?? 50, y: args.y ?? 50, duration: 0 });
-            }
-        },
-        physics: {
-            set_gravity: (args: { strength: number }) => {
-                if (!args || typeof args.strength !== 'number') throw new Error("physics.set_gravity() requires an object with a numeric 'strength' property.");
-                steps.push({ type: 'SET_GRAVITY', strength: args.strength, duration: 0 });
+    };
+};
+
+// The files that are TypeScript and have to be compiled before they can run
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx'];
+const isTypeScript = (path: string) => TYPESCRIPT_EXTENSIONS.some(ext => path.endsWith(ext));
+
+// How long the type check may take once the compiler has loaded
+const TYPE_CHECK_TIMEOUT_MS = 30_000;
+
+interface CompileOptions {
+    trace: boolean;
+    module: boolean;
+    // Set for TypeScript, whose types are stripped; 'tsx' also allows JSX
+    typescript?: 'ts' | 'tsx';
+}
+
+// Rewrites a script with the Babel compiler the page loads: for a debug run, to turn import/export into
+// require() and module.exports for the module loader, and to strip TypeScript's types. Lines are kept where they were.
+// Throws when Babel isn't available or can't parse the script.
+function compileScript(code: string, { trace, module, typescript }: CompileOptions): string {
+    const babel = globalThis.Babel;
+    if (!babel) throw new Error(`${typescript ? 'TypeScript needs' : 'import and export need'} the Babel compiler, which the app loads.`);
+    return babel.transform(code, {
+        presets: typescript ? [['typescript', { isTSX: typescript === 'tsx', allExtensions: true }]] : [],
+        plugins: [...(trace ? [tracePlugin] : []), ...(module ? ['transform-modules-commonjs'] : [])],
+        parserOpts: { allowAwaitOutsideFunction: true, allowReturnOutsideFunction: true },
+        sourceType: module ? 'module' : 'script',
+        retainLines: true,
+    }).code;
+}
+
+const typescriptOf = (path: string): CompileOptions['typescript'] => isTypeScript(path) ? path.slice(path.lastIndexOf('.') + 1) as 'ts' | 'tsx' : undefined;
+
+// Compiles every JavaScript and TypeScript file in the project for the module loader, and the script itself if it needs it.
+// A module that fails to compile only fails the run if it's imported. A TypeScript script that fails to compile throws.
+function compileProject(code: string, fileId: string, language: string, options: ExecutionOptions): CompiledScript {
+    const files = options.files ?? [];
+    const trace = !!options.debug;
+    const modules = files
+        .filter(file => MODULE_EXTENSIONS.some(ext => file.path.endsWith(ext)))
+        .map((file): JavaScriptModule => {
+            const module = { fileId: file.id, path: file.path, source: file.code };
+            try {
+                return { ...module, code: compileScript(file.code, { trace, module: true, typescript: typescriptOf(file.path) }) };
+            } catch (e) {
+                return { ...module, error: e instanceof Error ? e.message : String(e) };
             }
-        },
-    });
+        });
+
+    const module = MODULE_SYNTAX.test(code);
+    const typescript = typescriptOf(`.${language}`);
+    let compiled: string | undefined;
+    if (typescript) {
+        compiled = compileScript(code, { trace, module, typescript });
+    } else if (trace || module) {
+        try {
+            compiled = compileScript(code, { trace, module });
+        } catch {
+            // Run as written: a debug run then doesn't pause, and a module reports the engine's own syntax error
+        }
+    }
+    return { code: compiled, path: files.find(file => file.id === fileId)?.path ?? '', modules };
+}
+
+// A script Babel couldn't compile, reported at the line it stopped on
+function compileProblem(e: unknown, fileId: string, code: string, language: string): Problem {
+    const error = e as Error & { loc?: { line: number } };
+    // Babel follows its message with a code frame, which the Problems panel shows anyway
+    const message = (error?.message ?? String(e)).split('\n')[0].replace(/^unknown( file)?: /, '');
+    return { fileId, line: error?.loc?.line ?? 1, message, code, language };
+}
+
+const typescriptChecker = createScriptWorker<TypeScriptCheckRequest>({
+    create: () => new Worker(new URL('./typescript_worker.ts', import.meta.url), { type: 'module' }),
+});
 
+// JavaScript can't be interrupted from outside, so a script that overruns its time limit loses its worker
+const javascriptWorker = createScriptWorker<JavaScriptRunRequest>({
+    create: () => new Worker(new URL('./javascript_worker.ts', import.meta.url), { type: 'module' }),
+});
+
+export async function executeJavaScriptCode(
+    code: string,
+    fileSystem: FileSystemTree,
+    fileId: string,
+    language: string,
+    options: ExecutionOptions = {}
+): Promise<Omit<ExecutionResult, 'newState'>> {
+    let compiled: CompiledScript;
     try {
-        const bridge = createApiBridge();
-        
-        // Use the AsyncFunction constructor to properly handle top-level await and promises
-        const AsyncFunction = Object.getPrototypeOf(async function(){}).constructor;
-
-        const sandboxedExecutor = new AsyncFunction(
-            'ai', 'world', 'sound', 'physics', 'console',
-            `"use strict";\n${code}`
-        );
-        
-        await sandboxedExecutor(
-            bridge.ai, bridge.world, bridge.sound, bridge.physics, customConsole
-        );
-        logs.push(`Execution successful. ${steps.length} steps generated.`);
+        compiled = compileProject(code, fileId, language, options);
     } catch (e) {
-        const error = e as Error;
-        const message = error.message || "An unknown JavaScript error occurred.";
-        
-        const stackLine = error.stack?.split('\n')[1] || '';
-        const lineMatch = stackLine.match(/<anonymous>:(\d+):(\d+)/);
-        // Adjust for "use strict" and ensure line number is at least 1 for Monaco.
-        const line = lineMatch ? Math.max(1, parseInt(lineMatch[1], 10) - 1) : 1;
-
-        problems.push({ fileId, line, message, code, language: 'js' });
-        logs.push(`Execution failed.`);
+        return { logs: ['Compilation failed.'], problems: [compileProblem(e, fileId, code, language)], steps: [], executedLines: 0 };
+    }
+    // Type errors stop a TypeScript script before it runs, as a compiler would
+    let checkLogs: string[] = [];
+    if (typescriptOf(`.${language}`) && typeof Worker !== 'undefined') {
+        const check = await typescriptChecker.run(
+            { type: 'run', fileId, code, files: options.files ?? [] },
+            { fileId, code, source: { code, language }, timeoutMs: TYPE_CHECK_TIMEOUT_MS, signal: options.signal }
+        );
+        if (check.cancelled) return check;
+        if (check.problems.length > 0) return { ...check, logs: [...check.logs, 'Type check failed.'] };
+        checkLogs = check.logs;
+    }
+    const result = await runScript(code, fileId, language, options, compiled);
+    return checkLogs.length > 0 ? { ...result, logs: [...checkLogs, ...result.logs] } : result;
+}
+
+async function runScript(code: string, fileId: string, language: string, options: ExecutionOptions, compiled: CompiledScript): Promise<Omit<ExecutionResult, 'newState'>> {
+    if (typeof Worker === 'undefined') {
+        // Outside the browser, as for the command-line runner, the script runs in-process with no time limit
+        if (options.signal?.aborted) return cancelledRun();
+        return runJavaScript(code, fileId, options, compiled);
     }
 
-    return { logs, problems, steps, executedLines: code.split('\n').length };
-}
\ No newline at end of file
+    // The signal stays here: it can't be sent to a worker, and cancelling is the client's job. So does the debugger's
+    // callback, which the client calls for the worker. The files go over compiled, as part of the request.
+    const { random, signal, files, debug, ...rest } = options;
+    return javascriptWorker.run({
+        type: 'run', code, fileId, compiled,
+        // The worker carries on the run's random sequence from where the world parser left it
+        options: { ...rest, seed: random?.seed ?? rest.seed, randomState: random?.state, debugBuffer: debug?.buffer },
+    }, { fileId, code, source: { code, language }, timeoutMs: options.timeoutMs ?? DEFAULT_SCRIPT_TIMEOUT_MS, signal, onPause: debug?.onPause });
+}
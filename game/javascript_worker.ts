@@ -0,0 +1,121 @@
+import type { ExecutionOptions, LiveSession } from './types';
+import { CompiledScript, runJavaScript } from './javascript_bridge';
+import { createSeededRandom } from './random';
+import { debugOptions, DisposeLiveRequest, LiveRequest, runLiveRequest, ScriptWorkerResponse } from './script_worker';
+
+// JavaScript runs here rather than in the page, so scripts can't reach its window, document, storage or
+// the API key it was built with. Only the bridge (ai, world, sound, physics and console) is handed to them.
+
+export type JavaScriptRunRequest = {
+    type: 'run', id: number, code: string, fileId: string,
+    compiled: CompiledScript,
+    // Everything but the SeededRandom, which is rebuilt here from its seed and state, and the debugger's
+    // callbacks, which become messages to the page
+    options: Omit<ExecutionOptions, 'random' | 'debug'> & { randomState?: number, debugBuffer?: SharedArrayBuffer },
+};
+
+type JavaScriptWorkerRequest = JavaScriptRunRequest | LiveRequest | DisposeLiveRequest;
+
+// Globals a script could reach the network with, hidden unless the run allows network access
+const NETWORK_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts', 'Worker', 'SharedWorker'];
+
+// Globals that reach the app's storage or its other pages, hidden from every run
+const STORAGE_GLOBALS = ['indexedDB', 'caches', 'navigator', 'BroadcastChannel'];
+
+// Dynamic import() is syntax rather than a global, so scripts that use it are turned away instead.
+// Comments may sit between import and its parenthesis. Since scripts can't compile code at run time
+// (see blockCodeCompilation), the source checked here is all that can run.
+const DYNAMIC_IMPORT = /\bimport\s*(?:\/\*[\s\S]*?\*\/\s*|\/\/[^\n]*\n\s*)*\(/;
+
+// The DOM typings don't describe a worker's global scope, so the two members used here are spelled out
+const scope = self as unknown as {
+    postMessage: (response: ScriptWorkerResponse) => void;
+    onmessage: ((event: MessageEvent<JavaScriptWorkerRequest>) => void) | null;
+};
+// Taken before postMessage is hidden too, so a script can't answer in the worker's name
+const post = scope.postMessage.bind(scope);
+const networkGlobals = new Map(NETWORK_GLOBALS.filter(name => name in self).map(name => [name, (self as any)[name]]));
+let liveSession: LiveSession | null = null;
+
+const setNetworkAccess = (allowed: boolean) => {
+    for (const [name, value] of networkGlobals) {
+        Object.defineProperty(self, name, { value: allowed ? value : undefined, configurable: true, writable: true });
+    }
+};
+
+// Stands in for every way of turning a string into code
+function refuseCompilation(): never {
+    throw new Error('Scripts cannot compile code at run time: eval(), Function() and timers given a string are not available.');
+}
+
+// Takes eval, the Function constructors and string timers away from scripts, for good. The bridge took the
+// constructors it runs scripts with when it loaded.
+function blockCodeCompilation() {
+    const locked = (value: unknown): PropertyDescriptor => ({ value, writable: false, configurable: false });
+    for (const example of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+        Object.defineProperty(Object.getPrototypeOf(example), 'constructor', locked(refuseCompilation));
+    }
+    Object.defineProperty(self, 'eval', locked(refuseCompilation));
+    Object.defineProperty(self, 'Function', locked(refuseCompilation));
+    for (const name of ['setTimeout', 'setInterval'] as const) {
+        const timer = self[name].bind(self);
+        Object.defineProperty(self, name, locked((handler: unknown, ...rest: [number?, ...unknown[]]) =>
+            typeof handler === 'function' ? timer(handler as TimerHandler, ...rest) : refuseCompilation()));
+    }
+}
+
+setNetworkAccess(false);
+for (const name of STORAGE_GLOBALS) {
+    Object.defineProperty(self, name, { value: undefined, configurable: true, writable: true });
+}
+Object.defineProperty(self, 'postMessage', { value: undefined, configurable: true, writable: true });
+blockCodeCompilation();
+
+scope.onmessage = async (event) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'run': {
+            liveSession?.dispose();
+            liveSession = null;
+            const { code, fileId } = request;
+            const { randomState, debugBuffer, ...options } = request.options;
+            const allowNetwork = !!options.allowNetwork;
+            const dynamicImport = allowNetwork ? null : DYNAMIC_IMPORT.exec(code);
+            if (dynamicImport) {
+                const line = code.slice(0, dynamicImport.index).split('\n').length;
+                post({
+                    type: 'result', id: request.id, hasSession: false,
+                    result: {
+                        logs: ['Execution failed.'],
+                        problems: [{ fileId, line, message: 'Scripts can only use import() when network access is allowed in Settings.', code, language: 'js' }],
+                        steps: [],
+                        executedLines: code.split('\n').length,
+                    },
+                });
+                return;
+            }
+            setNetworkAccess(allowNetwork);
+            // A module that uses it fails only if it's imported
+            const modules = request.compiled.modules.map(module => !allowNetwork && module.code && DYNAMIC_IMPORT.test(module.code)
+                ? { ...module, code: undefined, error: 'it uses import(), which needs network access to be allowed in Settings.' }
+                : module);
+            const random = options.seed !== undefined ? createSeededRandom(options.seed, randomState) : undefined;
+            const debug = debugBuffer && debugOptions(request.id, debugBuffer, post);
+            const { session, ...result } = await runJavaScript(
+                code, fileId, { ...options, random, debug }, { ...request.compiled, modules },
+                () => post({ type: 'started', id: request.id })
+            );
+            liveSession = session ?? null;
+            post({ type: 'result', id: request.id, result, hasSession: !!session });
+            break;
+        }
+        case 'live':
+            post({ type: 'started', id: request.id });
+            post({ type: 'live-result', id: request.id, update: await runLiveRequest(liveSession, request) });
+            break;
+        case 'dispose-live':
+            liveSession?.dispose();
+            liveSession = null;
+            break;
+    }
+};
@@ -0,0 +1,54 @@
+import type { GameState, LiveSession, LiveUpdate, Problem } from './types';
+
+export const LIVE_HANDLER_NAMES = ['on_start', 'on_tick', 'on_collision'] as const;
+
+export type LiveHandlerName = typeof LIVE_HANDLER_NAMES[number];
+export type LiveHandlers = Partial<Record<LiveHandlerName, (...args: any[]) => unknown>>;
+
+interface LiveSessionConfig {
+    handlers: LiveHandlers;
+    // Copies positions from the authoritative game state into the script-side sprite objects
+    sync: (state: GameState) => void;
+    // Turns a sprite or prop id into the object the script should receive
+    resolve: (id: string, state: GameState) => unknown;
+    // Empties the steps and logs the bridge has buffered since the last call
+    drain: () => { steps: LiveUpdate['steps']; logs: string[] };
+    toProblem: (error: unknown) => Problem;
+    dispose?: () => void;
+}
+
+export const hasLiveHandlers = (handlers: LiveHandlers) =>
+    LIVE_HANDLER_NAMES.some(name => typeof handlers[name] === 'function');
+
+// Wraps a script's event handlers so the runner can drive them against the current GameState.
+// The same bridge objects used for replay runs keep buffering steps; each call drains them.
+export function createLiveSession(config: LiveSessionConfig): LiveSession {
+    const { handlers, sync, resolve, drain, toProblem } = config;
+    let disposed = false;
+
+    const invoke = async (state: GameState, name: LiveHandlerName, args: () => unknown[]): Promise<LiveUpdate> => {
+        const handler = handlers[name];
+        const problems: Problem[] = [];
+        if (!disposed && typeof handler === 'function') {
+            sync(state);
+            try {
+                const result: any = await handler(...args());
+                if (result && typeof result.destroy === 'function') result.destroy();
+            } catch (e) {
+                problems.push(toProblem(e));
+            }
+        }
+        return { ...drain(), problems };
+    };
+
+    return {
+        start: (state) => invoke(state, 'on_start', () => []),
+        tick: (state, dt) => invoke(state, 'on_tick', () => [dt]),
+        collision: (state, aId, bId) => invoke(state, 'on_collision', () => [resolve(aId, state), resolve(bId, state)]),
+        dispose: () => {
+            if (disposed) return;
+            disposed = true;
+            config.dispose?.();
+        },
+    };
+}
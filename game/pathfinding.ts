@@ -0,0 +1,117 @@
+import type { Prop } from './types';
+import { boundsOverlap, propBounds, spriteBounds, sweepMove } from './collision';
+
+export type Waypoint = { x: number; y: number };
+
+// The world (0-100 on both axes) is searched on a grid of cells this many % wide
+const CELL_SIZE = 2;
+const GRID_SIZE = 100 / CELL_SIZE;
+
+const NEIGHBOURS = [
+    [1, 0], [-1, 0], [0, 1], [0, -1],
+    [1, 1], [1, -1], [-1, 1], [-1, -1],
+];
+
+const toCell = (value: number) => Math.min(GRID_SIZE - 1, Math.max(0, Math.floor(value / CELL_SIZE)));
+const cellCentre = (cell: number) => cell * CELL_SIZE + CELL_SIZE / 2;
+
+const hasLineOfSight = (from: Waypoint, to: Waypoint, props: Prop[]) => !sweepMove(from, to, props).blockedBy;
+
+// Finds a route for a sprite from `from` to `to` that keeps its bounds clear of every prop.
+// Returns the waypoints after the start, ending exactly at `to`, or null when the target can't be reached.
+export function findPath(from: Waypoint, to: Waypoint, props: Prop[]): Waypoint[] | null {
+    // A sprite that starts inside a prop is allowed to walk out of it
+    const solid = props.filter(prop => !boundsOverlap(spriteBounds(from), propBounds(prop)));
+    if (solid.some(prop => boundsOverlap(spriteBounds(to), propBounds(prop)))) return null;
+    if (hasLineOfSight(from, to, solid)) return [{ x: to.x, y: to.y }];
+
+    const blocked = new Uint8Array(GRID_SIZE * GRID_SIZE);
+    for (let cy = 0; cy < GRID_SIZE; cy++) {
+        for (let cx = 0; cx < GRID_SIZE; cx++) {
+            const bounds = spriteBounds({ x: cellCentre(cx), y: cellCentre(cy) });
+            if (solid.some(prop => boundsOverlap(bounds, propBounds(prop)))) blocked[cy * GRID_SIZE + cx] = 1;
+        }
+    }
+
+    const start = toCell(from.y) * GRID_SIZE + toCell(from.x);
+    const goal = toCell(to.y) * GRID_SIZE + toCell(to.x);
+    blocked[start] = 0;
+    blocked[goal] = 0;
+
+    const heuristic = (cell: number) =>
+        Math.hypot((cell % GRID_SIZE) - (goal % GRID_SIZE), Math.floor(cell / GRID_SIZE) - Math.floor(goal / GRID_SIZE));
+
+    const cost = new Float64Array(GRID_SIZE * GRID_SIZE).fill(Infinity);
+    const cameFrom = new Int32Array(GRID_SIZE * GRID_SIZE).fill(-1);
+    const closed = new Uint8Array(GRID_SIZE * GRID_SIZE);
+    // The grid is small enough that a linear scan of the open list is cheaper than maintaining a heap
+    const open: number[] = [start];
+    cost[start] = 0;
+
+    while (open.length > 0) {
+        let best = 0;
+        for (let i = 1; i < open.length; i++) {
+            if (cost[open[i]] + heuristic(open[i]) < cost[open[best]] + heuristic(open[best])) best = i;
+        }
+        const current = open[best];
+        open.splice(best, 1);
+        if (current === goal) break;
+        if (closed[current]) continue;
+        closed[current] = 1;
+
+        const cx = current % GRID_SIZE;
+        const cy = Math.floor(current / GRID_SIZE);
+        for (const [dx, dy] of NEIGHBOURS) {
+            const nx = cx + dx;
+            const ny = cy + dy;
+            if (nx < 0 || ny < 0 || nx >= GRID_SIZE || ny >= GRID_SIZE) continue;
+            const next = ny * GRID_SIZE + nx;
+            if (blocked[next] || closed[next]) continue;
+            // Don't cut diagonally past the corner of a prop
+            if (dx !== 0 && dy !== 0 && (blocked[cy * GRID_SIZE + nx] || blocked[ny * GRID_SIZE + cx])) continue;
+
+            const nextCost = cost[current] + Math.hypot(dx, dy);
+            if (nextCost < cost[next]) {
+                cost[next] = nextCost;
+                cameFrom[next] = current;
+                open.push(next);
+            }
+        }
+    }
+
+    if (goal !== start && cameFrom[goal] === -1) return null;
+
+    const cells: Waypoint[] = [];
+    for (let cell = cameFrom[goal]; cell !== -1 && cell !== start; cell = cameFrom[cell]) {
+        cells.unshift({ x: cellCentre(cell % GRID_SIZE), y: cellCentre(Math.floor(cell / GRID_SIZE)) });
+    }
+    cells.push({ x: to.x, y: to.y });
+
+    // Drop every waypoint the sprite can skip by walking straight to a later one
+    const route: Waypoint[] = [];
+    let position = from;
+    let index = 0;
+    while (index < cells.length) {
+        let furthest = index;
+        for (let j = cells.length - 1; j > index; j--) {
+            if (hasLineOfSight(position, cells[j], solid)) {
+                furthest = j;
+                break;
+            }
+        }
+        route.push(cells[furthest]);
+        position = cells[furthest];
+        index = furthest + 1;
+    }
+    return route;
+}
+
+const formatPoint = ({ x, y }: Waypoint) => `(${Math.round(x * 10) / 10}, ${Math.round(y * 10) / 10})`;
+
+// The route used by sprite.go_to(); an unreachable target is a script error so it surfaces as a Problem
+export function routeTo(from: Waypoint, to: Waypoint, props: Prop[]): Waypoint[] {
+    if (typeof to.x !== 'number' || typeof to.y !== 'number') throw new Error("go_to() requires numeric 'x' and 'y' arguments.");
+    const path = findPath(from, to, props);
+    if (!path) throw new Error(`go_to() target ${formatPoint(to)} is unreachable from ${formatPoint(from)}: it is blocked by props.`);
+    return path;
+}
@@ -0,0 +1,59 @@
+import type { GameState, Sprite } from './types';
+import { pushOutOfProps, SPRITE_HALF_SIZE } from './collision';
+
+// The simulation always advances in steps of this many seconds, however fast frames arrive
+export const FIXED_TIMESTEP = 1 / 60;
+// Never run more than this many steps per frame, so a stalled tab doesn't spiral trying to catch up
+const MAX_STEPS_PER_FRAME = 5;
+// set_gravity() strengths were tuned when gravity was added to vy once per 60 fps frame;
+// scaling keeps existing scripts falling at the same rate now that velocities are in % per second
+const GRAVITY_SCALE = 60 * 60;
+
+export const DEFAULT_MASS = 1;
+export const DEFAULT_RESTITUTION = 0.2;
+
+// Instantaneous push: the sprite's velocity changes by force / mass
+export function applyImpulse(sprite: Sprite, fx: number, fy: number) {
+    const mass = sprite.mass ?? DEFAULT_MASS;
+    sprite.vx += fx / mass;
+    sprite.vy += fy / mass;
+}
+
+const bounceOffWorldEdges = (sprite: Sprite, restitution: number) => {
+    const min = SPRITE_HALF_SIZE;
+    const max = 100 - SPRITE_HALF_SIZE;
+    if (sprite.x < min) { sprite.x = min; sprite.vx = Math.abs(sprite.vx) * restitution; }
+    if (sprite.x > max) { sprite.x = max; sprite.vx = -Math.abs(sprite.vx) * restitution; }
+    if (sprite.y < min) { sprite.y = min; sprite.vy = Math.abs(sprite.vy) * restitution; }
+    if (sprite.y > max) { sprite.y = max; sprite.vy = -Math.abs(sprite.vy) * restitution; }
+};
+
+// Advances every free-moving sprite by one fixed timestep (semi-implicit Euler)
+export function stepPhysics(state: GameState, dt = FIXED_TIMESTEP) {
+    const { gravity, friction } = state.physics;
+    const gravityAcceleration = gravity * GRAVITY_SCALE;
+    const damping = Math.max(0, 1 - friction * dt);
+
+    for (const sprite of state.sprites) {
+        // A sprite that is being animated follows its tween instead
+        if (sprite.tween) continue;
+        if (sprite.vx === 0 && sprite.vy === 0 && gravityAcceleration === 0) continue;
+
+        const restitution = sprite.restitution ?? DEFAULT_RESTITUTION;
+        sprite.vy += gravityAcceleration * dt;
+        sprite.vx *= damping;
+        sprite.vy *= damping;
+        sprite.x += sprite.vx * dt;
+        sprite.y += sprite.vy * dt;
+
+        pushOutOfProps(sprite, state.props, restitution);
+        bounceOffWorldEdges(sprite, restitution);
+    }
+}
+
+// How many fixed steps fit in the real time elapsed, and the time left over to carry into the next frame
+export function countPhysicsSteps(elapsedSeconds: number): { steps: number; leftover: number } {
+    const capped = Math.min(elapsedSeconds, FIXED_TIMESTEP * MAX_STEPS_PER_FRAME);
+    const steps = Math.floor(capped / FIXED_TIMESTEP);
+    return { steps, leftover: capped - steps * FIXED_TIMESTEP };
+}
@@ -0,0 +1,47 @@
+import { API_LIBRARY_NAMES, API_TYPES, ApiMethod, isOptionalParam, libraryMethods, SPRITE_API } from './api_schema';
+
+// A method as TypeScript sees it: one that takes its argument as it is declares it, the rest take an options object
+function declareMethod(name: string, method: ApiMethod): string {
+    const fields = method.params.map(param => `${param.name}${isOptionalParam(param) ? '?' : ''}: ${API_TYPES[param.type].ts}`);
+    let parameters = '';
+    if (method.positional) parameters = fields.join(', ');
+    else if (fields.length > 0) parameters = `args${method.params.every(isOptionalParam) ? '?' : ''}: { ${fields.join('; ')} }`;
+    return `${name}(${parameters}): ${method.returns ? API_TYPES[method.returns].ts : 'void'};`;
+}
+
+const declareMethods = (methods: Record<string, ApiMethod>) =>
+    Object.entries(methods).map(([name, method]) => `    ${declareMethod(name, method)}`).join('\n');
+
+// The bridge scripts are handed (see api_bindings.ts), as TypeScript sees it when it type-checks a .ts or .tsx
+// script. It's generated from the API schema, so it can't drift from what the bridge accepts.
+export const PLAYGROUND_API_DECLARATION = `
+type Easing = ${API_TYPES.easing.values!.map(value => `'${value}'`).join(' | ')};
+type SpriteShape = ${API_TYPES.sprite_shape.values!.map(value => `'${value}'`).join(' | ')};
+type PropShape = 'wall' | 'rock';
+type Point = { x: number; y: number } | [number, number];
+
+interface PropInfo {
+    readonly id: string;
+    readonly shape: PropShape;
+    readonly x: number;
+    readonly y: number;
+    readonly width: number;
+    readonly height: number;
+}
+
+interface Sprite {
+    readonly id: string;
+    readonly name: string;
+    readonly shape: SpriteShape;
+    x: number;
+    y: number;
+    rotation: number;
+${declareMethods(SPRITE_API)}
+}
+
+${API_LIBRARY_NAMES.map(library => `declare const ${library}: {\n${declareMethods(libraryMethods(library))}\n};`).join('\n\n')}
+
+declare const console: {
+    log(...args: unknown[]): void;
+};
+`;
@@ -0,0 +1,92 @@
+import type { FileSystemTree, FileSystemNode } from './types';
+import { toSeed } from './random';
+import type { PythonEngineName } from './python_engine';
+
+// A project pins down what Run does with a playground.json at its root, so it no longer depends on the open tab:
+//
+//   {
+//     "entry": "main.py",
+//     "world": "world.html",
+//     "pythonEngine": "pyodide",
+//     "seed": 42,
+//     "configurations": [{ "name": "Maze", "world": "levels/maze.html" }]
+//   }
+//
+// The top-level values make the "Default" configuration; named ones take them for anything they leave out.
+
+export const MANIFEST_NAME = 'playground.json';
+
+export interface RunConfiguration {
+    name: string;
+    // Paths from the project root
+    entry: string;
+    world?: string;
+    pythonEngine?: PythonEngineName;
+    seed?: number;
+}
+
+const PYTHON_ENGINES: PythonEngineName[] = ['pyodide', 'pyscript'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The manifest at the project root, if there is one
+export const findManifest = (fileSystem: FileSystemTree): Extract<FileSystemNode, { type: 'file' }> | undefined => {
+    const root = fileSystem.root;
+    if (root?.type !== 'folder') return undefined;
+    const id = root.children.find(child => fileSystem[child]?.name === MANIFEST_NAME && fileSystem[child].status !== 'deleted');
+    const node = id ? fileSystem[id] : undefined;
+    return node?.type === 'file' ? node : undefined;
+};
+
+function readConfiguration(data: Record<string, unknown>, where: string, defaults: Partial<RunConfiguration>): Partial<RunConfiguration> {
+    const configuration: Partial<RunConfiguration> = { ...defaults };
+    for (const key of ['name', 'entry', 'world'] as const) {
+        if (data[key] === undefined) continue;
+        if (typeof data[key] !== 'string' || !(data[key] as string).trim()) throw new Error(`"${key}" ${where} must be a non-empty string.`);
+        configuration[key] = (data[key] as string).trim();
+    }
+    if (data.pythonEngine !== undefined) {
+        if (!PYTHON_ENGINES.includes(data.pythonEngine as PythonEngineName)) throw new Error(`"pythonEngine" ${where} must be ${PYTHON_ENGINES.map(engine => `"${engine}"`).join(' or ')}.`);
+        configuration.pythonEngine = data.pythonEngine as PythonEngineName;
+    }
+    if (data.seed !== undefined) configuration.seed = toSeed(data.seed, `"seed" ${where}`);
+    return configuration;
+}
+
+// Reads playground.json into its run configurations, Default first, explaining what is wrong with it if anything is
+export function parseManifest(text: string): RunConfiguration[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new Error(`${MANIFEST_NAME} is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (!isObject(data)) throw new Error(`${MANIFEST_NAME} must contain an object.`);
+
+    const defaults = readConfiguration(data, `in ${MANIFEST_NAME}`, {});
+    const configurations: Partial<RunConfiguration>[] = defaults.entry ? [{ ...defaults, name: defaults.name ?? 'Default' }] : [];
+    if (data.configurations !== undefined) {
+        if (!Array.isArray(data.configurations)) throw new Error(`"configurations" in ${MANIFEST_NAME} must be a list.`);
+        data.configurations.forEach((entry, index) => {
+            const where = `in configuration ${index + 1} of ${MANIFEST_NAME}`;
+            if (!isObject(entry)) throw new Error(`Configuration ${index + 1} in ${MANIFEST_NAME} must be an object.`);
+            if (entry.name === undefined) throw new Error(`Configuration ${index + 1} in ${MANIFEST_NAME} needs a "name".`);
+            configurations.push(readConfiguration(entry, where, { ...defaults, name: undefined }));
+        });
+    }
+
+    if (configurations.length === 0) throw new Error(`${MANIFEST_NAME} needs an "entry" file or at least one configuration.`);
+    const names = new Set<string>();
+    for (const configuration of configurations) {
+        if (!configuration.entry) throw new Error(`Configuration "${configuration.name}" in ${MANIFEST_NAME} has no "entry" file.`);
+        if (names.has(configuration.name!)) throw new Error(`There are two configurations named "${configuration.name}" in ${MANIFEST_NAME}.`);
+        names.add(configuration.name!);
+    }
+    return configurations as RunConfiguration[];
+}
+
+// The line of playground.json that mentions `value`, so a problem with it can point there
+export function manifestLine(text: string, value: string): number {
+    const index = text.split('\n').findIndex(line => line.includes(JSON.stringify(value)));
+    return index + 1 || 1;
+}
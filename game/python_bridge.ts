@@ -0,0 +1,344 @@
+import { ExecutionResult, Problem, ExecutionStep, ExecutionOptions, SourceLocation } from './types';
+import { createLiveSession, hasLiveHandlers, LIVE_HANDLER_NAMES, LiveHandlers } from './live_session';
+import { describeProp } from './world_model';
+import { API_LIBRARY_NAMES } from './api_schema';
+import { createApiBindings } from './api_bindings';
+import { createSeededRandom, randomSeed } from './random';
+import { createLinePauser, DebugLine, describeTraceValue } from './debugger';
+import { dirname } from './workspace';
+
+// A Python object held from JavaScript, which must be destroyed once JavaScript is done with it
+export interface PyProxy {
+    destroy(): void;
+}
+
+// A Python dict, such as a namespace. Its values come back as whatever Python holds there.
+export interface PyDict extends PyProxy {
+    get(key: string): any;
+    set(key: string, value: unknown): void;
+    has(key: string): boolean;
+    delete(key: string): void;
+    toJs(options: { dict_converter: (entries: Iterable<[string, unknown]>) => unknown }): any;
+}
+
+// The part of Pyodide's API the playground uses, whether Pyodide runs in the browser's worker or in Node
+export interface PyodideInterface {
+    version: string;
+    // The script's namespace: a dict, though Pyodide's own typings only promise a PyProxy
+    globals: PyProxy;
+    runPython(code: string, options?: { globals?: PyProxy, filename?: string }): unknown;
+    // A module, whose attributes are called from JavaScript
+    pyimport(name: string): any;
+    toPy(value: unknown, options?: { depth?: number }): PyProxy;
+    setStdout(options: { batched: (line: string) => void }): void;
+    setInterruptBuffer(buffer: Int8Array): void;
+}
+
+// Globals the playground injects, which the debugger doesn't list as the script's variables
+const BRIDGE_NAMES = [...API_LIBRARY_NAMES, 'print'];
+
+// Where the project's files are written in Pyodide's file system, so scripts can import one another.
+// The script being run is compiled as "<exec>"; modules it imports have their real paths under here.
+const WORKSPACE_DIR = '/workspace';
+
+// Transpiled code marks each line with `# src: N`, the line of the original source it came from. Lines without
+// a marker belong to the nearest marked line above them; lines before the first marker to none.
+export function transpiledSourceLines(python: string): (number | undefined)[] {
+    let current: number | undefined;
+    return python.split('\n').map(line => {
+        const marker = line.match(/#\s*src:\s*(\d+)/);
+        if (marker) current = parseInt(marker[1], 10);
+        return current;
+    });
+}
+
+// Runs a script in a loaded Pyodide with the ai, world, sound and physics bridge installed.
+// The same code runs inside the browser's Python worker and in-process for the command-line runner.
+// `onStart` is called once the bridge is set up, right before the script itself starts.
+export async function runInPyodide(
+    pyodide: PyodideInterface,
+    code: string,
+    fileId: string,
+    originalSource?: { code: string, language: string },
+    options: ExecutionOptions = {},
+    onStart?: () => void
+): Promise<Omit<ExecutionResult, 'newState'>> {
+    const logs: string[] = [];
+    const problems: Problem[] = [];
+    const steps: ExecutionStep[] = [];
+    let session: ExecutionResult['session'];
+
+    const sourceLines = originalSource ? transpiledSourceLines(code) : [];
+    const toSourceLine = (pythonLine: number): number =>
+        sourceLines[Math.min(pythonLine, sourceLines.length) - 1] ?? pythonLine;
+
+    const modulesByPath = new Map((options.files ?? []).map(file => [`${WORKSPACE_DIR}/${file.path}`, file]));
+
+    // The project file and line a Python frame belongs to, or undefined for code outside the project
+    const toLocation = (filename: string, line: number): SourceLocation | undefined => {
+        // If this was a transpiled execution, the line is mapped back to the original source
+        if (filename === '<exec>') return { fileId, line: toSourceLine(line) };
+        const file = modulesByPath.get(filename);
+        return file ? { fileId: file.id, line } : undefined;
+    };
+
+    const toProblem = (e: any): Problem => {
+        const errorMessage = e?.message || "An unknown Python error occurred.";
+        // The innermost frame of the project's code is the last one the traceback lists
+        const frames = [...errorMessage.matchAll(/File "([^"]+)", line (\d+)/g)]
+            .map(match => toLocation(match[1], parseInt(match[2], 10)))
+            .filter((location): location is SourceLocation => !!location);
+        const location = frames[frames.length - 1] ?? { fileId, line: 1 };
+
+        if (location.fileId !== fileId) {
+            const file = [...modulesByPath.values()].find(candidate => candidate.id === location.fileId);
+            return { ...location, message: errorMessage, code: file?.code ?? '', language: 'py' };
+        }
+        const codeForProblem = originalSource ? originalSource.code : code;
+        const langForProblem = originalSource ? originalSource.language : 'py';
+
+        return { fileId, line: location.line, message: errorMessage, code: codeForProblem, language: langForProblem };
+    };
+    
+    // The script's namespace, which Pyodide's typings only call a PyProxy
+    const globals = pyodide.globals as PyDict;
+    try {
+        let worldProps = options.props ?? [];
+        const rng = options.random ?? createSeededRandom(options.seed ?? randomSeed());
+
+        // The interpreter is shared between runs, so its random module is reseeded every time
+        const seedPythonRandom = (seed: number) => {
+            const random = pyodide.pyimport('random');
+            random.seed(seed);
+            random.destroy();
+        };
+
+        // Finds the file and line of the user's code that is calling into the bridge right now
+        const frameHelpers = pyodide.toPy({}) as PyDict;
+        pyodide.runPython(`
+import sys
+
+def is_script(filename):
+    return filename == '<exec>' or filename.startswith('${WORKSPACE_DIR}/')
+
+def script_frame():
+    frame = sys._getframe(1)
+    while frame is not None and not is_script(frame.f_code.co_filename):
+        frame = frame.f_back
+    return None if frame is None else (frame.f_code.co_filename, frame.f_lineno)
+`, { globals: frameHelpers, filename: '<playground>' });
+        const scriptFrame: () => any = frameHelpers.get('script_frame');
+
+        // Runs the script as runPythonAsync would, but a KeyboardInterrupt (the interrupt buffer, or the debugger
+        // stopping the run) leaves as an ordinary error: asyncio lets it escape the event loop, where it would
+        // be thrown at the worker instead of ending the run. The script's traceback is kept for the problem.
+        pyodide.runPython(`
+from pyodide.code import eval_code_async
+
+class ScriptInterrupted(Exception):
+    pass
+
+async def run_script(code, namespace):
+    try:
+        await eval_code_async(code, namespace)
+    except KeyboardInterrupt as interrupt:
+        raise ScriptInterrupted('KeyboardInterrupt').with_traceback(interrupt.__traceback__) from None
+`, { globals: frameHelpers, filename: '<playground>' });
+        const runScript: (code: string, namespace: PyDict) => Promise<unknown> = frameHelpers.get('run_script');
+
+        // Writes the project into the file system and puts the script's folder first on the import path.
+        // Modules a previous run imported are forgotten, so edits to them are picked up.
+        pyodide.runPython(`
+import builtins, importlib, os, shutil
+
+def mount_workspace(files, script_dir):
+    for name, module in list(sys.modules.items()):
+        if (getattr(module, '__file__', None) or '').startswith('${WORKSPACE_DIR}/'):
+            del sys.modules[name]
+    shutil.rmtree('${WORKSPACE_DIR}', ignore_errors=True)
+    for path, code in files:
+        full_path = os.path.join('${WORKSPACE_DIR}', path)
+        os.makedirs(os.path.dirname(full_path), exist_ok=True)
+        with open(full_path, 'w') as file:
+            file.write(code)
+    sys.path[:] = [entry for entry in sys.path if not entry.startswith('${WORKSPACE_DIR}')]
+    sys.path.insert(0, os.path.join('${WORKSPACE_DIR}', script_dir))
+    importlib.invalidate_caches()
+
+# Imported modules see the bridge as built-ins, as the script sees it as globals
+def share_with_modules(namespace, names):
+    for name in names:
+        setattr(builtins, name, namespace[name])
+`, { globals: frameHelpers, filename: '<playground>' });
+        const mountWorkspace: (files: PyProxy, scriptDir: string) => void = frameHelpers.get('mount_workspace');
+        const shareWithModules: (namespace: PyDict, names: PyProxy) => void = frameHelpers.get('share_with_modules');
+
+        // For debug runs: a sys.settrace hook that offers each line of the script to the debugger, which may pause
+        // there, with a function that reads its locals. Values are shown with repr(), except JS objects such as
+        // sprites, which are described on this side. Stopping raises KeyboardInterrupt, which scripts don't catch.
+        pyodide.runPython(`
+from pyodide.ffi import JsProxy
+
+def start_trace(on_line, describe_js, hidden):
+    hidden = set(hidden)
+
+    def describe(value):
+        if isinstance(value, JsProxy):
+            return describe_js(value)
+        try:
+            text = repr(value)
+        except Exception:
+            text = '<unprintable>'
+        return text if len(text) <= 80 else text[:77] + '...'
+
+    def variables_of(frame):
+        variables = {}
+        for name, value in frame.f_locals.items():
+            if name.startswith('__') or name in hidden or isinstance(value, (type, type(sys))):
+                continue
+            if callable(value) and not isinstance(value, JsProxy):
+                continue
+            variables[name] = describe(value)
+        return variables
+
+    def tracer(frame, event, arg):
+        if not is_script(frame.f_code.co_filename):
+            return None
+        if event == 'line':
+            depth = 0
+            caller = frame.f_back
+            while caller is not None:
+                if is_script(caller.f_code.co_filename):
+                    depth += 1
+                caller = caller.f_back
+            if on_line(frame.f_code.co_filename, frame.f_lineno, depth, frame.f_code.co_name, lambda: variables_of(frame)):
+                sys.settrace(None)
+                raise KeyboardInterrupt
+        return tracer
+
+    sys.settrace(tracer)
+
+def stop_trace():
+    sys.settrace(None)
+`, { globals: frameHelpers, filename: '<playground>' });
+        const startTrace: (onLine: (filename: string, line: number, depth: number, scope: string, variables: () => PyDict) => boolean, describe: typeof describeTraceValue, hidden: string[]) => void = frameHelpers.get('start_trace');
+        const stopTrace: () => void = frameHelpers.get('stop_trace');
+
+        // Returns true once the page has stopped the run
+        let reportedSteps = 0;
+        const pauseAt = options.debug && createLinePauser(options.debug, () => {
+            const newSteps = steps.slice(reportedSteps);
+            reportedSteps = steps.length;
+            return newSteps;
+        });
+        const onLine = (filename: string, line: number, depth: number, scope: string, variables: () => PyDict): boolean => {
+            const location = toLocation(filename, line);
+            if (!location || !pauseAt) return false;
+            const readVariables: DebugLine['variables'] = () => {
+                const dict = variables();
+                const described = dict.toJs({ dict_converter: Object.fromEntries });
+                dict.destroy();
+                return described;
+            };
+            return pauseAt({ ...location, depth, scope, variables: readVariables });
+        };
+
+        // Every step remembers the line that produced it
+        const pushStep = (step: ExecutionStep) => {
+            const frame = scriptFrame();
+            const [filename, line] = frame ? frame.toJs() : [];
+            frame?.destroy();
+            const source = filename ? toLocation(filename, line) : undefined;
+            steps.push(source ? { ...step, source } : step);
+        };
+
+        const bridge = createApiBindings({
+            pushStep,
+            rng,
+            props: () => worldProps,
+            // Keyword arguments, tuples and dicts arrive as Python objects
+            fromScript: (value: any) => typeof value?.toJs === 'function' ? value.toJs({ dict_converter: Object.fromEntries }) : value,
+            // Lists go back to Python as real lists so scripts can sort, slice and len() them
+            toList: (items) => pyodide.toPy(items, { depth: 1 }),
+            onSeed: seedPythonRandom,
+        });
+        const spriteInstances = bridge.sprites;
+
+        for (const [name, library] of Object.entries(bridge.libraries)) globals.set(name, library);
+        globals.set('print', (...args: any[]) => {
+            const message = args.map(a => a?.toString() ?? 'None').join(' ');
+            logs.push(message);
+        });
+        // print() stays out: the standard library prints through it, e.g. to format tracebacks.
+        // Modules print to standard output instead, which this run collects.
+        const bridgeNames = pyodide.toPy(BRIDGE_NAMES.filter(name => name !== 'print'));
+        shareWithModules(globals, bridgeNames);
+        bridgeNames.destroy();
+        pyodide.setStdout({ batched: (line: string) => logs.push(line) });
+
+        const mainFile = options.files?.find(file => file.id === fileId);
+        const workspace = pyodide.toPy((options.files ?? []).map(file => [file.path, file.code]));
+        mountWorkspace(workspace, mainFile ? dirname(mainFile.path) : '');
+        workspace.destroy();
+
+        // Handlers left over from a previous run live on in the shared interpreter's globals
+        for (const name of LIVE_HANDLER_NAMES) {
+            if (globals.has(name)) globals.delete(name);
+        }
+
+        seedPythonRandom(rng.seed);
+        onStart?.();
+        if (pauseAt) startTrace(onLine, describeTraceValue, BRIDGE_NAMES);
+        try {
+            await runScript(code, globals);
+        } finally {
+            // Live handlers run later and don't pause
+            if (pauseAt) stopTrace();
+        }
+        logs.push(`Execution successful. ${steps.length} steps generated.`);
+
+        if (options.mode === 'live') {
+            const handlers: LiveHandlers = {};
+            for (const name of LIVE_HANDLER_NAMES) {
+                const handler = globals.get(name);
+                if (typeof handler === 'function') handlers[name] = handler;
+            }
+
+            if (hasLiveHandlers(handlers)) {
+                session = createLiveSession({
+                    handlers,
+                    sync: (state) => {
+                        worldProps = state.props;
+                        for (const spriteState of state.sprites) {
+                            const sprite = spriteInstances.get(spriteState.id);
+                            if (!sprite) continue;
+                            sprite.x = spriteState.x;
+                            sprite.y = spriteState.y;
+                            sprite.rotation = spriteState.rotation;
+                        }
+                    },
+                    resolve: (id, state) => {
+                        const prop = state.props.find(p => p.id === id);
+                        return spriteInstances.get(id) ?? (prop ? describeProp(prop) : null);
+                    },
+                    drain: () => ({ steps: steps.splice(0), logs: logs.splice(0) }),
+                    toProblem,
+                    dispose: () => {
+                        Object.values(handlers).forEach((handler: any) => handler?.destroy?.());
+                    },
+                });
+                logs.push(`Live mode: registered ${Object.keys(handlers).join(', ')}.`);
+            }
+        }
+
+    } catch (e: any) {
+        problems.push(toProblem(e));
+        logs.push(`Execution failed.`);
+        if (originalSource) {
+            logs.push(`--- Transpiled Python Code (for debugging) ---\n${code}\n--------------------`);
+        }
+    }
+
+    // A live session keeps appending to these buffers, so hand the caller what has been collected so far
+    return { logs: logs.splice(0), problems, steps: steps.splice(0), executedLines: code.split('\n').length, session };
+}
\ No newline at end of file
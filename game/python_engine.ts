@@ -1,274 +1,101 @@
-
-
-import { Sprite, ExecutionResult, Problem, ExecutionStep, FileSystemTree } from './types';
-import { nanoid } from 'nanoid';
-
-let pyodideDirectPromise: Promise<any> | null = null;
-let pyodideViaPyScriptPromise: Promise<any> | null = null;
-
-function loadScript(url: string, id: string, type?: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-        if (document.getElementById(id)) {
-            resolve();
-            return;
-        }
-        const script = document.createElement('script');
-        script.src = url;
-        script.id = id;
-        if (type) {
-            script.type = type;
-        }
-        script.crossOrigin = 'anonymous';
-        script.onload = () => resolve();
-        script.onerror = () => reject(new Error(`Failed to load script: ${url}`));
-        document.head.appendChild(script);
-    });
+import type { ExecutionResult, FileSystemTree, ExecutionOptions, RuntimeStatus } from './types';
+import type { PythonRunRequest } from './python_worker';
+import { PyodideInterface, runInPyodide } from './python_bridge';
+import { cancelledRun, createScriptWorker, DEFAULT_SCRIPT_TIMEOUT_MS, failedRun } from './script_worker';
+
+// In the browser Python runs in a worker (see python_worker.ts). A running script is interrupted through a shared
+// byte, which needs the page to be cross-origin isolated: the dev server and vercel.json send the COOP and COEP
+// headers for it. Served without them, a script that has to be stopped loses its worker and Pyodide is loaded again.
+
+// The value Pyodide's interrupt buffer takes for SIGINT, which raises KeyboardInterrupt in the script
+const SIGINT = 2;
+
+export type PythonEngineName = 'pyodide' | 'pyscript';
+
+// Where each engine loads Pyodide from unless ExecutionOptions.pythonRuntimeUrl says otherwise
+export const PYODIDE_URLS: Record<PythonEngineName, string> = {
+    pyodide: 'https://cdn.jsdelivr.net/pyodide/v0.26.1/full/',
+    // PyScript boots from the page, which a worker doesn't have, so this engine loads
+    // the Pyodide release PyScript 2024.1.1 runs on, from the same CDN it uses
+    pyscript: 'https://cdn.jsdelivr.net/pyodide/v0.25.0/full/',
+};
+
+// The folder Pyodide is loaded from, made absolute against the page since the worker's own URL differs
+export function pyodideIndexUrl(engine: PythonEngineName, runtimeUrl = ''): string {
+    const url = runtimeUrl.trim() || PYODIDE_URLS[engine];
+    const absolute = new URL(url, globalThis.location?.href).href;
+    return absolute.endsWith('/') ? absolute : `${absolute}/`;
 }
 
-async function getPyodideDirectly() {
-    if (pyodideDirectPromise) return pyodideDirectPromise;
-
-    pyodideDirectPromise = (async () => {
-        // Temporarily disable the AMD loader `define` function to prevent conflicts
-        // between Monaco's loader and Pyodide.
-        // @ts-ignore
-        const holdDefine = window.define;
-        // @ts-ignore
-        window.define = undefined; // Undefine it before the try block to cover all async operations.
-
-        try {
-            await loadScript('https://cdn.jsdelivr.net/pyodide/v0.26.1/full/pyodide.js', 'pyodide-script');
+let runtimeStatus: RuntimeStatus = { state: 'idle', message: '' };
+const statusListeners = new Set<(status: RuntimeStatus) => void>();
 
-            console.log("Loading Pyodide directly...");
-            // @ts-ignore
-            const pyodide = await window.loadPyodide(); // Initialize INSIDE the try block
-            console.log("Pyodide loaded directly.");
-            return pyodide;
-        } finally {
-            // Restore the original define function. This is crucial for Monaco to work.
-            // @ts-ignore
-            window.define = holdDefine;
-        }
-    })();
-    return pyodideDirectPromise;
+// Follows Pyodide loading in the worker, e.g. for a status line. Returns a function that stops following it.
+export function onPythonRuntimeStatus(listener: (status: RuntimeStatus) => void): () => void {
+    statusListeners.add(listener);
+    listener(runtimeStatus);
+    return () => { statusListeners.delete(listener); };
 }
 
+// Outside the browser there is no worker, so the host supplies its own Pyodide and scripts run in-process
+let customPyodideLoader: (() => Promise<PyodideInterface>) | null = null;
+let customPyodidePromise: Promise<PyodideInterface> | null = null;
 
-async function getPyodideViaPyScript() {
-    if (pyodideViaPyScriptPromise) return pyodideViaPyScriptPromise;
-
-    pyodideViaPyScriptPromise = (async () => {
-        await loadScript('https://pyscript.net/releases/2024.1.1/core.js', 'pyscript-script', 'module');
-        
-        console.log("Loading Pyodide via PyScript...");
-        // Poll for pyscript to be ready
-        await new Promise<void>(resolve => {
-            const interval = setInterval(() => {
-                // @ts-ignore
-                if (window.pyscript?.interpreter) {
-                    clearInterval(interval);
-                    resolve();
-                }
-            }, 100);
-        });
-        
-        // @ts-ignore
-        await window.pyscript.interpreter.ready;
-        console.log("Pyodide loaded via PyScript.");
-        // @ts-ignore
-        return window.pyscript.interpreter.pyodide;
-    })();
-    return pyodideViaPyScriptPromise;
+// Used by the command-line runner to hand in Node's Pyodide build. Must be called before the first run.
+export function setPyodideLoader(loader: () => Promise<PyodideInterface>) {
+    customPyodideLoader = loader;
+    customPyodidePromise = null;
 }
 
-// Helper to convert PyProxy kwargs to a JS object
-function kwargsToJs(kwargs: any): Record<string, any> {
-    if (!kwargs || typeof kwargs.toJs !== 'function') return {};
-    return kwargs.toJs({ dict_converter: Object.fromEntries });
+const pythonWorker = createScriptWorker<PythonRunRequest>({
+    create: () => new Worker(new URL('./python_worker.ts', import.meta.url), { type: 'module' }),
+    setup: (worker) => {
+        const interruptBuffer = typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated
+            ? new Int8Array(new SharedArrayBuffer(1))
+            : null;
+        worker.postMessage({ type: 'init', interruptBuffer });
+        return interruptBuffer ? () => { interruptBuffer[0] = SIGINT; } : null;
+    },
+    onStatus: (status) => {
+        runtimeStatus = status;
+        statusListeners.forEach(listener => listener(status));
+    },
+});
+
+// Starts loading Pyodide before the first run needs it, e.g. when a Python file is opened
+export function preloadPython(engine: PythonEngineName, runtimeUrl?: string) {
+    if (customPyodideLoader || typeof Worker === 'undefined') return;
+    pythonWorker.send({ type: 'preload', indexURL: pyodideIndexUrl(engine, runtimeUrl) });
 }
 
 export async function executePythonCode(
-    code: string, 
-    fileSystem: FileSystemTree, 
-    fileId: string, 
-    engine: 'pyodide' | 'pyscript',
-    originalSource?: { code: string, language: string }
+    code: string,
+    fileSystem: FileSystemTree,
+    fileId: string,
+    engine: PythonEngineName,
+    originalSource?: { code: string, language: string },
+    options: ExecutionOptions = {}
 ): Promise<Omit<ExecutionResult, 'newState'>> {
-    const logs: string[] = [];
-    const problems: Problem[] = [];
-    const steps: ExecutionStep[] = [];
-    
-    try {
-        const pyodide = engine === 'pyodide' 
-           ? await getPyodideDirectly() 
-           : await getPyodideViaPyScript();
-
-        if (!pyodide) {
-            throw new Error("Python interpreter (Pyodide) failed to initialize.");
-        }
-
-        const spriteNames = new Set<string>();
-
-        class PythonSprite {
-            public id: string;
-            public name: string;
-            public x: number;
-            public y: number;
-            public rotation: number;
-
-            constructor(id: string, name: string, x: number, y: number) {
-                this.id = id;
-                this.name = name;
-                this.x = x;
-                this.y = y;
-                this.rotation = 0;
-            }
-
-            say(kwargs: any) {
-                const args = kwargsToJs(kwargs);
-                const duration = (args.duration ?? 2) * 1000;
-                steps.push({ type: 'SAY', spriteId: this.id, message: args.message ?? '', duration: 0 });
-                steps.push({ type: 'WAIT', duration });
-                steps.push({ type: 'CLEAR_MESSAGE', spriteId: this.id, duration: 0 });
-            }
-
-            go_to(kwargs: any) {
-                const args = kwargsToJs(kwargs);
-                const speed = (args.speed ?? 2) * 1000;
-                this.x = args.x;
-                this.y = args.y;
-                steps.push({ type: 'GO_TO', spriteId: this.id, x: args.x, y: args.y, duration: speed });
-            }
-            
-            move_to(kwargs: any) {
-                const args = kwargsToJs(kwargs);
-                const speed = (args.speed ?? 1) * 1000;
-                this.x = args.x;
-                this.y = args.y;
-                steps.push({ type: 'MOVE_TO', spriteId: this.id, x: args.x, y: args.y, duration: speed });
-            }
-
-            rotate_to(kwargs: any) {
-                const args = kwargsToJs(kwargs);
-                const speed = (args.speed ?? 1) * 1000;
-                this.rotation = args.angle;
-                steps.push({ type: 'ROTATE_TO', spriteId: this.id, angle: args.angle, duration: speed });
-            }
-
-            look_at(kwargs: any) {
-                const args = kwargsToJs(kwargs);
-                const speed = (args.speed ?? 0.5) * 1000;
-                const dx = args.x - this.x;
-                const dy = args.y - this.y;
-                const angle = Math.atan2(dy, dx) * (180 / Math.PI) + 90;
-                this.rotation = angle;
-                steps.push({ type: 'LOOK_AT', spriteId: this.id, x: args.x, y: args.y, duration: speed });
-            }
-            
-            chat(kwargs: any) {
-                const args = kwargsToJs(kwargs);
-                steps.push({ type: 'AI_CHAT_REQUEST', spriteId: this.id, message: args.message ?? '', duration: 0 });
-            }
-
-            create_network() {
-                steps.push({ type: 'SPRITE_CREATE_NETWORK', spriteId: this.id, duration: 0 });
-            }
-
-            reward(kwargs: any) {
-                const args = kwargsToJs(kwargs);
-                steps.push({ type: 'SPRITE_REWARD', spriteId: this.id, value: args.value ?? 1, duration: 0 });
-            }
-        }
-
-        const apiBridge = {
-            Sprite: (kwargs: any) => {
-                const args = kwargsToJs(kwargs);
-                if (!args.name) throw new Error("Sprite() requires a 'name' argument.");
-                if (spriteNames.has(args.name)) throw new Error(`A sprite named '${args.name}' already exists.`);
-                
-                const id = nanoid(8);
-                const name = args.name;
-                const shape = args.shape || 'cube';
-                const x = args.x ?? 50;
-                const y = args.y ?? 50;
-                
-                const newSprite: Sprite = {
-                    id, name, shape, x, y, vx: 0, vy: 0, rotation: 0, styles: {}, data: {},
-                };
-                steps.push({ type: 'CREATE_SPRITE', sprite: newSprite, duration: 0 });
-                spriteNames.add(name);
-
-                return new PythonSprite(id, name, x, y);
-            },
-            wait: (seconds: number) => {
-                if (typeof seconds !== 'number') throw new Error("ai.wait() requires a numeric argument for seconds.");
-                steps.push({ type: 'WAIT', duration: seconds * 1000 });
-            },
-        };
-
-        const worldBridge = {
-             set_background: (kwargs: any) => {
-                const args = kwargsToJs(kwargs);
-                steps.push({ type: 'SET_BACKGROUND', color: args.color || '#000', duration: 0 });
-            },
-        };
-        
-        const physicsBridge = {
-             set_gravity: (kwargs: any) => {
-                const args = kwargsToJs(kwargs);
-                steps.push({ type: 'SET_GRAVITY', strength: args.strength ?? 0, duration: 0 });
-            },
-        };
-
-        const soundBridge = {
-            play: (kwargs: any) => {
-                const args = kwargsToJs(kwargs);
-                steps.push({ type: 'PLAY_SOUND', x: args.x ?? 50, y: args.y ?? 50, duration: 0 });
-            }
-        };
-
-        pyodide.globals.set('ai', apiBridge);
-        pyodide.globals.set('world', worldBridge);
-        pyodide.globals.set('sound', soundBridge);
-        pyodide.globals.set('physics', physicsBridge); 
-        pyodide.globals.set('print', (...args: any[]) => {
-            const message = args.map(a => a?.toString() ?? 'None').join(' ');
-            logs.push(message);
-        });
-
-        await pyodide.runPythonAsync(code);
-        logs.push(`Execution successful. ${steps.length} steps generated.`);
-
-    } catch (e: any) {
-        const errorMessage = e.message || "An unknown Python error occurred.";
-        const tracebackRegex = /File "<exec>", line (\d+)/;
-        const match = errorMessage.match(tracebackRegex);
-        
-        let finalLine = match ? parseInt(match[1], 10) : 1;
-        
-        // If this was a transpiled execution, attempt to map the error line back to the original source
-        if (originalSource && match) {
-            const pythonLineNum = parseInt(match[1], 10);
-            const pythonLines = code.split('\n');
-            if (pythonLineNum <= pythonLines.length) {
-                const errorLine = pythonLines[pythonLineNum - 1];
-                const sourceMapRegex = /#\s*src:\s*(\d+)/;
-                const sourceMapMatch = errorLine.match(sourceMapRegex);
-                if (sourceMapMatch) {
-                    finalLine = parseInt(sourceMapMatch[1], 10);
-                }
-            }
-        }
-        
-        const codeForProblem = originalSource ? originalSource.code : code;
-        const langForProblem = originalSource ? originalSource.language : 'py';
-
-        problems.push({ fileId, line: finalLine, message: errorMessage, code: codeForProblem, language: langForProblem });
-        logs.push(`Execution failed.`);
-        if (originalSource) {
-            logs.push(`--- Transpiled Python Code (for debugging) ---\n${code}\n--------------------`);
+    const source = originalSource ?? { code, language: 'py' };
+    if (customPyodideLoader) {
+        // In-process, as for the command-line runner: there is nothing to interrupt it with, so no time limit
+        let pyodide: PyodideInterface;
+        try {
+            customPyodidePromise ??= customPyodideLoader();
+            pyodide = await customPyodidePromise;
+        } catch (e) {
+            return failedRun(`Python interpreter (Pyodide) failed to initialize: ${e instanceof Error ? e.message : String(e)}`, fileId, code, source);
         }
+        if (options.signal?.aborted) return cancelledRun();
+        return runInPyodide(pyodide, code, fileId, originalSource, options);
     }
 
-    return { logs, problems, steps, executedLines: code.split('\n').length };
-}
\ No newline at end of file
+    // The signal stays here: it can't be sent to a worker, and cancelling is the client's job. So does the debugger's
+    // callback, which the client calls for the worker.
+    const { random, signal, debug, ...rest } = options;
+    return pythonWorker.run({
+        type: 'run', code, fileId, indexURL: pyodideIndexUrl(engine, rest.pythonRuntimeUrl), originalSource,
+        // The worker carries on the run's random sequence from where the world parser left it
+        options: { ...rest, seed: random?.seed ?? rest.seed, randomState: random?.state, debugBuffer: debug?.buffer },
+    }, { fileId, code, source, timeoutMs: options.timeoutMs ?? DEFAULT_SCRIPT_TIMEOUT_MS, signal, onPause: debug?.onPause });
+}
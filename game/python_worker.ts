@@ -0,0 +1,114 @@
+import type { ExecutionOptions, LiveSession } from './types';
+import { PyodideInterface, runInPyodide } from './python_bridge';
+import { createSeededRandom } from './random';
+import { debugOptions, DisposeLiveRequest, LiveRequest, runLiveRequest, ScriptWorkerResponse } from './script_worker';
+
+// Python runs here, off the main thread, so a script that never ends can't freeze the editor.
+// The whole bridge lives in the worker too; only plain data crosses over: the script and its options
+// going in, steps, logs and problems coming out.
+
+export type PythonRunRequest = {
+    type: 'run', id: number, code: string, fileId: string,
+    // The folder Pyodide is loaded from, as an absolute URL
+    indexURL: string,
+    originalSource?: { code: string, language: string },
+    // Everything but the SeededRandom, which is rebuilt here from its seed and state, and the debugger's
+    // callbacks, which become messages to the page
+    options: Omit<ExecutionOptions, 'random' | 'debug'> & { randomState?: number, debugBuffer?: SharedArrayBuffer },
+};
+
+export type PythonWorkerRequest =
+    // Sent once: the shared byte the main thread sets to 2 (SIGINT) to interrupt the script
+    | { type: 'init', interruptBuffer: Int8Array | null }
+    // Loads Pyodide ahead of the first run
+    | { type: 'preload', indexURL: string }
+    | PythonRunRequest
+    | LiveRequest
+    | DisposeLiveRequest;
+
+// The DOM typings don't describe a worker's global scope, so the two members used here are spelled out
+const scope = self as unknown as {
+    postMessage: (response: ScriptWorkerResponse) => void;
+    onmessage: ((event: MessageEvent<PythonWorkerRequest>) => void) | null;
+};
+const pyodidePromises = new Map<string, Promise<PyodideInterface>>();
+let interruptBuffer: Int8Array | null = null;
+let liveSession: LiveSession | null = null;
+
+const post = (response: ScriptWorkerResponse) => scope.postMessage(response);
+
+// Loads Pyodide once per folder, telling the page how it goes
+function loadEngine(indexURL: string): Promise<PyodideInterface> {
+    let promise = pyodidePromises.get(indexURL);
+    if (!promise) {
+        const startedAt = performance.now();
+        post({ type: 'status', status: { state: 'loading', message: 'Downloading the Python runtime...' } });
+        promise = (async () => {
+            const { loadPyodide } = await import(/* @vite-ignore */ `${indexURL}pyodide.mjs`);
+            post({ type: 'status', status: { state: 'loading', message: 'Starting the Python interpreter...' } });
+            const pyodide = await loadPyodide({ indexURL });
+            if (interruptBuffer) pyodide.setInterruptBuffer(interruptBuffer);
+            return pyodide;
+        })();
+        promise.then(
+            pyodide => {
+                const seconds = ((performance.now() - startedAt) / 1000).toFixed(1);
+                post({ type: 'status', status: { state: 'ready', message: `Pyodide ${pyodide.version} is ready (loaded in ${seconds} s).` } });
+            },
+            e => {
+                // A failed load is retried on the next run rather than cached
+                pyodidePromises.delete(indexURL);
+                const reason = e instanceof Error ? e.message : String(e);
+                post({ type: 'status', status: { state: 'error', message: `The Python runtime could not be loaded from ${indexURL}: ${reason}` } });
+            }
+        );
+        pyodidePromises.set(indexURL, promise);
+    }
+    return promise;
+}
+
+scope.onmessage = async (event) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'init':
+            interruptBuffer = request.interruptBuffer;
+            break;
+        case 'preload':
+            // Reported through its status; a failure is reported again by the run that needs it
+            loadEngine(request.indexURL).catch(() => {});
+            break;
+        case 'run': {
+            liveSession?.dispose();
+            liveSession = null;
+            let pyodide: PyodideInterface;
+            try {
+                pyodide = await loadEngine(request.indexURL);
+            } catch (e) {
+                const reason = e instanceof Error ? e.message : String(e);
+                post({ type: 'failed', id: request.id, message: `Python interpreter (Pyodide) failed to load from ${request.indexURL}: ${reason}. Check the Python Runtime URL in Settings.` });
+                return;
+            }
+            if (interruptBuffer) interruptBuffer[0] = 0;
+            const { randomState, debugBuffer, ...options } = request.options;
+            const random = options.seed !== undefined ? createSeededRandom(options.seed, randomState) : undefined;
+            const debug = debugBuffer && debugOptions(request.id, debugBuffer, post);
+            const { session, ...result } = await runInPyodide(
+                pyodide, request.code, request.fileId, request.originalSource, { ...options, random, debug },
+                () => post({ type: 'started', id: request.id })
+            );
+            liveSession = session ?? null;
+            post({ type: 'result', id: request.id, result, hasSession: !!session });
+            break;
+        }
+        case 'live': {
+            if (interruptBuffer) interruptBuffer[0] = 0;
+            post({ type: 'started', id: request.id });
+            post({ type: 'live-result', id: request.id, update: await runLiveRequest(liveSession, request) });
+            break;
+        }
+        case 'dispose-live':
+            liveSession?.dispose();
+            liveSession = null;
+            break;
+    }
+};
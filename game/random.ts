@@ -0,0 +1,50 @@
+// Seeded randomness so the same script, world and seed always produce the same replay
+
+// nanoid's URL-safe alphabet, so seeded ids look like the ones nanoid generates
+const ID_ALPHABET = 'useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict';
+
+export interface SeededRandom {
+    readonly seed: number;
+    // Where the sequence is; createSeededRandom(seed, state) carries on from here, e.g. in a worker
+    readonly state: number;
+    // A float in [0, 1), like Math.random()
+    random: () => number;
+    id: (size?: number) => string;
+    // Restarts the sequence, e.g. when a script calls ai.seed()
+    reseed: (seed: number) => void;
+}
+
+// A fresh seed for runs that weren't given one; it is still recorded so the run can be reproduced
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+// Validates a seed passed in from a script or the UI
+export function toSeed(value: unknown, method: string): number {
+    const seed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof seed !== 'number' || !Number.isInteger(seed)) throw new Error(`${method} requires an integer seed.`);
+    return seed >>> 0;
+}
+
+// mulberry32: tiny, fast and good enough for games. Not for anything security related.
+export function createSeededRandom(initialSeed: number, initialState = initialSeed): SeededRandom {
+    let seed = initialSeed >>> 0;
+    let state = initialState >>> 0;
+
+    const random = () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    return {
+        get seed() { return seed; },
+        get state() { return state; },
+        random,
+        id: (size = 8) => Array.from({ length: size }, () => ID_ALPHABET[Math.floor(random() * ID_ALPHABET.length)]).join(''),
+        reseed: (newSeed) => {
+            seed = newSeed >>> 0;
+            state = seed;
+        },
+    };
+}
@@ -0,0 +1,71 @@
+import type { ExecutionStep, GameState, SimulationMode } from './types';
+import type { StepServices } from './simulation';
+
+// A recorded run, saved to disk so it can be played back (or attached to a bug report)
+// without the script, the interpreter or Gemini.
+export const REPLAY_FORMAT = 'ai-bots-playground-replay';
+// Bump when the shape of ReplayFile changes; older files keep loading as long as parseReplay understands them
+export const REPLAY_VERSION = 1;
+export const REPLAY_EXTENSION = '.replay.json';
+
+export interface ReplayMetadata {
+    // ISO timestamp of when the replay was saved
+    createdAt: string;
+    scriptName: string;
+    language: string;
+    mode: SimulationMode;
+}
+
+export interface ReplayFile {
+    format: typeof REPLAY_FORMAT;
+    version: number;
+    metadata: ReplayMetadata;
+    // The seed the run started from; run the script again with it to reproduce the recording
+    seed: number | null;
+    // world.html as it was when the script ran, or null if there was none
+    world: string | null;
+    // The state before the first step
+    initialState: GameState;
+    steps: ExecutionStep[];
+}
+
+export const createReplay = (
+    replay: Omit<ReplayFile, 'format' | 'version' | 'metadata'> & { metadata: Omit<ReplayMetadata, 'createdAt'> },
+): ReplayFile => ({
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    ...replay,
+    metadata: { createdAt: new Date().toISOString(), ...replay.metadata },
+});
+
+// A loaded replay never calls Gemini: answers recorded on its steps are reused and missing ones are reported
+export const replayServices: StepServices = {
+    getGeminiResponse: async () => { throw new Error('The answer was not recorded in this replay.'); },
+    getAiThought: async () => { throw new Error('The thought was not recorded in this replay.'); },
+};
+
+export const serializeReplay = (replay: ReplayFile) => JSON.stringify(replay, null, 2);
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Reads a replay file, explaining what is wrong with it rather than failing halfway through playback
+export function parseReplay(text: string): ReplayFile {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not a replay: it is not valid JSON.');
+    }
+    if (!isObject(data) || data.format !== REPLAY_FORMAT) throw new Error('This file is not a replay saved by the playground.');
+    if (typeof data.version !== 'number' || data.version > REPLAY_VERSION) {
+        throw new Error(`This replay was saved in format version ${String(data.version)}, which this version of the playground can't read.`);
+    }
+    if (!Array.isArray(data.steps) || !data.steps.every(step => isObject(step) && typeof step.type === 'string')) {
+        throw new Error('This replay is damaged: its steps are missing or malformed.');
+    }
+    const state = data.initialState;
+    if (!isObject(state) || !Array.isArray(state.sprites) || !Array.isArray(state.props)) {
+        throw new Error('This replay is damaged: its initial state is missing or malformed.');
+    }
+    return data as unknown as ReplayFile;
+}
@@ -0,0 +1,266 @@
+import type { DebugOptions, DebugPause, ExecutionResult, GameState, LiveSession, LiveUpdate, Problem, RuntimeStatus } from './types';
+
+// Scripts run in workers so that a script stuck in a loop only ties up its worker, never the page.
+// Each language has its own worker and 'run' request; the rest of the protocol, and the client the
+// main thread holds on a worker, are shared and live here.
+
+export type LiveMethod = 'start' | 'tick' | 'collision';
+
+export type LiveRequest = { type: 'live', id: number, method: LiveMethod, state: GameState, dt?: number, aId?: string, bId?: string };
+
+export type DisposeLiveRequest = { type: 'dispose-live' };
+
+export type ScriptWorkerResponse =
+    // The script is about to start, or carries on after a debugger pause; its time limit counts from here
+    | { type: 'started', id: number }
+    // A debug run has paused, and waits for the page to resume it
+    | { type: 'paused', id: number, pause: DebugPause }
+    | { type: 'result', id: number, result: Omit<ExecutionResult, 'newState' | 'session'>, hasSession: boolean }
+    | { type: 'live-result', id: number, update: LiveUpdate }
+    | { type: 'failed', id: number, message: string }
+    // How loading the worker's runtime is going; not tied to a call
+    | { type: 'status', status: RuntimeStatus };
+
+// How long a script may run when ExecutionOptions.timeoutMs isn't given
+export const DEFAULT_SCRIPT_TIMEOUT_MS = 10_000;
+// How long an interrupted script gets to stop by itself before its worker is terminated
+const INTERRUPT_GRACE_MS = 2000;
+
+const EMPTY_UPDATE: LiveUpdate = { steps: [], logs: [], problems: [] };
+
+// A debug run's callbacks inside a worker, which become messages to the page
+export const debugOptions = (id: number, buffer: SharedArrayBuffer, post: (response: ScriptWorkerResponse) => void): DebugOptions => ({
+    buffer,
+    onPause: (pause) => post({ type: 'paused', id, pause }),
+    onResume: () => post({ type: 'started', id }),
+});
+
+// Answers a live request inside a worker from the session the last run left there
+export async function runLiveRequest(session: LiveSession | null, request: LiveRequest): Promise<LiveUpdate> {
+    if (!session) return EMPTY_UPDATE;
+    if (request.method === 'start') return session.start(request.state);
+    if (request.method === 'tick') return session.tick(request.state, request.dt ?? 0);
+    return session.collision(request.state, request.aId ?? '', request.bId ?? '');
+}
+
+export const failedRun = (message: string, fileId: string, code: string, source: { code: string, language: string }): Omit<ExecutionResult, 'newState'> => ({
+    logs: ['Execution failed.'],
+    problems: [{ fileId, line: 1, message, code: source.code, language: source.language }],
+    steps: [],
+    executedLines: code.split('\n').length,
+});
+
+// What a run that ExecutionOptions.signal aborted resolves to, keeping the logs it had written
+export const cancelledRun = (logs: string[] = []): Omit<ExecutionResult, 'newState'> => ({
+    logs: [...logs, 'Cancelled.'],
+    problems: [],
+    steps: [],
+    executedLines: 0,
+    cancelled: true,
+});
+
+interface ScriptWorkerConfig {
+    create: () => Worker;
+    // Prepares a new worker. Returns a function that interrupts its running script without terminating it,
+    // or null when it can't, in which case a script that has to be stopped loses its worker.
+    setup?: (worker: Worker) => (() => void) | null;
+    // Told what the worker's runtime is doing, and that it is gone with the worker when that is terminated
+    onStatus?: (status: RuntimeStatus) => void;
+}
+
+interface PendingCall {
+    resolve: (response: ScriptWorkerResponse) => void;
+    reject: (error: Error) => void;
+    timeoutMs: number;
+    timers: number[];
+    // Whether the worker has begun running the script, rather than still loading its runtime
+    started: boolean;
+    // Why the call was cut short, reported in place of the error the interrupt raised
+    stopReason?: string;
+    onPause?: (pause: DebugPause) => void;
+}
+
+export interface RunContext {
+    fileId: string;
+    // The code that runs, and the source problems point into when it was compiled from another language
+    code: string;
+    source: { code: string, language: string };
+    timeoutMs: number;
+    signal?: AbortSignal;
+    // Told when a debug run pauses
+    onPause?: (pause: DebugPause) => void;
+}
+
+export interface ScriptWorkerClient<RunRequest extends { type: 'run', id: number }> {
+    run: (request: Omit<RunRequest, 'id'>, context: RunContext) => Promise<Omit<ExecutionResult, 'newState'>>;
+    // Stops whatever the worker is running. Returns false if it was idle.
+    interrupt: (reason: string) => boolean;
+    // Posts a message that gets no answer, e.g. to load the runtime ahead of the first run, starting the worker if needed
+    send: (message: object) => void;
+}
+
+// Every client, whatever it runs; they are only interrupted from here
+const clients: Pick<ScriptWorkerClient<never>, 'interrupt'>[] = [];
+
+// Stops every running script, e.g. from the Stop button. Returns false if none was running.
+export function interruptScripts(): boolean {
+    return clients.map(client => client.interrupt('Execution stopped by the user.')).some(Boolean);
+}
+
+const clearTimers = (call: PendingCall) => {
+    call.timers.forEach(timer => clearTimeout(timer));
+    call.timers = [];
+};
+
+// Problems raised by an interrupt say why the script was stopped, not e.g. "KeyboardInterrupt"
+const explainStop = (problems: Problem[], reason: string) =>
+    problems.map(problem => /KeyboardInterrupt/.test(problem.message) ? { ...problem, message: reason } : problem);
+
+// The main thread's side of a script worker. The worker is started on first use and replaced after it is terminated.
+// Calls are answered one at a time, since each worker has one interpreter.
+export function createScriptWorker<RunRequest extends { type: 'run', id: number }>(config: ScriptWorkerConfig): ScriptWorkerClient<RunRequest> {
+    let worker: Worker | null = null;
+    let interruptWorker: (() => void) | null = null;
+    let nextCallId = 1;
+    const pendingCalls = new Map<number, PendingCall>();
+
+    // Throws away a worker that won't stop; the next call starts a fresh one
+    const terminate = (reason: string) => {
+        if (worker) config.onStatus?.({ state: 'idle', message: '' });
+        worker?.terminate();
+        worker = null;
+        for (const call of pendingCalls.values()) {
+            clearTimers(call);
+            call.reject(new Error(call.stopReason ?? reason));
+        }
+        pendingCalls.clear();
+    };
+
+    const stopCall = (call: PendingCall, reason: string) => {
+        if (call.stopReason) return;
+        call.stopReason = reason;
+        // An interrupt only reaches a running script, not a runtime that is still loading
+        if (!interruptWorker || !call.started) {
+            terminate(reason);
+            return;
+        }
+        interruptWorker();
+        call.timers.push(window.setTimeout(() => terminate(reason), INTERRUPT_GRACE_MS));
+    };
+
+    const handleResponse = (response: Exclude<ScriptWorkerResponse, { type: 'status' }>) => {
+        const call = pendingCalls.get(response.id);
+        if (!call) return;
+        if (response.type === 'paused') {
+            // A paused script isn't using up its time limit; it starts again when the run carries on
+            if (!call.stopReason) clearTimers(call);
+            call.onPause?.(response.pause);
+            return;
+        }
+        if (response.type === 'started') {
+            call.started = true;
+            if (call.timeoutMs > 0) {
+                const seconds = call.timeoutMs / 1000;
+                call.timers.push(window.setTimeout(() => stopCall(call, `Execution stopped: the script ran longer than its ${seconds} s time limit.`), call.timeoutMs));
+            }
+            return;
+        }
+        clearTimers(call);
+        pendingCalls.delete(response.id);
+        const reason = call.stopReason;
+        if (reason && response.type === 'result') {
+            call.resolve({ ...response, result: { ...response.result, problems: explainStop(response.result.problems, reason) } });
+        } else if (reason && response.type === 'live-result') {
+            call.resolve({ ...response, update: { ...response.update, problems: explainStop(response.update.problems, reason) } });
+        } else {
+            call.resolve(response);
+        }
+    };
+
+    const getWorker = (): Worker => {
+        if (worker) return worker;
+        const created = config.create();
+        created.onmessage = (event: MessageEvent<ScriptWorkerResponse>) => {
+            if (event.data.type === 'status') config.onStatus?.(event.data.status);
+            else handleResponse(event.data);
+        };
+        created.onerror = (event) => terminate(`The script worker crashed: ${event.message || 'unknown error'}.`);
+        interruptWorker = config.setup?.(created) ?? null;
+        worker = created;
+        return created;
+    };
+
+    const call = (request: Omit<RunRequest, 'id'> | Omit<LiveRequest, 'id'>, timeoutMs: number, id = nextCallId++, onPause?: PendingCall['onPause']): Promise<ScriptWorkerResponse> => {
+        const target = getWorker();
+        return new Promise((resolve, reject) => {
+            pendingCalls.set(id, { resolve, reject, timeoutMs, timers: [], started: false, onPause });
+            target.postMessage({ ...request, id });
+        });
+    };
+
+    // The main thread's handle on a live session kept in the worker. The worker keeps one session, which the
+    // next run it is sent replaces, so the caller ends a session before starting another run.
+    const createSession = ({ fileId, code, source, timeoutMs }: RunContext): LiveSession => {
+        let disposed = false;
+        const callLive = async (request: Omit<LiveRequest, 'id'>): Promise<LiveUpdate> => {
+            if (disposed) return EMPTY_UPDATE;
+            try {
+                const response = await call(request, timeoutMs);
+                if (response.type === 'live-result') return response.update;
+                throw new Error('The script worker sent an unexpected reply.');
+            } catch (e) {
+                return { ...EMPTY_UPDATE, problems: failedRun(e instanceof Error ? e.message : String(e), fileId, code, source).problems };
+            }
+        };
+        return {
+            start: (state) => callLive({ type: 'live', method: 'start', state }),
+            tick: (state, dt) => callLive({ type: 'live', method: 'tick', state, dt }),
+            collision: (state, aId, bId) => callLive({ type: 'live', method: 'collision', state, aId, bId }),
+            dispose: () => {
+                if (disposed) return;
+                disposed = true;
+                worker?.postMessage({ type: 'dispose-live' } satisfies DisposeLiveRequest);
+            },
+        };
+    };
+
+    const client: ScriptWorkerClient<RunRequest> = {
+        run: async (request, context) => {
+            const { signal } = context;
+            if (signal?.aborted) return cancelledRun();
+            // Cancelling stops this run's call only, not a live handler the worker may be answering
+            const id = nextCallId++;
+            const cancel = () => {
+                const pending = pendingCalls.get(id);
+                if (pending) stopCall(pending, 'Cancelled.');
+            };
+            signal?.addEventListener('abort', cancel);
+            let result: Omit<ExecutionResult, 'newState'>;
+            try {
+                const response = await call(request, context.timeoutMs, id, context.onPause);
+                if (response.type === 'failed') {
+                    result = failedRun(response.message, context.fileId, context.code, context.source);
+                } else if (response.type === 'result') {
+                    result = { ...response.result, session: response.hasSession ? createSession(context) : undefined };
+                } else {
+                    throw new Error('The script worker sent an unexpected reply.');
+                }
+            } catch (e) {
+                result = failedRun(e instanceof Error ? e.message : String(e), context.fileId, context.code, context.source);
+            } finally {
+                signal?.removeEventListener('abort', cancel);
+            }
+            if (!signal?.aborted) return result;
+            result.session?.dispose();
+            return cancelledRun(result.cancelled ? [] : result.logs.filter(log => log !== 'Execution failed.'));
+        },
+        interrupt: (reason) => {
+            const calls = [...pendingCalls.values()];
+            calls.forEach(call => stopCall(call, reason));
+            return calls.length > 0;
+        },
+        send: (message) => getWorker().postMessage(message),
+    };
+    clients.push(client);
+    return client;
+}
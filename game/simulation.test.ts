@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ExecutionStep, Sprite } from './types';
+import { advanceFrame, applyStep, initialGameState, playHeadless, StepServices } from './simulation';
+
+const sprite = (id: string, x: number, y: number): Sprite => ({ id, name: id, shape: 'cube', x, y, vx: 0, vy: 0, rotation: 0, styles: {}, data: {} });
+
+const STEPS: ExecutionStep[] = [
+    { type: 'CREATE_SPRITE', sprite: sprite('a', 10, 10), duration: 0 },
+    { type: 'CREATE_SPRITE', sprite: sprite('b', 80, 20), duration: 0 },
+    { type: 'SET_GRAVITY', strength: 0.005, duration: 0 },
+    { type: 'MOVE_TO', spriteId: 'a', x: 60, y: 40, duration: 1000, easing: 'ease_in_out' },
+    { type: 'PLAY_SOUND', x: 60, y: 40, duration: 0 },
+    { type: 'SPRITE_CREATE_NETWORK', spriteId: 'b', duration: 0 },
+    { type: 'SPRITE_REWARD', spriteId: 'b', value: 1, duration: 0 },
+    { type: 'APPLY_FORCE', spriteId: 'b', fx: 5, fy: -2, duration: 0 },
+    { type: 'WAIT', duration: 500 },
+];
+
+// Answers in place of Gemini, so the tests run offline
+const offlineServices: StepServices = {
+    getGeminiResponse: async () => 'Hello.',
+    getAiThought: async () => 'A thought.',
+};
+
+test('applyStep gives the same state for the same state, step, time and index', () => {
+    let first = initialGameState;
+    let second = initialGameState;
+    STEPS.forEach((step, index) => {
+        first = applyStep(first, step, 1000, index);
+        second = applyStep(second, step, 1000, index);
+    });
+    assert.deepEqual(first, second);
+    assert.deepEqual(first.effects.map(effect => effect.id), ['step-4', 'step-6']);
+});
+
+test('applyStep leaves the state it is given unchanged', () => {
+    const state = applyStep(initialGameState, STEPS[0], 0, 0);
+    const before = structuredClone(state);
+    applyStep(state, STEPS[3], 0, 3);
+    assert.deepEqual(state, before);
+});
+
+test('advanceFrame moves a tween the same way every time', () => {
+    let state = initialGameState;
+    STEPS.slice(0, 4).forEach((step, index) => { state = applyStep(state, step, 0, index); });
+    const first = advanceFrame(state, 500, 3);
+    const second = advanceFrame(state, 500, 3);
+    assert.deepEqual(first, second);
+    const moved = first.sprites.find(s => s.id === 'a')!;
+    assert.ok(moved.x > 10 && moved.x < 60, `expected a half-finished move, got x = ${moved.x}`);
+});
+
+test('playHeadless plays a recording to the same end state every time', async () => {
+    const first = await playHeadless(STEPS, offlineServices);
+    const second = await playHeadless(STEPS, offlineServices);
+    assert.deepEqual(first, second);
+    assert.deepEqual(first.errors, []);
+    const moved = first.state.sprites.find(s => s.id === 'a')!;
+    assert.equal(moved.tween, undefined);
+    assert.equal(first.state.sprites.find(s => s.id === 'b')!.brain?.lastThought, 'A thought.');
+});
+
+test('playHeadless returns a chat reply\'s steps and leaves the steps it is given unchanged', async () => {
+    const steps: ExecutionStep[] = [
+        ...STEPS.slice(0, 2),
+        { type: 'AI_CHAT_REQUEST', spriteId: 'a', message: 'Hi, b.', duration: 0 },
+    ];
+    const before = structuredClone(steps);
+    const played = await playHeadless(steps, offlineServices);
+    assert.deepEqual(steps, before);
+    assert.deepEqual(played.steps.slice(2).map(step => step.type), ['AI_CHAT_REQUEST', 'SAY', 'WAIT', 'CLEAR_MESSAGE']);
+    assert.deepEqual(played.steps[2], { ...steps[2], response: 'Hello.' });
+
+    // Played again, as the app plays a replay, the recorded reply is neither asked for nor shown twice
+    const replayed = await playHeadless(played.steps, { ...offlineServices, getGeminiResponse: async () => assert.fail('Gemini was asked again') });
+    assert.deepEqual(replayed.steps, played.steps);
+    assert.deepEqual(replayed.state, played.state);
+});
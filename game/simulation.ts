@@ -0,0 +1,251 @@
+import { produce } from 'immer';
+import type { ExecutionStep, GameState } from './types';
+import { sweepMove } from './collision';
+import { applyImpulse, FIXED_TIMESTEP, stepPhysics } from './physics';
+import { applyTween, beginTween, settleTween } from './tween';
+import { getAiThought, getGeminiResponse } from './gemini';
+
+// The simulation core: how each ExecutionStep changes the GameState, independent of any UI.
+// Everything here works on plain state so it can run headlessly and be reused by other front ends.
+
+export const initialGameState: GameState = {
+    sprites: [],
+    props: [],
+    effects: [],
+    physics: { gravity: 0, friction: 0 },
+    worldState: {
+        backgroundColor: '#111827', // bg-gray-900
+        zones: []
+    }
+};
+
+// Effects are named after the step that started them, so replaying a recording names them the same way
+const effectId = (stepIndex: number) => `step-${stepIndex}`;
+
+// Applies the synchronous part of step number `stepIndex` at time `now` (ms). Steps that only have side effects
+// (LOG, WAIT, ...) return `state` unchanged. The result depends on the arguments alone.
+export const applyStep = (state: GameState, step: ExecutionStep, now: number, stepIndex: number): GameState => produce(state, draft => {
+    const sprite = 'spriteId' in step && step.spriteId ? draft.sprites.find(s => s.id === step.spriteId) : undefined;
+    switch (step.type) {
+        // Creation replaces an existing entry with the same id, so replaying from a preview that already
+        // shows the world's sprites and props doesn't duplicate them
+        case 'CREATE_SPRITE': draft.sprites = [...draft.sprites.filter(s => s.id !== step.sprite.id), step.sprite]; break;
+        case 'CREATE_PROP': draft.props = [...draft.props.filter(p => p.id !== step.prop.id), step.prop]; break;
+        case 'DELETE_SPRITE': draft.sprites = draft.sprites.filter(s => s.id !== step.spriteId); break;
+        case 'SAY': if (sprite) sprite.message = { text: step.message, duration: step.duration }; break;
+        case 'CLEAR_MESSAGE': if (sprite) sprite.message = undefined; break;
+        case 'MOVE_TO':
+            if (sprite) {
+                settleTween(sprite);
+                beginTween(sprite, { path: [sweepMove(sprite, step, draft.props)] }, step.duration, step.easing, now);
+            }
+            break;
+        case 'GO_TO':
+            // The route was planned around the props when the script ran
+            if (sprite) {
+                settleTween(sprite);
+                sprite.path = [{ x: sprite.x, y: sprite.y }, ...step.path];
+                beginTween(sprite, { path: step.path }, step.duration, step.easing, now);
+            }
+            break;
+        case 'SET_STYLE': if (sprite) (sprite.styles as Record<string, string>)[step.property] = step.value; break;
+        case 'SET_DATA': if (sprite) sprite.data[step.key] = step.value; break;
+        case 'AI_CHAT_REQUEST':
+            if (sprite) {
+                if (!sprite.chatHistory) sprite.chatHistory = [];
+                sprite.chatHistory.push({ role: 'user', parts: [{ text: step.message }] });
+            }
+            break;
+        case 'SET_GRAVITY': draft.physics.gravity = step.strength; break;
+        case 'SET_FRICTION': draft.physics.friction = step.friction; break;
+        case 'APPLY_FORCE': if (sprite) applyImpulse(sprite, step.fx, step.fy); break;
+        case 'SET_VELOCITY': if (sprite) { sprite.vx = step.vx; sprite.vy = step.vy; } break;
+        case 'SET_BODY':
+            if (sprite) {
+                if (step.mass !== undefined) sprite.mass = step.mass;
+                if (step.restitution !== undefined) sprite.restitution = step.restitution;
+            }
+            break;
+        case 'ROTATE_TO': if (sprite) beginTween(sprite, { rotation: step.angle }, step.duration, step.easing, now); break;
+        case 'LOOK_AT':
+            if (sprite) {
+                settleTween(sprite);
+                const dx = step.x - sprite.x;
+                const dy = step.y - sprite.y;
+                const angle = Math.atan2(dy, dx) * (180 / Math.PI) + 90;
+                beginTween(sprite, { rotation: angle }, step.duration, step.easing, now);
+            }
+            break;
+        case 'PLAY_SOUND':
+            draft.effects.push({
+                id: effectId(stepIndex), type: 'soundwave', x: step.x, y: step.y,
+                creationTime: now, duration: 1000, maxRadius: 15,
+            });
+            break;
+        case 'SET_BACKGROUND': draft.worldState.backgroundColor = step.color; break;
+        case 'SPRITE_CREATE_NETWORK': if (sprite) sprite.brain = { rewards: 0 }; break;
+        case 'SPRITE_REWARD':
+            if (sprite) {
+                if (!sprite.brain) sprite.brain = { rewards: 0 };
+                sprite.brain.rewards += step.value;
+                draft.effects.push({
+                    id: effectId(stepIndex), type: 'rewardflash', spriteId: step.spriteId,
+                    creationTime: now, duration: 800
+                });
+            }
+            break;
+    }
+});
+
+// Advances everything that moves on its own between steps: tweens, then `physicsSteps` fixed physics steps
+export const advanceFrame = (state: GameState, now: number, physicsSteps: number): GameState => produce(state, draft => {
+    draft.sprites.forEach(sprite => applyTween(sprite, now));
+    for (let i = 0; i < physicsSteps; i++) stepPhysics(draft);
+});
+
+// Drops visual effects (sound waves, reward flashes) that have finished playing
+export const expireEffects = (state: GameState, now: number): GameState => produce(state, draft => {
+    draft.effects = draft.effects.filter(effect => now - effect.creationTime < effect.duration);
+});
+
+// Advances `duration` ms of simulated time from `now` in fixed timesteps, for runs that don't wait on a clock
+export function simulateTime(state: GameState, now: number, duration: number): GameState {
+    const frames = Math.round(duration / 1000 / FIXED_TIMESTEP);
+    for (let frame = 1; frame <= frames; frame++) {
+        state = advanceFrame(state, now + frame * FIXED_TIMESTEP * 1000, 1);
+    }
+    return state;
+}
+
+// Finishes every tween and effect that is still playing
+export const settleState = (state: GameState): GameState => expireEffects(advanceFrame(state, Infinity, 0), Infinity);
+
+// What the effects layer needs from its host. The browser UI wires these to React state;
+// a headless runner can simply collect them.
+export interface StepEffectHost {
+    getState: () => GameState;
+    updateState: (recipe: (draft: GameState) => void) => void;
+    log: (message: string) => void;
+    // Replaces the most recent log line, used to turn "thinking..." into the outcome
+    replaceLastLog: (message: string) => void;
+    clearLogs: () => void;
+    // Queues steps to be played right after the current one
+    insertSteps: (steps: ExecutionStep[]) => void;
+    reportError: (message: string) => void;
+}
+
+// The AI calls steps can trigger; swapped out when running without network access
+export interface StepServices {
+    getGeminiResponse: typeof getGeminiResponse;
+    getAiThought: typeof getAiThought;
+}
+
+const defaultServices: StepServices = { getGeminiResponse, getAiThought };
+
+// Runs the side effects of a step after applyStep has updated the state: logging and Gemini calls.
+// Gemini's answers are recorded on the step itself, so a recording that is played again (or loaded
+// from a replay file) reuses them instead of calling Gemini.
+export async function runStepEffects(step: ExecutionStep, host: StepEffectHost, services: StepServices = defaultServices) {
+    if (step.type === 'LOG') host.log(step.message);
+    if (step.type === 'CLEAR_LOG') host.clearLogs();
+
+    if (step.type === 'AI_CHAT_REQUEST') {
+        const state = host.getState();
+        const senderSprite = state.sprites.find(s => s.id === step.spriteId);
+        const receiverSprite = state.sprites.find(s => s.id !== step.spriteId);
+        if (!senderSprite || !receiverSprite) return;
+
+        host.log(`${senderSprite.name} says "${step.message}" to ${receiverSprite.name}...`);
+        host.log(`${receiverSprite.name} is thinking...`);
+
+        try {
+            const recorded = step.response !== undefined;
+            const systemInstruction = (receiverSprite.data?.system_instruction as string) || "You are a sprite in a virtual world.";
+            const responseText = step.response ?? await services.getGeminiResponse(receiverSprite.chatHistory || [], step.message, systemInstruction);
+            step.response = responseText;
+
+            host.updateState(draft => {
+                const receiver = draft.sprites.find(s => s.id === receiverSprite.id);
+                if (receiver) {
+                    if (!receiver.chatHistory) receiver.chatHistory = [];
+                    receiver.chatHistory.push({ role: 'model', parts: [{ text: responseText }] });
+                }
+            });
+
+            // A recorded answer's SAY/WAIT/CLEAR_MESSAGE steps are already in the recording
+            if (!recorded) {
+                host.insertSteps([
+                    { type: 'SAY', spriteId: receiverSprite.id, message: responseText, duration: 0 },
+                    { type: 'WAIT', duration: 4000 },
+                    { type: 'CLEAR_MESSAGE', spriteId: receiverSprite.id, duration: 0 }
+                ]);
+            }
+            host.replaceLastLog(`${receiverSprite.name} responds.`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
+            host.replaceLastLog(`Error: Gemini API call failed for ${receiverSprite.name}: ${errorMessage}`);
+            host.reportError(`Gemini API Error: ${errorMessage}`);
+        }
+    }
+
+    if (step.type === 'SPRITE_REWARD') {
+        const sprite = host.getState().sprites.find(s => s.id === step.spriteId);
+        if (!sprite?.brain) return;
+        try {
+            const thought = step.thought ?? await services.getAiThought(sprite.name, step.value);
+            step.thought = thought;
+            host.updateState(draft => {
+                const targetSprite = draft.sprites.find(s => s.id === step.spriteId);
+                if (targetSprite?.brain) {
+                    targetSprite.brain.lastThought = thought;
+                }
+            });
+        } catch (e) {
+            // Log error but don't stop the simulation
+            console.error("Failed to generate AI thought:", e);
+            host.log(`[System] Error generating thought for ${sprite.name}`);
+        }
+    }
+}
+
+export interface HeadlessResult {
+    state: GameState;
+    // The steps as played: Gemini's answers recorded on them and the steps that show each chat reply inserted
+    steps: ExecutionStep[];
+    logs: string[];
+    errors: string[];
+}
+
+// Plays a recording to the end without a UI. Time is simulated rather than waited for: after each step,
+// tweens and physics are advanced through the step's duration in fixed timesteps. The steps given are
+// left as they are; the ones played, which a replay should hold, are returned.
+export async function playHeadless(
+    steps: ExecutionStep[],
+    services: StepServices = defaultServices,
+    initialState: GameState = initialGameState,
+): Promise<HeadlessResult> {
+    const queue = steps.map(step => ({ ...step }));
+    const logs: string[] = [];
+    const errors: string[] = [];
+    let state = initialState;
+    let now = 0;
+
+    for (let index = 0; index < queue.length; index++) {
+        const step = queue[index];
+        state = applyStep(state, step, now, index);
+        await runStepEffects(step, {
+            getState: () => state,
+            updateState: recipe => { state = produce(state, recipe); },
+            log: message => { logs.push(message); },
+            replaceLastLog: message => { logs[Math.max(0, logs.length - 1)] = message; },
+            clearLogs: () => { logs.length = 0; },
+            insertSteps: inserted => { queue.splice(index + 1, 0, ...inserted); },
+            reportError: message => { errors.push(message); },
+        }, services);
+
+        state = simulateTime(state, now, step.duration);
+        now += step.duration;
+    }
+
+    return { state: expireEffects(advanceFrame(state, Infinity, 0), now), steps: queue, logs, errors };
+}
@@ -0,0 +1,90 @@
+import type { ExecutionStep, GameState } from './types';
+import { advanceFrame, applyStep, expireEffects, settleState, simulateTime } from './simulation';
+import { FIXED_TIMESTEP } from './physics';
+
+// Seeking rebuilds the state by replaying steps from the nearest snapshot at or before the target.
+// A snapshot is kept every this many steps, so a seek never replays more than this many.
+export const SNAPSHOT_INTERVAL = 20;
+
+export interface Timeline {
+    // The state just before steps[index] runs, with every tween finished
+    stateAt: (index: number) => GameState;
+    // Drops snapshots that depend on steps from `index` on, e.g. after steps were inserted there
+    invalidateFrom: (index: number) => void;
+}
+
+export type TimelineMarkerKind = 'say' | 'reward' | 'chat';
+
+export interface TimelineMarker {
+    index: number;
+    kind: TimelineMarkerKind;
+    label: string;
+}
+
+// Replays one step in simulated time. Only the state changes; logs and Gemini calls are not repeated.
+const replayStep = (state: GameState, step: ExecutionStep, index: number) =>
+    settleState(simulateTime(applyStep(state, step, 0, index), 0, step.duration));
+
+// `steps` is read on every seek, so steps appended later (e.g. by a live run) can be sought to as well
+export function createTimeline(steps: ExecutionStep[], start: GameState): Timeline {
+    // snapshots[k] is the state before steps[k * SNAPSHOT_INTERVAL]
+    const snapshots: GameState[] = [settleState(start)];
+
+    return {
+        stateAt: (index) => {
+            const target = Math.max(0, Math.min(index, steps.length));
+            const slot = Math.min(Math.floor(target / SNAPSHOT_INTERVAL), snapshots.length - 1);
+            let state = snapshots[slot];
+            for (let i = slot * SNAPSHOT_INTERVAL; i < target; i++) {
+                state = replayStep(state, steps[i], i);
+                const next = i + 1;
+                if (next % SNAPSHOT_INTERVAL === 0 && snapshots.length === next / SNAPSHOT_INTERVAL) snapshots.push(state);
+            }
+            return state;
+        },
+        invalidateFrom: (index) => {
+            snapshots.length = Math.max(1, Math.min(snapshots.length, Math.floor(index / SNAPSHOT_INTERVAL) + 1));
+        },
+    };
+}
+
+// The steps worth jumping to: speech, rewards and chat requests
+export function findTimelineMarkers(steps: ExecutionStep[]): TimelineMarker[] {
+    const names = new Map<string, string>();
+    const markers: TimelineMarker[] = [];
+    steps.forEach((step, index) => {
+        if (step.type === 'CREATE_SPRITE') names.set(step.sprite.id, step.sprite.name);
+        if (step.type === 'SAY') markers.push({ index, kind: 'say', label: `${names.get(step.spriteId) ?? 'Sprite'}: "${step.message}"` });
+        if (step.type === 'SPRITE_REWARD') markers.push({ index, kind: 'reward', label: `${names.get(step.spriteId) ?? 'Sprite'} rewarded ${step.value}` });
+        if (step.type === 'AI_CHAT_REQUEST') markers.push({ index, kind: 'chat', label: `${names.get(step.spriteId) ?? 'Sprite'} asks "${step.message}"` });
+    });
+    return markers;
+}
+
+// How long the recording takes to play, in ms
+export const recordingDuration = (steps: ExecutionStep[]) => steps.reduce((total, step) => total + step.duration, 0);
+
+// Plays a recording in simulated time and yields the world every 1/fps of a second, e.g. to render a video.
+// `tail` ms are added after the last step so its movement and speech can finish on screen.
+export function* sampleFrames(steps: ExecutionStep[], start: GameState, fps: number, tail = 1000): Generator<{ state: GameState; time: number }> {
+    const frameMs = 1000 / fps;
+    const physicsMs = FIXED_TIMESTEP * 1000;
+    const end = recordingDuration(steps) + tail;
+    let state = start;
+    let next = 0;
+    let stepStart = 0;
+    let physicsTime = 0;
+
+    for (let frame = 0; frame * frameMs <= end; frame++) {
+        const time = frame * frameMs;
+        while (next < steps.length && stepStart <= time) {
+            state = applyStep(state, steps[next], stepStart, next);
+            stepStart += steps[next].duration;
+            next++;
+        }
+        const physicsSteps = Math.floor((time - physicsTime) / physicsMs);
+        physicsTime += physicsSteps * physicsMs;
+        state = expireEffects(advanceFrame(state, time, physicsSteps), time);
+        yield { state, time };
+    }
+}
@@ -0,0 +1,52 @@
+import { transpileCode } from './gemini';
+
+// Gemini's Python for the compiled languages, kept so a file is only sent again once it has changed.
+// Entries are keyed by a hash of the source and its language, and only the most recently used are kept.
+
+const MAX_ENTRIES = 50;
+
+const cache = new Map<string, string>();
+const listeners = new Set<() => void>();
+
+// cyrb53, a fast 53-bit string hash. Not for anything security related.
+function hashSource(code: string, language: string): string {
+    const text = `${language}\n${code}`;
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// The Python a source was last transpiled to, if it has been
+export const cachedTranspilation = (code: string, language: string): string | undefined => cache.get(hashSource(code, language));
+
+// Transpiles through Gemini unless the same source was transpiled before. force skips the cache, for when the
+// cached Python is wrong, and replaces what was cached. Throws as transpileCode does.
+export async function transpileWithCache(code: string, language: string, signal?: AbortSignal, force = false): Promise<string> {
+    const key = hashSource(code, language);
+    const cached = cache.get(key);
+    if (cached !== undefined && !force) {
+        // Moved to the back, as the most recently used
+        cache.delete(key);
+        cache.set(key, cached);
+        return cached;
+    }
+    const python = await transpileCode(code, language, signal);
+    cache.delete(key);
+    cache.set(key, python);
+    if (cache.size > MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+    listeners.forEach(listener => listener());
+    return python;
+}
+
+// Called whenever a transpilation is cached, e.g. to refresh a view of it. Returns a function that stops the calls.
+export function onTranspilationCached(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
@@ -0,0 +1,70 @@
+import type { Easing, Sprite } from './types';
+
+type Point = { x: number; y: number };
+
+// Each curve maps elapsed time (0-1) to progress (0-1)
+const EASINGS: Record<Easing, (t: number) => number> = {
+    linear: t => t,
+    ease_in_out: t => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+    bounce: t => {
+        const n = 7.5625;
+        const d = 2.75;
+        if (t < 1 / d) return n * t * t;
+        if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+        if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+        return n * (t -= 2.625 / d) * t + 0.984375;
+    },
+};
+
+export const EASING_NAMES = Object.keys(EASINGS) as Easing[];
+
+// The point `fraction` of the way along a polyline, measured by distance travelled
+function pointAlong(path: Point[], fraction: number): Point {
+    const lengths = path.slice(1).map((point, i) => Math.hypot(point.x - path[i].x, point.y - path[i].y));
+    let remaining = fraction * lengths.reduce((sum, length) => sum + length, 0);
+    for (let i = 0; i < lengths.length; i++) {
+        if (remaining <= lengths[i] && lengths[i] > 0) {
+            const t = remaining / lengths[i];
+            return { x: path[i].x + (path[i + 1].x - path[i].x) * t, y: path[i].y + (path[i + 1].y - path[i].y) * t };
+        }
+        remaining -= lengths[i];
+    }
+    return path[path.length - 1];
+}
+
+// Moves a sprite to where its tween should be at `now`, and drops the tween once it has finished
+export function applyTween(sprite: Sprite, now: number) {
+    const tween = sprite.tween;
+    if (!tween) return;
+    const elapsed = tween.duration > 0 ? Math.min(1, Math.max(0, (now - tween.startTime) / tween.duration)) : 1;
+    const progress = EASINGS[tween.easing](elapsed);
+    const point = pointAlong(tween.path, progress);
+    sprite.x = point.x;
+    sprite.y = point.y;
+    sprite.rotation = tween.fromRotation + (tween.toRotation - tween.fromRotation) * progress;
+    if (elapsed >= 1) sprite.tween = undefined;
+}
+
+// Jumps a sprite to the end of any tween still in progress
+export const settleTween = (sprite: Sprite) => applyTween(sprite, Infinity);
+
+// Starts animating a sprite along `path` (not including its current position) and/or to `rotation`.
+// A zero duration applies the change immediately.
+export function beginTween(
+    sprite: Sprite,
+    target: { path?: Point[]; rotation?: number },
+    duration: number,
+    easing: Easing = 'linear',
+    now: number,
+) {
+    settleTween(sprite);
+    sprite.tween = {
+        startTime: now,
+        duration,
+        easing,
+        path: [{ x: sprite.x, y: sprite.y }, ...(target.path ?? [])],
+        fromRotation: sprite.rotation,
+        toRotation: target.rotation ?? sprite.rotation,
+    };
+    applyTween(sprite, now);
+}
@@ -1,6 +1,7 @@
 
 
 import type { CSSProperties } from 'react';
+import type { SeededRandom } from './random';
 
 export interface Prop {
   id: string;
@@ -19,8 +20,8 @@ export interface Sprite {
   shape: 'cube' | 'skull' | 'user' | 'smiley';
   x: number; // Position as a percentage (0-100)
   y: number; // Position as a percentage (0-100)
-  vx: number; // Velocity x
-  vy: number; // Velocity y
+  vx: number; // Velocity x, in % per second
+  vy: number; // Velocity y, in % per second
   rotation: number; // Angle in degrees
   styles: CSSProperties;
   data: Record<string, string | number>;
@@ -33,6 +34,24 @@ export interface Sprite {
       rewards: number;
       lastThought?: string;
   };
+  // The sprite's latest go_to() route from where it started, drawn when path debugging is enabled
+  path?: { x: number; y: number }[];
+  mass?: number; // Defaults to 1
+  restitution?: number; // Bounciness from 0 (none) to 1; defaults to 0.2
+  // Set while the sprite is animating towards the target of a MOVE_TO, GO_TO, ROTATE_TO or LOOK_AT
+  tween?: Tween;
+}
+
+export type Easing = 'linear' | 'ease_in_out' | 'bounce';
+
+export interface Tween {
+  startTime: number;
+  duration: number;
+  easing: Easing;
+  // Points to pass through, starting where the sprite was when the tween began
+  path: { x: number; y: number }[];
+  fromRotation: number;
+  toRotation: number;
 }
 
 export type GameEffect = 
@@ -60,6 +79,8 @@ export interface GameState {
   effects: GameEffect[];
   physics: {
     gravity: number;
+    // Fraction of velocity lost per second by every sprite
+    friction: number;
   };
   worldState: WorldState;
 }
@@ -72,12 +93,18 @@ export interface Problem {
   language: string;
 }
 
+// Where in the user's code a step came from
+export interface SourceLocation {
+  fileId: string;
+  line: number;
+}
+
 // Defines a single operation for the runner to execute
-export type ExecutionStep = 
+export type ExecutionStep = (
   | { type: 'CREATE_SPRITE', sprite: Sprite, duration: 0 }
   | { type: 'CREATE_PROP', prop: Prop, duration: 0 }
   | { type: 'DELETE_SPRITE', spriteId: string, duration: 0 }
-  | { type: 'MOVE_TO', spriteId: string, x: number, y: number, duration: number }
+  | { type: 'MOVE_TO', spriteId: string, x: number, y: number, duration: number, easing?: Easing }
   | { type: 'SAY', spriteId: string, message: string, duration: number }
   | { type: 'CLEAR_MESSAGE', spriteId: string, duration: 0 }
   | { type: 'SET_STYLE', spriteId: string, property: string, value: string, duration: number }
@@ -85,19 +112,54 @@ export type ExecutionStep =
   | { type: 'LOG', message: string, duration: 0 }
   | { type: 'CLEAR_LOG', duration: 0 }
   | { type: 'WAIT', duration: number }
-  | { type: 'AI_CHAT_REQUEST', spriteId: string, message: string, duration: 0 }
+  // `response` is filled in once Gemini answers, so playing the recording again doesn't ask a second time
+  | { type: 'AI_CHAT_REQUEST', spriteId: string, message: string, duration: 0, response?: string }
   // Physics and World Interaction
   | { type: 'SET_GRAVITY', strength: number, duration: 0 }
-  | { type: 'ROTATE_TO', spriteId: string, angle: number, duration: number }
-  | { type: 'LOOK_AT', spriteId: string, x: number, y: number, duration: number }
+  | { type: 'SET_FRICTION', friction: number, duration: 0 }
+  | { type: 'APPLY_FORCE', spriteId: string, fx: number, fy: number, duration: 0 }
+  | { type: 'SET_VELOCITY', spriteId: string, vx: number, vy: number, duration: 0 }
+  | { type: 'SET_BODY', spriteId: string, mass?: number, restitution?: number, duration: 0 }
+  | { type: 'ROTATE_TO', spriteId: string, angle: number, duration: number, easing?: Easing }
+  | { type: 'LOOK_AT', spriteId: string, x: number, y: number, duration: number, easing?: Easing }
   | { type: 'PLAY_SOUND', x: number, y: number, duration: 0 }
   // World Building
   | { type: 'SET_BACKGROUND', color: string, duration: 0 }
   // AI & Neurons (now part of Sprite)
   | { type: 'SPRITE_CREATE_NETWORK', spriteId: string, duration: 0 }
-  | { type: 'SPRITE_REWARD', spriteId: string, value: number, duration: 0 }
-  | { type: 'GO_TO', spriteId: string, x: number, y: number, duration: number };
+  | { type: 'SPRITE_REWARD', spriteId: string, value: number, duration: 0, thought?: string }
+  // path holds the waypoints around props, ending at (x, y)
+  | { type: 'GO_TO', spriteId: string, x: number, y: number, path: { x: number; y: number }[], duration: number, easing?: Easing }
+) & {
+  // Recorded by the engines so the editor can highlight the line being replayed
+  source?: SourceLocation;
+};
 
+// The line of the user's code a debug run is paused on, with the variables it can see
+export interface DebugFrame extends SourceLocation {
+  // How many calls deep the line is; the top level of the script is 0
+  depth: number;
+  // The function the line belongs to, or '<module>' at the top level
+  scope: string;
+  // Variable name → a short description of its value
+  variables: Record<string, string>;
+}
+
+// What a debug run reports each time it pauses
+export interface DebugPause {
+  frame: DebugFrame;
+  // The steps generated since it last paused, so the world can be shown as the script has left it so far
+  steps: ExecutionStep[];
+}
+
+// Makes a run pause at breakpoints and steps while it runs (see game/debugger.ts)
+export interface DebugOptions {
+  // Shared with the script's worker: the run waits on it while paused and reads the breakpoints from it
+  buffer: SharedArrayBuffer;
+  onPause: (pause: DebugPause) => void;
+  // Called in the worker when the run carries on, so its time limit leaves out the time it was paused
+  onResume?: () => void;
+}
 
 export interface ExecutionResult {
   newState: GameState;
@@ -105,6 +167,61 @@ export interface ExecutionResult {
   problems: Problem[];
   executedLines: number;
   steps: ExecutionStep[];
+  // Present only for live runs where the script registered at least one event handler
+  session?: LiveSession;
+  // The seed the run started from; passing it back in ExecutionOptions reproduces the run
+  seed?: number;
+  // Set when ExecutionOptions.signal aborted the run; its steps are then empty and should be ignored
+  cancelled?: boolean;
+}
+
+// 'replay' runs the script once and plays back the recorded steps.
+// 'live' keeps the script loaded and calls its event handlers every frame.
+export type SimulationMode = 'replay' | 'live';
+
+export interface ExecutionOptions {
+  mode?: SimulationMode;
+  // Props parsed from world.html, so scripts can sense the world they run in
+  props?: Prop[];
+  // Drives ids, Python's random and the sandbox's Math.random. A fresh seed is picked when omitted.
+  seed?: number;
+  // Shared by the world parser and the engine within one run so their ids come from the same sequence
+  random?: SeededRandom;
+  // Set for a debug run, which pauses at breakpoints. Slows the run down.
+  debug?: DebugOptions;
+  // Wall-clock limit in ms for a script, after which it is stopped. 0 means no limit.
+  timeoutMs?: number;
+  // Lets JavaScript scripts use fetch, WebSocket, import() and the like. Off unless the user allows it.
+  allowNetwork?: boolean;
+  // The project's files, so scripts can import one another. Filled in by parseCode from the file tree.
+  files?: WorkspaceFile[];
+  // Where Pyodide is loaded from, e.g. '/pyodide/' for a copy served with the app. Defaults to the CDN.
+  pythonRuntimeUrl?: string;
+  // The world file the run starts in, e.g. from a run configuration. Defaults to the project's world.html.
+  worldFileId?: string;
+  // Aborting it cancels the run wherever it is: transpiling, loading a runtime or running the script
+  signal?: AbortSignal;
+}
+
+// What a runtime that loads in the background, like Pyodide, is doing, for the UI to show
+export interface RuntimeStatus {
+  state: 'idle' | 'loading' | 'ready' | 'error';
+  message: string;
+}
+
+// The output of a single handler invocation during a live run
+export interface LiveUpdate {
+  steps: ExecutionStep[];
+  logs: string[];
+  problems: Problem[];
+}
+
+// A loaded script whose handlers (on_start, on_tick, on_collision) are driven by the runner
+export interface LiveSession {
+  start: (state: GameState) => Promise<LiveUpdate>;
+  tick: (state: GameState, dt: number) => Promise<LiveUpdate>;
+  collision: (state: GameState, aId: string, bId: string) => Promise<LiveUpdate>;
+  dispose: () => void;
 }
 
 
@@ -117,6 +234,13 @@ export interface FileSystemTree {
   [id: string]: FileSystemNode;
 }
 
+// A file as the runtimes see it: its path from the project root, e.g. 'bots/utils.py', and its contents
+export interface WorkspaceFile {
+  id: string;
+  path: string;
+  code: string;
+}
+
 // Autocomplete Types
 export type SuggestionType = 'class' | 'method' | 'param' | 'library' | 'variable' | 'keyword' | 'function';
 export interface Suggestion {
@@ -0,0 +1,83 @@
+import type TypeScript from 'typescript';
+import type { Problem, WorkspaceFile } from './types';
+import { PLAYGROUND_API_DECLARATION } from './playground_api';
+
+// Type-checks a TypeScript script, and the project files it imports, against the playground's API.
+// Takes the compiler as an argument so it runs wherever one has been loaded (see typescript_worker.ts).
+
+// The standard library scripts are checked against: the language only, since they have no DOM
+export const ROOT_LIB = 'lib.es2020.d.ts';
+
+const API_FILE = '/playground.d.ts';
+
+// The libs a lib file pulls in, e.g. /// <reference lib="es2019" /> in lib.es2020.d.ts
+export const libReferences = (text: string): string[] =>
+    [...text.matchAll(/\/\/\/\s*<reference\s+lib="([^"]+)"/g)].map(match => `lib.${match[1].toLowerCase()}.d.ts`);
+
+export function checkTypeScript(
+    ts: typeof TypeScript,
+    files: WorkspaceFile[],
+    entry: WorkspaceFile,
+    // Reads a standard lib file by name, e.g. lib.es2020.d.ts. Must answer synchronously.
+    readLib: (name: string) => string | undefined
+): Problem[] {
+    // The project is mounted at /, so its paths resolve as they do for the module loader
+    const sources = new Map(files.map(file => [`/${file.path}`, file]));
+    sources.set(`/${entry.path}`, entry);
+
+    const options: TypeScript.CompilerOptions = {
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        // Every file is a module, so top-level await works as it does at run time
+        moduleDetection: ts.ModuleDetectionKind.Force,
+        lib: [ROOT_LIB],
+        jsx: ts.JsxEmit.Preserve,
+        allowJs: true,
+        strict: true,
+        // Live handlers like on_tick(state, dt) are called by the runner and are usually left unannotated
+        noImplicitAny: false,
+        noEmit: true,
+        skipLibCheck: true,
+        types: [],
+    };
+
+    const textOf = (fileName: string): string | undefined => {
+        if (fileName === API_FILE) return PLAYGROUND_API_DECLARATION;
+        if (sources.has(fileName)) return sources.get(fileName)!.code;
+        const name = fileName.split('/').pop()!;
+        return name.startsWith('lib.') ? readLib(name) : undefined;
+    };
+
+    const host: TypeScript.CompilerHost = {
+        getSourceFile: (fileName, languageVersion) => {
+            const text = textOf(fileName);
+            return text === undefined ? undefined : ts.createSourceFile(fileName, text, languageVersion, true);
+        },
+        getDefaultLibFileName: () => `/${ROOT_LIB}`,
+        getDefaultLibLocation: () => '/',
+        writeFile: () => {},
+        getCurrentDirectory: () => '/',
+        getDirectories: () => [],
+        getCanonicalFileName: fileName => fileName,
+        useCaseSensitiveFileNames: () => true,
+        getNewLine: () => '\n',
+        fileExists: fileName => textOf(fileName) !== undefined,
+        readFile: textOf,
+    };
+
+    const program = ts.createProgram([`/${entry.path}`, API_FILE], options, host);
+    return ts.getPreEmitDiagnostics(program).flatMap((diagnostic): Problem[] => {
+        // Only problems in the project's own files; a broken lib or API declaration is not the script's fault
+        const file = diagnostic.file && sources.get(diagnostic.file.fileName);
+        if (!file || diagnostic.start === undefined) return [];
+        const { line } = diagnostic.file!.getLineAndCharacterOfPosition(diagnostic.start);
+        return [{
+            fileId: file.id,
+            line: line + 1,
+            message: `${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')} (TS${diagnostic.code})`,
+            code: file.code,
+            language: file.path.split('.').pop() ?? 'ts',
+        }];
+    });
+}
@@ -0,0 +1,69 @@
+import type { WorkspaceFile } from './types';
+import { checkTypeScript, libReferences, ROOT_LIB } from './typescript_check';
+import type { ScriptWorkerResponse } from './script_worker';
+
+// TypeScript scripts are type-checked here before they run. The compiler is several megabytes, so it is
+// only loaded, with the lib files it checks against, the first time a .ts or .tsx script is run.
+
+export type TypeScriptCheckRequest = {
+    type: 'run', id: number, fileId: string,
+    // The script as it is run, which may differ from its saved file, e.g. for Run Selection
+    code: string,
+    files: WorkspaceFile[],
+};
+
+const TYPESCRIPT_URL = 'https://cdn.jsdelivr.net/npm/typescript@5.5.3/';
+
+// The DOM typings don't describe a worker's global scope, so the two members used here are spelled out
+const scope = self as unknown as {
+    postMessage: (response: ScriptWorkerResponse) => void;
+    onmessage: ((event: MessageEvent<TypeScriptCheckRequest>) => void) | null;
+};
+let compilerPromise: Promise<{ ts: any, libs: Map<string, string> }> | null = null;
+
+async function fetchText(url: string): Promise<string> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${url} answered ${response.status}.`);
+    return response.text();
+}
+
+// The compiler and every lib file the root lib references, directly or not, fetched a level at a time
+function loadCompiler() {
+    compilerPromise ??= (async () => {
+        const { default: ts } = await import(/* @vite-ignore */ `${TYPESCRIPT_URL}+esm`);
+        const libs = new Map<string, string>();
+        for (let pending = [ROOT_LIB]; pending.length > 0;) {
+            const texts = await Promise.all(pending.map(name => fetchText(`${TYPESCRIPT_URL}lib/${name}`)));
+            pending.forEach((name, index) => libs.set(name, texts[index]));
+            pending = [...new Set(texts.flatMap(libReferences))].filter(name => !libs.has(name));
+        }
+        return { ts, libs };
+    })();
+    // A failed load is retried on the next run rather than cached
+    compilerPromise.catch(() => { compilerPromise = null; });
+    return compilerPromise;
+}
+
+const post = (response: ScriptWorkerResponse) => scope.postMessage(response);
+
+scope.onmessage = async (event) => {
+    const request = event.data;
+    const entry = request.files.find(file => file.id === request.fileId);
+    const result = { problems: [], logs: [], steps: [], executedLines: 0 };
+    if (!entry) {
+        post({ type: 'result', id: request.id, result, hasSession: false });
+        return;
+    }
+    let compiler: Awaited<ReturnType<typeof loadCompiler>>;
+    try {
+        compiler = await loadCompiler();
+    } catch (e) {
+        // Without the compiler the script still runs, its types unchecked
+        const message = `Type checking was skipped: the TypeScript compiler failed to load (${e instanceof Error ? e.message : String(e)}).`;
+        post({ type: 'result', id: request.id, result: { ...result, logs: [message] }, hasSession: false });
+        return;
+    }
+    post({ type: 'started', id: request.id });
+    const problems = checkTypeScript(compiler.ts, request.files, { ...entry, code: request.code }, name => compiler.libs.get(name));
+    post({ type: 'result', id: request.id, result: { ...result, problems }, hasSession: false });
+};
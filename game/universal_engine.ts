@@ -1,149 +1,1157 @@
-import { ExecutionStep, Problem, Sprite } from './types';
-import { nanoid } from 'nanoid';
-
-// A generic function to extract named arguments like: (name: "Bot", x: 10, y: 20)
-// Or keyword arguments like: name = "Bot", x = 10, y = 20
-const extractNamedArgs = (argString: string): Record<string, any> => {
-    const args: Record<string, any> = {};
-    const regex = /(\w+)\s*[:=]\s*("([^"]*)"|'([^']*)'|([\d.-]+))/g;
-    let match;
-    while ((match = regex.exec(argString)) !== null) {
-        const [, key, , stringVal1, stringVal2, numVal] = match;
-        args[key] = numVal !== undefined ? parseFloat(numVal) : (stringVal1 || stringVal2);
-    }
-    return args;
+import type { ExecutionOptions, ExecutionResult, FileSystemTree } from './types';
+import { executeJavaScriptCode } from './javascript_engine';
+import { API_LIBRARY_NAMES, ApiMethod, libraryMethods, SPRITE_API } from './api_schema';
+
+// The offline front end for the compiled languages Gemini otherwise transpiles. It understands the core they share:
+// variables, arithmetic, if, loops, printing and calls into the playground API. That core is translated into
+// JavaScript for the JavaScript bridge, each statement on the line it was written on, so steps, problems and runtime
+// errors point at the source. Anything outside it (functions besides main, switch, classes with methods...) is
+// reported as a problem rather than guessed at.
+
+interface LanguageConfig {
+    name: string;
+    // Whether a..b includes b: it does in Kotlin, not in Rust
+    inclusiveDotDot: boolean;
+    // How strings splice in values: "$x" and "${x}" in Kotlin and Dart, "\(x)" in Swift
+    interpolation?: 'dollar' | 'swift';
+}
+
+const LANG_CONFIGS: Record<string, LanguageConfig> = {
+    c: { name: 'C', inclusiveDotDot: false },
+    cpp: { name: 'C++', inclusiveDotDot: false },
+    cs: { name: 'C#', inclusiveDotDot: false },
+    dart: { name: 'Dart', inclusiveDotDot: false, interpolation: 'dollar' },
+    go: { name: 'Go', inclusiveDotDot: false },
+    java: { name: 'Java', inclusiveDotDot: false },
+    kt: { name: 'Kotlin', inclusiveDotDot: true, interpolation: 'dollar' },
+    rs: { name: 'Rust', inclusiveDotDot: false },
+    scala: { name: 'Scala', inclusiveDotDot: false },
+    swift: { name: 'Swift', inclusiveDotDot: false, interpolation: 'swift' },
 };
 
-// A generic function to extract positional arguments like: ("Bot", "user", 10, 20)
-const extractPositionalArgs = (argString: string): any[] => {
-    const args: any[] = [];
-    const regex = /"([^"]*)"|'([^']*)'|([\d.-]+)/g;
-    let match;
-    while ((match = regex.exec(argString)) !== null) {
-        const [, stringVal1, stringVal2, numVal] = match;
-        args.push(numVal !== undefined ? parseFloat(numVal) : (stringVal1 || stringVal2));
-    }
-    return args;
+// The playground API as the JavaScript bridge takes it (see api_schema.ts): each method's parameters in the order
+// positional arguments fill them. null marks a method that takes its one argument as it is rather than in an object.
+const parameterNames = (methods: Record<string, ApiMethod>): Record<string, string[] | null> =>
+    Object.fromEntries(Object.entries(methods).map(([name, method]) => [name, method.positional ? null : method.params.map(param => param.name)]));
+
+const API_METHODS = Object.fromEntries(API_LIBRARY_NAMES.map(library => [library, parameterNames(libraryMethods(library))]));
+const SPRITE_METHODS = parameterNames(SPRITE_API);
+
+// Printing, by the name of the function and what it is called on, e.g. System.out.println or fmt.Println
+const PRINT_FUNCTIONS = new Set(['print', 'println', 'printf', 'puts', 'print!', 'println!', 'eprintln!', 'write', 'writeline']);
+const PRINT_QUALIFIERS = new Set(['', 'system.out', 'console', 'fmt', 'std']);
+const MATH_FUNCTIONS: Record<string, string> = {
+    sqrt: 'sqrt', abs: 'abs', fabs: 'abs', sin: 'sin', cos: 'cos', tan: 'tan', atan: 'atan', atan2: 'atan2',
+    pow: 'pow', powf: 'pow', powi: 'pow', floor: 'floor', ceil: 'ceil', round: 'round', min: 'min', max: 'max',
+    fmin: 'min', fmax: 'max', hypot: 'hypot', exp: 'exp', log: 'log', ln: 'log', random: 'random',
 };
+const MATH_QUALIFIERS = new Set(['', 'math', 'std', 'mathf', 'f64', 'f32', 'kotlin.math']);
+const COLLECTION_FUNCTIONS = new Set(['listof', 'mutablelistof', 'arrayof', 'arraylistof', 'list.of', 'arrays.aslist']);
+const COLLECTION_TYPES = new Set(['ArrayList', 'List', 'LinkedList', 'Vector', 'vector', 'Vec', 'Array', 'MutableList']);
+
+const INTEGER_TYPES = new Set([
+    'int', 'long', 'short', 'byte', 'unsigned', 'signed', 'size_t', 'Int', 'Long', 'Short', 'Byte', 'Integer', 'uint',
+    'i8', 'i16', 'i32', 'i64', 'isize', 'u8', 'u16', 'u32', 'u64', 'usize',
+    'int8', 'int16', 'int32', 'int64', 'uint8', 'uint16', 'uint32', 'uint64',
+]);
+const FLOAT_TYPES = new Set(['float', 'double', 'f32', 'f64', 'Float', 'Double', 'float32', 'float64', 'num', 'decimal']);
+const BOOLEAN_TYPES = new Set(['bool', 'boolean', 'Bool', 'Boolean']);
+const STRING_TYPES = new Set(['string', 'String', 'str']);
 
-const LANG_CONFIGS = {
-    // C#, Dart, Swift often use named parameters
-    cs: { style: 'named', apiObject: 'AI', spriteClass: 'Sprite', newKeyword: 'new', separator: '.' },
-    dart: { style: 'named', apiObject: 'ai', spriteClass: 'Sprite', newKeyword: '', separator: '.' },
-    swift: { style: 'named', apiObject: 'AI', spriteClass: 'Sprite', newKeyword: '', separator: '.' },
-    // C++, Java, Rust, Go, Kotlin, Scala often use positional
-    cpp: { style: 'positional', apiObject: 'ai', spriteClass: 'Sprite', newKeyword: '', separator: '::' },
-    c: { style: 'positional', apiObject: 'ai', spriteClass: 'Sprite', newKeyword: '', separator: '_' }, // C-style: ai_Sprite_create
-    java: { style: 'positional', apiObject: 'AI', spriteClass: 'Sprite', newKeyword: 'new', separator: '.' },
-    kt: { style: 'positional', apiObject: 'ai', spriteClass: 'Sprite', newKeyword: '', separator: '.' },
-    scala: { style: 'positional', apiObject: 'ai', spriteClass: 'Sprite', newKeyword: 'new', separator: '.' },
-    rust: { style: 'positional', apiObject: 'ai', spriteClass: 'Sprite', newKeyword: '', separator: '::' },
-    go: { style: 'positional', apiObject: 'ai', spriteClass: 'Sprite', newKeyword: '', separator: '.' },
+// Words that introduce declarations or qualify them, and are skipped past
+const DECLARATION_KEYWORDS = new Set(['let', 'var', 'val', 'const', 'auto', 'final', 'mut', 'late', 'lateinit']);
+const MODIFIERS = new Set([
+    'public', 'private', 'protected', 'static', 'override', 'open', 'internal', 'abstract', 'pub', 'inline',
+    'virtual', 'extern', 'sealed', 'unsafe', 'partial', 'readonly', 'async', 'external',
+]);
+// Declarations with nothing to run, skipped to the end of the statement
+const SKIPPED_DECLARATIONS = new Set(['import', 'package', 'using', 'use', 'library', 'part']);
+// Declarations whose braces only group what's inside them, so their bodies run as written
+const TRANSPARENT_DECLARATIONS = new Set(['class', 'object', 'namespace', 'impl']);
+const UNSUPPORTED_DECLARATIONS = new Set(['struct', 'enum', 'union', 'interface', 'trait', 'protocol', 'extension', 'typedef', 'template', 'type']);
+const UNSUPPORTED_STATEMENTS = new Set(['switch', 'match', 'when', 'try', 'throw', 'goto', 'defer', 'go', 'select', 'guard']);
+const FUNCTION_KEYWORDS = new Set(['fn', 'func', 'fun', 'def']);
+// Names that can't be a variable
+const RESERVED = new Set([
+    'if', 'else', 'for', 'foreach', 'while', 'do', 'loop', 'return', 'break', 'continue', 'in', 'new', 'class',
+    'true', 'false', 'null', 'nil', 'nullptr', 'NULL', 'this', 'self', 'super', ...DECLARATION_KEYWORDS, ...FUNCTION_KEYWORDS,
+]);
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+    '?:': 1, '||': 2, '&&': 3, '|': 4, '^': 5, '&': 6, '==': 7, '!=': 7, '===': 7, '!==': 7,
+    '<': 8, '>': 8, '<=': 8, '>=': 8, '<<': 9, '>>': 9, '+': 10, '-': 10, '*': 11, '/': 11, '%': 11,
 };
+const JS_OPERATORS: Record<string, string> = { '==': '===', '!=': '!==', '?:': '??' };
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '<<=', '>>=']);
+// Operators that also start an operand, so on a new line they start the next statement instead
+const PREFIX_OPERATORS = new Set(['-', '+', '*', '&', '!', '++', '--']);
 
-export async function executeUniversalCode(code: string, fileId: string, language: string): Promise<Omit<any, 'newState'>> {
-    const logs: string[] = [];
-    const problems: Problem[] = [];
-    const steps: ExecutionStep[] = [];
-    const spriteNames = new Set<string>();
+const SYMBOLS = [
+    '...', '..=', '..<', '<<=', '>>=', '===', '!==', '::', '->', '=>', ':=', '==', '!=', '<=', '>=', '&&', '||',
+    '++', '--', '+=', '-=', '*=', '/=', '%=', '<<', '>>', '..', '?.', '?:', '!!',
+];
 
-    const config = LANG_CONFIGS[language as keyof typeof LANG_CONFIGS];
-    if (!config) {
-        return {
-            logs: [`Execution for language '${language}' is not implemented.`],
-            problems: [],
-            steps: [],
-            executedLines: 0,
+interface Token {
+    type: 'name' | 'number' | 'string' | 'symbol' | 'end';
+    value: string;
+    line: number;
+    // For strings: the quote they were written with, and a prefix such as C#'s $ or Scala's s
+    quote?: string;
+    prefix?: string;
+}
+
+interface TranspileProblem {
+    line: number;
+    message: string;
+}
+
+const fail = (line: number, message: string): never => {
+    throw Object.assign(new Error(message), { line });
+};
+
+const toSnakeCase = (name: string) => name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+// Text as it goes into a JavaScript template literal, keeping its escapes
+const escapeTemplate = (text: string) => text.replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+
+function tokenize(code: string, language: string, firstLine = 1): { tokens: Token[], problems: TranspileProblem[] } {
+    const tokens: Token[] = [];
+    const problems: TranspileProblem[] = [];
+    let line = firstLine;
+    let i = 0;
+    while (i < code.length) {
+        const ch = code[i];
+        if (ch === '\n') {
+            line++;
+            i++;
+        } else if (/\s/.test(ch)) {
+            i++;
+        } else if (code.startsWith('//', i)) {
+            while (i < code.length && code[i] !== '\n') i++;
+        } else if (code.startsWith('/*', i)) {
+            const end = code.indexOf('*/', i + 2);
+            const stop = end === -1 ? code.length : end + 2;
+            if (end === -1) problems.push({ line, message: 'This comment is never closed.' });
+            line += code.slice(i, stop).split('\n').length - 1;
+            i = stop;
+        } else if (ch === '#') {
+            // Preprocessor lines and Rust attributes; #include and the like have nothing to run
+            const end = code.indexOf('\n', i) === -1 ? code.length : code.indexOf('\n', i);
+            if (/^#\s*(define|if|ifdef|ifndef|undef)\b/.test(code.slice(i, end))) {
+                problems.push({ line, message: 'Preprocessor macros and conditionals aren\'t supported by the offline transpiler.' });
+            }
+            i = end;
+        } else if (/^(\$@|@\$|\$|@|s|f)?"|^'/.test(code.slice(i, i + 3))) {
+            const prefix = /^(\$@|@\$|\$|@|s|f)?/.exec(code.slice(i, i + 2))![0];
+            const start = i + prefix.length;
+            const quote = code[start];
+            if (code.startsWith('"""', start)) {
+                const end = code.indexOf('"""', start + 3);
+                problems.push({ line, message: 'Multi-line strings aren\'t supported by the offline transpiler.' });
+                const stop = end === -1 ? code.length : end + 3;
+                line += code.slice(i, stop).split('\n').length - 1;
+                i = stop;
+                continue;
+            }
+            let j = start + 1;
+            while (j < code.length && code[j] !== quote && code[j] !== '\n') j += code[j] === '\\' ? 2 : 1;
+            if (code[j] !== quote) problems.push({ line, message: 'This string is never closed.' });
+            tokens.push({ type: 'string', value: code.slice(start + 1, j), line, quote, prefix });
+            i = j + 1;
+        } else if (/\d/.test(ch)) {
+            const match = /^(0[xX][0-9a-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)\w*/.exec(code.slice(i))!;
+            // Type suffixes like 10f, 5L or 3u32 and digit separators are dropped
+            tokens.push({ type: 'number', value: match[1].replace(/_/g, ''), line });
+            i += match[0].length;
+        } else if (/[A-Za-z_]/.test(ch)) {
+            let name = /^[A-Za-z_]\w*/.exec(code.slice(i))![0];
+            // Rust macros, e.g. println!
+            if (language === 'rs' && code[i + name.length] === '!' && code[i + name.length + 1] !== '=') name += '!';
+            tokens.push({ type: 'name', value: name, line });
+            i += name.length;
+        } else {
+            const symbol = SYMBOLS.find(candidate => code.startsWith(candidate, i))
+                ?? (language === 'scala' && code.startsWith('<-', i) ? '<-' : ch);
+            tokens.push({ type: 'symbol', value: symbol, line });
+            i += symbol.length;
+        }
+    }
+    tokens.push({ type: 'end', value: '', line });
+    return { tokens, problems };
+}
+
+interface TypeName {
+    // The type's own name without its qualifiers, e.g. Sprite for AI.Sprite
+    name: string;
+    path: string[];
+    isArray: boolean;
+}
+
+interface Arguments {
+    positional: string[];
+    named: [string, string][];
+    // The string token an argument was, if it was nothing else, for format strings
+    literals: (Token | undefined)[];
+}
+
+// An expression while its postfix operators are read: the JavaScript so far, the dotted names it was written as
+// while it is only names (e.g. System.out.println), and the object and name of a member access
+interface Operand {
+    js: string;
+    path?: string[];
+    member?: { object: string, name: string };
+}
+
+function createParser(tokens: Token[], language: string, emit: (line: number, text: string) => void) {
+    const config = LANG_CONFIGS[language];
+    const problems: TranspileProblem[] = [];
+    let pos = 0;
+
+    const peek = (offset = 0) => tokens[Math.min(pos + offset, tokens.length - 1)];
+    const next = () => tokens[Math.min(pos++, tokens.length - 1)];
+    const previousLine = () => tokens[Math.max(pos - 1, 0)].line;
+    const isSymbol = (value: string, offset = 0) => peek(offset).type === 'symbol' && peek(offset).value === value;
+    const isName = (value?: string, offset = 0) => peek(offset).type === 'name' && (value === undefined || peek(offset).value === value);
+    const accept = (value: string) => {
+        if (peek().type !== 'symbol' && peek().type !== 'name') return false;
+        if (peek().value !== value) return false;
+        pos++;
+        return true;
+    };
+    const describe = (token: Token) => token.type === 'end' ? 'the end of the file' : `'${token.value}'`;
+    const expect = (value: string): Token => {
+        if (peek().value !== value || peek().type === 'string') fail(peek().line, `Expected '${value}' but found ${describe(peek())}.`);
+        return next();
+    };
+    // Members may be named like keywords, as Rust's Sprite::new is
+    const expectMember = (): string => {
+        if (!isName()) fail(peek().line, `Expected a member name but found ${describe(peek())}.`);
+        return next().value;
+    };
+    const expectName = (what: string): string => {
+        const token = peek();
+        if (token.type !== 'name' || RESERVED.has(token.value)) fail(token.line, `Expected ${what} but found ${describe(token)}.`);
+        return next().value;
+    };
+
+    // Skips a bracketed group, e.g. a parameter list, from its opening bracket to the matching close
+    const skipGroup = () => {
+        const open = next().value;
+        const close = ({ '(': ')', '[': ']', '{': '}', '<': '>' } as Record<string, string>)[open];
+        let depth = 1;
+        while (depth > 0 && peek().type !== 'end') {
+            const token = next();
+            if (token.type !== 'symbol') continue;
+            if (token.value === open) depth++;
+            else if (token.value === close) depth--;
+            else if (open === '<' && token.value === '>>') depth -= 2;
+        }
+        if (depth > 0) fail(peek().line, `'${open}' is never closed.`);
+    };
+
+    // Reads a type such as int, std::string, List<Sprite>, Sprite* or []int. Returns null, reading nothing, if there isn't one.
+    const parseType = (): TypeName | null => {
+        const start = pos;
+        let isArray = false;
+        while (isSymbol('&') || isSymbol('*') || (isSymbol('[') && isSymbol(']', 1))) {
+            if (isSymbol('[')) {
+                isArray = true;
+                pos++;
+            }
+            pos++;
+        }
+        while (isName('const') || isName('unsigned') || isName('signed') || isName('long') || isName('mut') || isName('dyn')) {
+            if (!isName(undefined, 1)) break;
+            pos++;
+        }
+        if (!isName() || RESERVED.has(peek().value) || DECLARATION_KEYWORDS.has(peek().value)) {
+            pos = start;
+            return null;
+        }
+        const path = [next().value];
+        while ((isSymbol('::') || isSymbol('.')) && isName(undefined, 1)) {
+            pos++;
+            path.push(next().value);
+        }
+        if (isSymbol('<')) {
+            // Generic arguments may only hold types, or this is a comparison
+            let depth = 0;
+            const groupStart = pos;
+            do {
+                const token = next();
+                if (token.value === '<') depth++;
+                else if (token.value === '>') depth--;
+                else if (token.value === '>>') depth -= 2;
+                else if (token.type !== 'name' && ![',', '::', '.', '?', '*', '&', '[', ']'].includes(token.value)) {
+                    pos = start;
+                    return null;
+                }
+            } while (depth > 0 && peek().type !== 'end');
+            if (depth < 0 || pos === groupStart) {
+                pos = start;
+                return null;
+            }
+        }
+        while (isSymbol('*') || isSymbol('&') || isSymbol('?') || (isSymbol('[') && isSymbol(']', 1))) {
+            if (isSymbol('[')) {
+                isArray = true;
+                pos++;
+            }
+            pos++;
+        }
+        return { name: path[path.length - 1], path, isArray };
+    };
+
+    // What a variable declared without a value starts as, by its type
+    const defaultValue = (type: TypeName | null): string => {
+        if (!type) return '';
+        if (type.isArray || COLLECTION_TYPES.has(type.name)) return ' = []';
+        if (INTEGER_TYPES.has(type.name) || FLOAT_TYPES.has(type.name)) return ' = 0';
+        if (BOOLEAN_TYPES.has(type.name)) return ' = false';
+        if (STRING_TYPES.has(type.name)) return ' = ""';
+        return '';
+    };
+
+    // Parses the source of an interpolated value, e.g. the x + 1 in "${x + 1}"
+    const subExpression = (text: string, line: number): string => {
+        const { tokens: subTokens, problems: subProblems } = tokenize(text, language, line);
+        if (subProblems.length > 0) fail(line, subProblems[0].message);
+        const parser = createParser(subTokens, language, () => {});
+        return parser.wholeExpression();
+    };
+
+    const template = (parts: (string | { expression: string })[]) =>
+        '`' + parts.map(part => typeof part === 'string' ? escapeTemplate(part) : '${' + part.expression + '}').join('') + '`';
+
+    const stringLiteral = (token: Token): string => {
+        // C#'s verbatim strings take backslashes literally and double their quotes
+        const raw = token.prefix?.includes('@') ? token.value.replace(/\\/g, '\\\\').replace(/""/g, '\\"') : token.value;
+        const mode = token.prefix?.includes('$') ? 'braces'
+            : token.prefix === 's' || token.prefix === 'f' ? 'dollar'
+            : config.interpolation === 'dollar' && (token.quote === '"' || language === 'dart') ? 'dollar'
+            : config.interpolation === 'swift' && token.quote === '"' ? 'swift'
+            : null;
+        const parts: (string | { expression: string })[] = [];
+        let literal = '';
+        // The text from `start` to the bracket that closes the one before it
+        const closing = (start: number, open: string, close: string) => {
+            let depth = 1;
+            let j = start;
+            while (j < raw.length && depth > 0) {
+                if (raw[j] === open) depth++;
+                else if (raw[j] === close) depth--;
+                j++;
+            }
+            if (depth > 0) fail(token.line, `An interpolated value in this string is missing its '${close}'.`);
+            return j - 1;
         };
+        for (let i = 0; i < raw.length;) {
+            const rest = raw.slice(i);
+            let expression: string | null = null;
+            if (mode === 'swift' && rest.startsWith('\\(')) {
+                const end = closing(i + 2, '(', ')');
+                expression = raw.slice(i + 2, end);
+                i = end + 1;
+            } else if (raw[i] === '\\') {
+                literal += raw.slice(i, i + 2);
+                i += 2;
+                continue;
+            } else if (mode === 'dollar' && rest.startsWith('${')) {
+                const end = closing(i + 2, '{', '}');
+                expression = raw.slice(i + 2, end);
+                i = end + 1;
+            } else if (mode === 'dollar' && /^\$[A-Za-z_]/.test(rest)) {
+                expression = /^\$(\w+)/.exec(rest)![1];
+                i += expression.length + 1;
+            } else if (mode === 'braces' && (rest.startsWith('{{') || rest.startsWith('}}'))) {
+                literal += raw[i];
+                i += 2;
+                continue;
+            } else if (mode === 'braces' && raw[i] === '{') {
+                const end = closing(i + 1, '{', '}');
+                // Alignment and format specifiers, as in {x,5} or {x:F2}, are left out
+                expression = raw.slice(i + 1, end).split(/[,:]/)[0];
+                i = end + 1;
+            } else {
+                literal += raw[i];
+                i++;
+                continue;
+            }
+            parts.push(literal, { expression: subExpression(expression, token.line) });
+            literal = '';
+        }
+        parts.push(literal);
+        if (parts.length === 1) {
+            const quote = token.quote === "'" ? "'" : '"';
+            return `${quote}${parts[0]}${quote}`;
+        }
+        return template(parts);
+    };
+
+    // The text of a format string, without the line break printf-style formats end with
+    const formatText = (token: Token) => token.value.replace(/(\\n|%n)$/, '');
+
+    // printf("%d of %s", a, b) and its relatives, formatted where the format string is known
+    const printfFormat = (format: Token, values: string[]): string => {
+        const parts: (string | { expression: string })[] = [];
+        const text = formatText(format);
+        let used = 0;
+        let last = 0;
+        for (const match of text.matchAll(/%([-+ 0#]*)(\d+|\*)?(?:\.(\d+))?(hh|h|ll|l|L|z|j|t)?([diouxXeEfFgGcsvqpTn%])/g)) {
+            parts.push(text.slice(last, match.index));
+            last = match.index! + match[0].length;
+            const [, , , precision, , specifier] = match;
+            if (specifier === '%' || specifier === 'n') {
+                parts.push(specifier === '%' ? '%' : '\\n');
+                continue;
+            }
+            if (used >= values.length) fail(format.line, `The format string has more placeholders than the ${values.length} value(s) given.`);
+            const value = values[used++];
+            const expression = 'diu'.includes(specifier) ? `Math.trunc(${value})`
+                : 'fF'.includes(specifier) ? `(${value}).toFixed(${precision ?? 6})`
+                : 'xX'.includes(specifier) ? `(${value}).toString(16)${specifier === 'X' ? '.toUpperCase()' : ''}`
+                : specifier === 'o' ? `(${value}).toString(8)`
+                : value;
+            parts.push({ expression });
+        }
+        parts.push(text.slice(last));
+        if (used < values.length) fail(format.line, `The format string has fewer placeholders than the ${values.length} value(s) given.`);
+        return template(parts);
+    };
+
+    // Rust's println!("{} is {x:.2}", a) and C#'s Console.WriteLine("{0} is {1:F2}", a, b)
+    const braceFormat = (format: Token, values: string[], named: [string, string][]): string => {
+        const parts: (string | { expression: string })[] = [];
+        const text = formatText(format);
+        let nextValue = 0;
+        let last = 0;
+        for (const match of text.matchAll(/\{\{|\}\}|\{([^{}]*)\}/g)) {
+            parts.push(text.slice(last, match.index));
+            last = match.index! + match[0].length;
+            if (match[0] === '{{' || match[0] === '}}') {
+                parts.push(match[0][0]);
+                continue;
+            }
+            const [argument, spec = ''] = match[1].split(':');
+            const [reference] = argument.split(',');
+            let value: string;
+            if (reference.trim() === '') value = values[nextValue++];
+            else if (/^\d+$/.test(reference.trim())) value = values[Number(reference)];
+            else value = named.find(([key]) => key === reference.trim())?.[1] ?? subExpression(reference, format.line);
+            if (value === undefined) fail(format.line, `The format string refers to more values than the ${values.length} given.`);
+            const precision = /^\.(\d+)$|^[Ff](\d+)$/.exec(spec.trim());
+            parts.push({ expression: precision ? `(${value}).toFixed(${precision[1] ?? precision[2]})` : value });
+        }
+        parts.push(text.slice(last));
+        return template(parts);
+    };
+
+    const parseArguments = (close: string): Arguments => {
+        const args: Arguments = { positional: [], named: [], literals: [] };
+        while (!isSymbol(close)) {
+            // Named arguments: name: value in C#, Swift and Dart, name = value in Kotlin and Scala
+            if (isName() && (isSymbol(':', 1) || isSymbol('=', 1))) {
+                const key = next().value;
+                pos++;
+                args.named.push([toSnakeCase(key), expression()]);
+            } else {
+                if (args.named.length > 0) fail(peek().line, 'Positional arguments have to come before named ones.');
+                const start = peek();
+                const value = expression();
+                args.positional.push(value);
+                args.literals.push(start.type === 'string' && tokens[pos - 1] === start ? start : undefined);
+            }
+            if (!accept(',')) break;
+        }
+        expect(close);
+        return args;
+    };
+
+    // The argument the JavaScript bridge takes for an API call: an object of named values, or one value as it is
+    const apiArguments = (params: string[] | null, args: Arguments, what: string, line: number): string => {
+        if (params === null) {
+            const values = [...args.positional, ...args.named.map(([, value]) => value)];
+            if (values.length !== 1) fail(line, `${what}() takes one argument.`);
+            return values[0];
+        }
+        if (args.positional.length > params.length) fail(line, `${what}() takes at most ${params.length} argument(s).`);
+        const entries = args.positional.map((value, index) => `${params[index]}: ${value}`);
+        for (const [key, value] of args.named) {
+            if (!params.includes(key)) fail(line, `${what}() has no parameter named '${key}'.`);
+            entries.push(`${key}: ${value}`);
+        }
+        return entries.length > 0 ? `{ ${entries.join(', ')} }` : '';
+    };
+
+    // The API method a call names, e.g. ai.Sprite for AI.Sprite, ai::Sprite::new, ai_Sprite or a bare Sprite
+    const resolveApi = (path: string[], line: number): { js: string, params: string[] | null } | null => {
+        let names = path.length > 1 && path[path.length - 1] === 'new' ? path.slice(0, -1) : path;
+        if (names.length === 1) {
+            const prefixed = new RegExp(`^(${API_LIBRARY_NAMES.join('|')})_(\\w+)$`, 'i').exec(names[0]);
+            if (prefixed) names = [prefixed[1], prefixed[2]];
+            else if (names[0] === 'Sprite') names = ['ai', 'Sprite'];
+        }
+        if (names.length !== 2) return null;
+        const root = names[0].toLowerCase();
+        if (!(root in API_METHODS)) return null;
+        const method = names[1].toLowerCase() === 'sprite' ? 'Sprite' : toSnakeCase(names[1]);
+        const params = API_METHODS[root][method];
+        if (params === undefined) fail(line, `${root}.${method}() isn't part of the playground API.`);
+        return { js: `${root}.${method}`, params };
+    };
+
+    const noNamedArguments = (args: Arguments, what: string, line: number) => {
+        if (args.named.length > 0) fail(line, `${what}() doesn't take named arguments.`);
+    };
+
+    // Functions the transpiler knows by name: printing, formatting, math, len() and list builders
+    const knownFunction = (path: string[], args: Arguments, line: number): string | null => {
+        const lower = path.map(name => name.toLowerCase());
+        const name = lower[lower.length - 1];
+        const qualifier = lower.slice(0, -1).join('.');
+        const values = args.positional;
+        const format = args.literals[0];
+
+        const isFormat = (name === 'format!' && qualifier === '') || (name === 'format' && qualifier === 'string') || (name === 'sprintf' && qualifier === 'fmt');
+        if (isFormat || (PRINT_FUNCTIONS.has(name) && PRINT_QUALIFIERS.has(qualifier))) {
+            const usesBraces = name.endsWith('!') || (qualifier === 'console' && values.length > 1) || (name === 'format' && language === 'cs');
+            // Only Rust's formats name their values, as in println!("{x}", x = 1)
+            if (!name.endsWith('!')) noNamedArguments(args, path.join('.'), line);
+            let text: string;
+            if (usesBraces) {
+                if (!format) fail(line, `${path.join('.')}() needs a string literal as its format.`);
+                text = braceFormat(format!, values.slice(1), args.named);
+            } else if (name === 'printf' || name === 'sprintf' || name === 'format') {
+                if (!format) fail(line, `${path.join('.')}() needs a string literal as its format.`);
+                text = printfFormat(format!, values.slice(1));
+            } else {
+                text = values.join(', ');
+            }
+            return isFormat ? text : `console.log(${text})`;
+        }
+        if (MATH_FUNCTIONS[name] && MATH_QUALIFIERS.has(qualifier)) {
+            noNamedArguments(args, path.join('.'), line);
+            return `Math.${MATH_FUNCTIONS[name]}(${values.join(', ')})`;
+        }
+        if (qualifier === '' && (name === 'len' || name === 'strlen')) {
+            if (values.length !== 1) fail(line, `${path.join('.')}() takes one argument.`);
+            return `${values[0]}.length`;
+        }
+        if (qualifier === '' && name === 'append' && values.length > 0) return `[...${values[0]}, ${values.slice(1).join(', ')}]`;
+        if (COLLECTION_FUNCTIONS.has(lower.join('.'))) return `[${values.join(', ')}]`;
+        if ((qualifier === '' || qualifier === 'std') && ['to_string', 'string', 'str'].includes(name)) return `String(${values.join(', ')})`;
+        if (qualifier === '' && INTEGER_TYPES.has(path[path.length - 1])) return `Math.trunc(Number(${values.join(', ')}))`;
+        if (qualifier === '' && FLOAT_TYPES.has(path[path.length - 1])) return `Number(${values.join(', ')})`;
+        return null;
+    };
+
+    // Methods called on a value that isn't part of the API: a sprite's, or a list's, string's or number's
+    const methodCall = (object: string, name: string, args: Arguments, line: number): string => {
+        const method = toSnakeCase(name);
+        if (Object.hasOwn(SPRITE_METHODS, method)) return `${object}.${method}(${apiArguments(SPRITE_METHODS[method], args, method, line)})`;
+        noNamedArguments(args, name, line);
+        const values = args.positional;
+        switch (method) {
+            case 'size': case 'len': case 'length': case 'count':
+                return `${object}.length`;
+            case 'is_empty':
+                return `(${object}.length === 0)`;
+            case 'add': case 'push': case 'push_back': case 'append':
+                return `${object}.push(${values.join(', ')})`;
+            case 'get':
+                return `${object}[${values[0]}]`;
+            case 'contains':
+                return `${object}.includes(${values.join(', ')})`;
+            case 'to_string': case 'to_owned':
+                return `String(${object})`;
+            case 'clone': case 'iter': case 'into_iter': case 'unwrap': case 'as_str':
+                return object;
+        }
+        if (MATH_FUNCTIONS[method] && method !== 'random') return `Math.${MATH_FUNCTIONS[method]}(${[object, ...values].join(', ')})`;
+        return fail(line, `.${name}() isn't supported by the offline transpiler. Sprites have ${Object.keys(SPRITE_METHODS).join(', ')}.`);
+    };
+
+    const call = (operand: Operand, args: Arguments, line: number): string => {
+        if (operand.path) {
+            const api = resolveApi(operand.path, line);
+            if (api) return `${api.js}(${apiArguments(api.params, args, api.js, line)})`;
+            const known = knownFunction(operand.path, args, line);
+            if (known !== null) return known;
+        }
+        if (operand.member) return methodCall(operand.member.object, operand.member.name, args, line);
+        return fail(line, `${operand.path?.join('.') ?? operand.js}() isn't available offline. The offline transpiler knows the playground API, printing and math, and can't define functions yet.`);
+    };
+
+    // new AI.Sprite(...) and new ArrayList<>() and the like
+    const newExpression = (line: number): string => {
+        const type = parseType();
+        if (!type) return fail(line, `Expected a type after 'new' but found ${describe(peek())}.`);
+        const args = isSymbol('{') ? (pos++, parseArguments('}')) : isSymbol('(') ? (pos++, parseArguments(')')) : { positional: [], named: [], literals: [] };
+        if (type.name.toLowerCase() === 'sprite') {
+            return `ai.Sprite(${apiArguments(API_METHODS.ai.Sprite, args, 'ai.Sprite', line)})`;
+        }
+        if (type.isArray || COLLECTION_TYPES.has(type.name)) return `[${args.positional.join(', ')}]`;
+        return fail(line, `new ${type.path.join('.')}() isn't supported by the offline transpiler.`);
+    };
+
+    const primary = (): Operand => {
+        const token = next();
+        if (token.type === 'number') return { js: token.value };
+        if (token.type === 'string') return { js: stringLiteral(token) };
+        if (token.type === 'name') {
+            if (token.value === 'true' || token.value === 'false') return { js: token.value };
+            if (['null', 'nil', 'nullptr', 'NULL', 'None'].includes(token.value)) return { js: 'null' };
+            if (token.value === 'vec!') {
+                expect('[');
+                return { js: `[${parseArguments(']').positional.join(', ')}]` };
+            }
+            if (['this', 'self', 'super'].includes(token.value)) fail(token.line, `'${token.value}' isn't supported by the offline transpiler.`);
+            if (RESERVED.has(token.value)) fail(token.line, `'${token.value}' can't be used as a value here.`);
+            return { js: token.value, path: [token.value] };
+        }
+        if (token.value === '(') {
+            const inner = expression();
+            if (isSymbol(',')) fail(token.line, 'Tuples aren\'t supported by the offline transpiler.');
+            expect(')');
+            return { js: `(${inner})` };
+        }
+        if (token.value === '[' || token.value === '{') {
+            return { js: `[${parseArguments(token.value === '[' ? ']' : '}').positional.join(', ')}]` };
+        }
+        return fail(token.line, `Unexpected ${describe(token)}.`);
+    };
+
+    const postfix = (operand: Operand): string => {
+        for (;;) {
+            const token = peek();
+            const onNewLine = token.line > previousLine();
+            if (token.type === 'symbol' && ['.', '->', '::', '?.'].includes(token.value)) {
+                pos++;
+                const name = expectMember();
+                const js = `${operand.js}${token.value === '?.' ? '?.' : '.'}${name}`;
+                operand = { js, path: operand.path && [...operand.path, name], member: { object: operand.js, name } };
+                // Lengths read as properties, e.g. Count in C# or size in Kotlin
+                if (!isSymbol('(') && ['Count', 'Length', 'count', 'size', 'len'].includes(name) && !operand.path?.every(part => part in API_METHODS)) {
+                    operand = { js: `${operand.member!.object}.length` };
+                }
+            } else if (token.value === '(' && token.type === 'symbol' && !onNewLine) {
+                pos++;
+                operand = { js: call(operand, parseArguments(')'), token.line) };
+            } else if (token.value === '[' && token.type === 'symbol' && !onNewLine) {
+                pos++;
+                const index = expression();
+                expect(']');
+                operand = { js: `${operand.js}[${index}]` };
+            } else if ((token.value === '++' || token.value === '--') && !onNewLine) {
+                pos++;
+                operand = { js: `${operand.js}${token.value}` };
+            } else if (token.value === '!!' || (token.value === '?' && language === 'rs')) {
+                // Kotlin's not-null assertion and Rust's error propagation
+                pos++;
+            } else if (isName('as') && !onNewLine) {
+                pos++;
+                accept('?');
+                const type = parseType();
+                if (!type) fail(token.line, `Expected a type after 'as' but found ${describe(peek())}.`);
+                operand = { js: INTEGER_TYPES.has(type!.name) ? `Math.trunc(${operand.js})` : operand.js };
+            } else {
+                return operand.js;
+            }
+        }
+    };
+
+    const unary = (): string => {
+        const token = peek();
+        if (token.type === 'symbol' && ['-', '+', '!', '~', '++', '--'].includes(token.value)) {
+            pos++;
+            const operand = unary();
+            return operand.startsWith(token.value[0]) ? `${token.value} ${operand}` : `${token.value}${operand}`;
+        }
+        if (token.type === 'symbol' && ['&', '&&', '*'].includes(token.value)) {
+            // References and dereferences: every value is already a reference in JavaScript
+            pos++;
+            accept('mut');
+            return unary();
+        }
+        if (isName('new')) {
+            pos++;
+            return postfix({ js: newExpression(token.line) });
+        }
+        // C-style casts, e.g. (int)x
+        if (isSymbol('(') && isName(undefined, 1) && isSymbol(')', 2)
+            && (INTEGER_TYPES.has(peek(1).value) || FLOAT_TYPES.has(peek(1).value))
+            && ['name', 'number', 'string'].includes(peek(3).type) || (isSymbol('(') && isSymbol('(', 3) && isName(undefined, 1) && isSymbol(')', 2) && (INTEGER_TYPES.has(peek(1).value) || FLOAT_TYPES.has(peek(1).value)))) {
+            const type = peek(1).value;
+            pos += 3;
+            const operand = unary();
+            return INTEGER_TYPES.has(type) ? `Math.trunc(${operand})` : operand;
+        }
+        return postfix(primary());
+    };
+
+    const binary = (minPrecedence: number): string => {
+        let left = unary();
+        for (;;) {
+            const token = peek();
+            const precedence = token.type === 'symbol' ? BINARY_PRECEDENCE[token.value] : undefined;
+            if (precedence === undefined || precedence < minPrecedence) return left;
+            if (token.line > previousLine() && PREFIX_OPERATORS.has(token.value)) return left;
+            pos++;
+            left = `${left} ${JS_OPERATORS[token.value] ?? token.value} ${binary(precedence + 1)}`;
+        }
+    };
+
+    function expression(): string {
+        const condition = binary(1);
+        if (!isSymbol('?')) return condition;
+        pos++;
+        const whenTrue = expression();
+        expect(':');
+        return `${condition} ? ${whenTrue} : ${expression()}`;
+    }
+
+    // The condition of an if or a loop, in the parentheses JavaScript needs whether or not it was written in them
+    const condition = (): string => {
+        const js = expression();
+        let depth = 0;
+        for (let i = 0; i < js.length; i++) {
+            if (js[i] === '(') depth++;
+            else if (js[i] === ')') depth--;
+            if (depth === 0 && i < js.length - 1) return `(${js})`;
+        }
+        return depth === 0 && js.startsWith('(') ? js : `(${js})`;
+    };
+
+    // An expression, or an assignment to one
+    const assignment = (): string => {
+        const target = expression();
+        if (!ASSIGNMENT_OPERATORS.has(peek().value) || peek().type !== 'symbol') return target;
+        const operator = next().value;
+        return `${target} ${operator} ${expression()}`;
+    };
+
+    const endStatement = () => {
+        if (accept(';')) return;
+        const token = peek();
+        if (token.type === 'end' || isSymbol('}') || token.line > previousLine()) return;
+        fail(token.line, `Expected ';' or a new line before ${describe(token)}.`);
+    };
+
+    // A variable declaration in any of its spellings: int x = 1, var x: Int = 1, let mut x = 1, x := 1, var x int.
+    // Returns its JavaScript without the semicolon, or null, reading nothing, if the statement isn't one.
+    const declaration = (): string | null => {
+        const start = pos;
+        let type: TypeName | null = null;
+        if (isName() && isSymbol(':=', 1)) {
+            const name = expectName('a variable name');
+            pos++;
+            return `let ${name} = ${expression()}`;
+        }
+        const hasKeyword = isName() && DECLARATION_KEYWORDS.has(peek().value);
+        while (isName() && DECLARATION_KEYWORDS.has(peek().value)) pos++;
+        // A type ahead of the name, as in int x or const std::string name
+        const typeStart = pos;
+        type = parseType();
+        if (!type || !isName() || RESERVED.has(peek().value) || !(isSymbol('=', 1) || isSymbol(';', 1) || isSymbol(',', 1) || isSymbol(':', 1) || isSymbol('[', 1) || peek(1).line > peek().line || peek(1).type === 'end' || isSymbol('}', 1) || isName(undefined, 1))) {
+            type = null;
+            pos = typeStart;
+            if (!hasKeyword) {
+                pos = start;
+                return null;
+            }
+        }
+        const declarators: string[] = [];
+        do {
+            if (isSymbol('(')) fail(peek().line, 'Destructuring isn\'t supported by the offline transpiler.');
+            const line = peek().line;
+            const name = expectName('a variable name');
+            let declaredType = type;
+            if (isSymbol('[')) fail(line, 'C arrays aren\'t supported by the offline transpiler; use a list.');
+            // The type after the name: x: Int, or Go's var x int
+            if (accept(':') || (isName() && peek().line === line && !type)) {
+                declaredType = parseType();
+                if (!declaredType) fail(peek().line, `Expected a type but found ${describe(peek())}.`);
+            }
+            declarators.push(accept('=') ? `${name} = ${expression()}` : `${name}${defaultValue(declaredType)}`);
+        } while (accept(','));
+        return `let ${declarators.join(', ')}`;
+    };
+
+    const body = () => {
+        if (isSymbol('{')) block();
+        else statement();
+    };
+
+    function block() {
+        const open = expect('{');
+        emit(open.line, '{');
+        statementsUntil('}');
+        emit(expect('}').line, '}');
     }
 
-    const lines = code.split('\n');
-    lines.forEach((line, index) => {
-        try {
-            // Match sprite creation
-            const creationPattern = new RegExp(`(\\w+)\\s*[:=]*\\s*(?:${config.newKeyword}\\s+)?${config.apiObject}${config.separator}${config.spriteClass}\\((.*?)\\)`);
-            const creationMatch = line.match(creationPattern);
-            if (creationMatch) {
-                const [, varName, argString] = creationMatch;
-                let args;
-                let name, shape, x, y;
-
-                if (config.style === 'named') {
-                    args = extractNamedArgs(argString);
-                    name = args.name;
-                    shape = args.shape || 'cube';
-                    x = args.x ?? 50;
-                    y = args.y ?? 50;
+    // Where the header of a for loop ends: the ')' matching the one it opened with, or Go's '{'
+    const headerHasSemicolon = (parenthesized: boolean): boolean => {
+        let depth = 0;
+        for (let i = pos; i < tokens.length; i++) {
+            const { type, value } = tokens[i];
+            if (type !== 'symbol') continue;
+            if (value === ';' && depth === 0) return true;
+            if (['(', '[', '{'].includes(value)) {
+                if (value === '{' && depth === 0 && !parenthesized) return false;
+                depth++;
+            } else if ([')', ']', '}'].includes(value)) {
+                depth--;
+                if (depth < 0) return false;
+            }
+        }
+        return false;
+    };
+
+    // The loop variable(s) of a for-each or range loop, followed by what they loop over: in, :, <- or Go's := range.
+    // Returns null, reading nothing, if the loop isn't one.
+    const loopVariables = (): { names: string[], separator: string } | null => {
+        const start = pos;
+        while (isName() && DECLARATION_KEYWORDS.has(peek().value)) pos++;
+        while (isSymbol('&') || isSymbol('&&')) pos++;
+        const typeStart = pos;
+        if (!(parseType() && isName() && !RESERVED.has(peek().value))) pos = typeStart;
+        const names: string[] = [];
+        while (isName() && !RESERVED.has(peek().value)) {
+            names.push(next().value);
+            if (!accept(',')) break;
+        }
+        const separator = peek().value;
+        if (names.length > 0 && (isName('in') || isSymbol(':') || isSymbol('<-') || isSymbol(':=') || isSymbol('='))) {
+            pos++;
+            if (separator === ':=' || separator === '=') {
+                if (!accept('range')) {
+                    pos = start;
+                    return null;
+                }
+            }
+            return { names, separator };
+        }
+        pos = start;
+        return null;
+    };
+
+    const forStatement = (line: number) => {
+        const parenthesized = accept('(');
+        let header: string;
+        if (!parenthesized && isSymbol('{')) {
+            // Go's for { }
+            header = 'while (true)';
+        } else if (headerHasSemicolon(parenthesized)) {
+            const init = isSymbol(';') ? '' : declaration() ?? assignment();
+            expect(';');
+            const condition = isSymbol(';') ? '' : expression();
+            expect(';');
+            const updates: string[] = [];
+            while (!isSymbol(')') && !isSymbol('{')) {
+                updates.push(assignment());
+                if (!accept(',')) break;
+            }
+            header = `for (${init}; ${condition}; ${updates.join(', ')})`;
+        } else {
+            const variables = loopVariables();
+            if (!variables) {
+                // Go's for condition { }
+                header = `while ${condition()}`;
+            } else {
+                const from = expression();
+                const rangeToken = peek();
+                const [first, second] = variables.names;
+                if (variables.separator === ':=' || variables.separator === '=') {
+                    // Go's range: one variable takes the index, two take the index and the value
+                    const isCount = /^\d+$/.test(from);
+                    if (second !== undefined) header = `for (const [${first}, ${second}] of ${from}.entries())`;
+                    else header = `for (let ${first} = 0; ${first} < ${isCount ? from : `${from}.length`}; ${first}++)`;
+                    if (second !== undefined && first === '_') header = `for (const ${second} of ${from})`;
+                } else if (['..', '..=', '..<', '...', 'until', 'to', 'downTo'].includes(rangeToken.value)) {
+                    pos++;
+                    const to = binary(2);
+                    const step = accept('step') ? expression() : '1';
+                    const inclusive = ['..=', '...', 'to', 'downTo'].includes(rangeToken.value) || (rangeToken.value === '..' && config.inclusiveDotDot);
+                    if (rangeToken.value === 'downTo') {
+                        header = `for (let ${first} = ${from}; ${first} >= ${to}; ${first} -= ${step})`;
+                    } else {
+                        header = `for (let ${first} = ${from}; ${first} ${inclusive ? '<=' : '<'} ${to}; ${first} += ${step})`;
+                    }
                 } else {
-                    args = extractPositionalArgs(argString);
-                    [name, shape = 'cube', x = 50, y = 50] = args;
+                    if (second !== undefined) fail(line, 'Only Go\'s range can loop over two variables offline.');
+                    header = `for (const ${first} of ${from})`;
                 }
+            }
+        }
+        if (parenthesized) expect(')');
+        emit(line, header);
+        body();
+    };
 
-                if (!name) throw new Error(`Sprite creation on line ${index + 1} is missing a name.`);
-                if (spriteNames.has(name)) throw new Error(`Sprite with name '${name}' already exists.`);
+    // A function definition: fn main(), func main(), void main(String[] args), static int Main() and so on.
+    // Only main can be translated; its body runs as the script.
+    const looksLikeFunction = (): boolean => {
+        if (isName() && FUNCTION_KEYWORDS.has(peek().value)) return true;
+        const start = pos;
+        const result = parseType() !== null && isName() && !RESERVED.has(peek().value) && isSymbol('(', 1);
+        pos = start;
+        if (!result) return false;
+        // A call like print(x) reads the same up to here; a definition goes on to its body
+        let depth = 0;
+        for (let i = pos; i < tokens.length; i++) {
+            const { type, value } = tokens[i];
+            if (type !== 'symbol') continue;
+            if (value === '(') depth++;
+            else if (value === ')') depth--;
+            else if (depth === 0 && (value === ';' || value === '=')) return false;
+            else if (depth === 0 && value === '{') return true;
+        }
+        return false;
+    };
 
-                const id = nanoid(8);
-                const newSprite: Sprite = { id, name, shape, x, y, vx: 0, vy: 0, rotation: 0, styles: {}, data: {} };
-                steps.push({ type: 'CREATE_SPRITE', sprite: newSprite, duration: 0 });
-                spriteNames.add(varName);
-                return;
+    const functionDefinition = () => {
+        const line = peek().line;
+        if (isName() && FUNCTION_KEYWORDS.has(peek().value)) pos++;
+        else parseType();
+        const name = expectName('a function name');
+        if (!isSymbol('(')) fail(peek().line, `Expected '(' but found ${describe(peek())}.`);
+        skipGroup();
+        // Return types, throws clauses and the like
+        while (!isSymbol('{') && !isSymbol('=') && peek().type !== 'end') pos++;
+        if (isSymbol('=')) fail(peek().line, 'Functions with expression bodies aren\'t supported by the offline transpiler.');
+        if (name.toLowerCase() === 'main') {
+            block();
+            return;
+        }
+        problems.push({ line, message: `${name}() can't be translated offline: only main() can be defined, and its body runs as the script.` });
+        skipGroup();
+    };
+
+    // std::cout << a << b << std::endl;
+    const coutStatement = (line: number) => {
+        if (accept('std')) expect('::');
+        expect('cout');
+        const parts: string[] = [];
+        while (accept('<<')) {
+            if (isName('endl') || (isName('std') && isName('endl', 2))) {
+                while (!isName('endl')) pos++;
+                pos++;
+                continue;
             }
+            const value = binary(10);
+            if (value !== '"\\n"') parts.push(value);
+        }
+        emit(line, `console.log(${template(parts.map(expression => ({ expression })))});`);
+        endStatement();
+    };
 
-            // Match method calls on sprites, e.g. bot.say(...) or bot->say(...)
-            const methodCallPattern = new RegExp(`(${Array.from(spriteNames).join('|')})(?:\\.|->)(\\w+)\\((.*?)\\)`);
-            if (spriteNames.size > 0) {
-                const methodMatch = line.match(methodCallPattern);
-                if (methodMatch) {
-                    const [, varName, methodName, argString] = methodMatch;
-
-                    const spriteCreationStep = steps.find(s => s.type === 'CREATE_SPRITE' && spriteNames.has(varName)) as Extract<ExecutionStep, {type: 'CREATE_SPRITE'}> | undefined;
-
-                    if (!spriteCreationStep) return;
-                    const spriteId = spriteCreationStep.sprite.id;
-
-                    let args;
-                    if (config.style === 'named') args = extractNamedArgs(argString);
-                    else args = extractPositionalArgs(argString);
-                    
-                    switch (methodName) {
-                        case 'say': {
-                            const message = config.style === 'named' ? args.message : args[0];
-                            const duration = (config.style === 'named' ? args.duration ?? 2 : args[1] ?? 2) * 1000;
-                            steps.push({ type: 'SAY', spriteId, message: message ?? '', duration: 0 });
-                            steps.push({ type: 'WAIT', duration });
-                            steps.push({ type: 'CLEAR_MESSAGE', spriteId, duration: 0 });
-                            break;
-                        }
-                        case 'go_to': {
-                            const x = config.style === 'named' ? args.x : args[0];
-                            const y = config.style === 'named' ? args.y : args[1];
-                            const speed = (config.style === 'named' ? args.speed ?? 2 : args[2] ?? 2) * 1000;
-                            steps.push({ type: 'GO_TO', spriteId, x, y, duration: speed });
-                            break;
-                        }
-                        case 'create_network': {
-                            steps.push({ type: 'SPRITE_CREATE_NETWORK', spriteId, duration: 0 });
-                            break;
-                        }
-                        case 'reward': {
-                            const value = (config.style === 'named' ? args.value : args[0]) ?? 1;
-                            steps.push({ type: 'SPRITE_REWARD', spriteId, value, duration: 0 });
-                            break;
-                        }
+    const skipDeclaration = () => {
+        const line = next().line;
+        while (peek().type !== 'end') {
+            if (accept(';')) return;
+            if (isSymbol('(')) skipGroup();
+            else if (peek().line !== line) return;
+            else pos++;
+        }
+    };
+
+    function statement(): void {
+        const token = peek();
+        if (accept(';')) return;
+        if (isSymbol('{')) {
+            block();
+            return;
+        }
+        if (isSymbol('@')) {
+            // Annotations and attributes such as @Override or @main
+            pos++;
+            expectName('an annotation name');
+            if (isSymbol('(') && peek().line === token.line) skipGroup();
+            return;
+        }
+        if (token.type === 'name') {
+            if (SKIPPED_DECLARATIONS.has(token.value) || (token.value === 'extern' && isName('crate', 1))) {
+                skipDeclaration();
+                return;
+            }
+            while (isName() && MODIFIERS.has(peek().value)) pos++;
+            const keyword = peek();
+            if (keyword.type === 'name' && TRANSPARENT_DECLARATIONS.has(keyword.value)) {
+                pos++;
+                while (!isSymbol('{') && !isSymbol(';') && peek().type !== 'end') pos++;
+                if (accept(';')) return;
+                expect('{');
+                statementsUntil('}');
+                expect('}');
+                return;
+            }
+            if (keyword.type === 'name' && UNSUPPORTED_DECLARATIONS.has(keyword.value) && isName(undefined, 1)) {
+                fail(keyword.line, `${keyword.value} declarations aren't supported by the offline transpiler.`);
+            }
+            if (keyword.type === 'name' && UNSUPPORTED_STATEMENTS.has(keyword.value)) {
+                fail(keyword.line, `${keyword.value} statements aren't supported by the offline transpiler.`);
+            }
+            if (looksLikeFunction()) {
+                functionDefinition();
+                return;
+            }
+            switch (keyword.value) {
+                case 'if': {
+                    pos++;
+                    if (isName('let') || isName('var')) fail(keyword.line, `'if ${peek().value}' isn't supported by the offline transpiler.`);
+                    emit(keyword.line, `if ${condition()}`);
+                    body();
+                    if (isName('else')) {
+                        emit(next().line, 'else');
+                        if (isName('if')) statement();
+                        else body();
                     }
+                    return;
                 }
+                case 'while':
+                    pos++;
+                    emit(keyword.line, `while ${condition()}`);
+                    body();
+                    return;
+                case 'loop':
+                    pos++;
+                    emit(keyword.line, 'while (true)');
+                    body();
+                    return;
+                case 'do':
+                case 'repeat': {
+                    if (keyword.value === 'repeat' && isSymbol('(', 1)) {
+                        // Kotlin's repeat(n) { }
+                        pos += 2;
+                        const count = expression();
+                        expect(')');
+                        emit(keyword.line, `for (let it = 0; it < ${count}; it++)`);
+                        block();
+                        return;
+                    }
+                    pos++;
+                    emit(keyword.line, 'do');
+                    body();
+                    const whileToken = expect('while');
+                    emit(whileToken.line, `while ${condition()};`);
+                    endStatement();
+                    return;
+                }
+                case 'for':
+                case 'foreach':
+                    pos++;
+                    forStatement(keyword.line);
+                    return;
+                case 'return':
+                    pos++;
+                    // main's value, if it has one, has nowhere to go
+                    if (!(isSymbol(';') || isSymbol('}') || peek().line > keyword.line || peek().type === 'end')) expression();
+                    emit(keyword.line, 'return;');
+                    endStatement();
+                    return;
+                case 'break':
+                case 'continue':
+                    pos++;
+                    emit(keyword.line, `${keyword.value};`);
+                    endStatement();
+                    return;
+                case 'cout':
+                case 'std':
+                    if (keyword.value === 'cout' || isName('cout', 2)) {
+                        coutStatement(keyword.line);
+                        return;
+                    }
             }
-
-        } catch (e: any) {
-            problems.push({ fileId, line: index + 1, message: e.message, code, language });
         }
-    });
+        const line = peek().line;
+        const js = declaration() ?? assignment();
+        emit(line, `${js};`);
+        endStatement();
+    }
 
-    if (problems.length === 0) {
-        logs.push(`Execution successful. ${steps.length} steps generated.`);
-    } else {
-        logs.push(`Execution failed with ${problems.length} problem(s).`);
+    // Statements up to a closing brace or the end, each problem reported and skipped so the rest are still read
+    function statementsUntil(close: '}' | 'end') {
+        while (!(close === '}' ? isSymbol('}') : false) && peek().type !== 'end') {
+            const start = pos;
+            try {
+                statement();
+            } catch (e) {
+                const line = (e as { line?: number }).line ?? peek().line;
+                problems.push({ line, message: e instanceof Error ? e.message : String(e) });
+                recover(line);
+                if (pos === start) pos++;
+            }
+        }
+        if (close === '}' && !isSymbol('}')) fail(peek().line, "A '{' is never closed.");
     }
 
-    return { logs, problems, steps, executedLines: lines.length };
-}
\ No newline at end of file
+    // Skips the rest of a statement that failed: its line, and any block that opens on it
+    const recover = (line: number) => {
+        let depth = 0;
+        while (peek().type !== 'end') {
+            const token = peek();
+            if (depth === 0 && token.line > line) return;
+            if (isSymbol('{')) depth++;
+            else if (isSymbol('}')) {
+                if (depth === 0) return;
+                depth--;
+                if (depth === 0) {
+                    pos++;
+                    return;
+                }
+            }
+            pos++;
+        }
+    };
+
+    return {
+        program: (): TranspileProblem[] => {
+            try {
+                statementsUntil('end');
+            } catch (e) {
+                problems.push({ line: (e as { line?: number }).line ?? peek().line, message: e instanceof Error ? e.message : String(e) });
+            }
+            return problems;
+        },
+        // The whole of the tokens as one expression
+        wholeExpression: (): string => {
+            const js = expression();
+            if (peek().type !== 'end') fail(peek().line, `Unexpected ${describe(peek())}.`);
+            return js;
+        },
+    };
+}
+
+// Translates a program into JavaScript for the JavaScript bridge, keeping every statement on its line.
+// The JavaScript is only meant to run when there are no problems.
+export function transpileUniversal(code: string, language: string): { javascript: string, problems: TranspileProblem[] } {
+    if (!LANG_CONFIGS[language]) return { javascript: '', problems: [{ line: 1, message: `The offline transpiler doesn't know '${language}'.` }] };
+    const { tokens, problems } = tokenize(code, language);
+    const lines: string[][] = code.split('\n').map(() => []);
+    const parser = createParser(tokens, language, (line, text) => lines[line - 1]?.push(text));
+    problems.push(...parser.program());
+    problems.sort((a, b) => a.line - b.line);
+    return { javascript: lines.map(parts => parts.join(' ')).join('\n'), problems };
+}
+
+// Runs a program in one of the compiled languages without Gemini, through the JavaScript bridge
+export async function executeUniversalCode(
+    code: string,
+    fileSystem: FileSystemTree,
+    fileId: string,
+    language: string,
+    options: ExecutionOptions = {}
+): Promise<Omit<ExecutionResult, 'newState'>> {
+    const { javascript, problems } = transpileUniversal(code, language);
+    if (problems.length > 0) {
+        return {
+            logs: [`The offline transpiler couldn't translate this ${LANG_CONFIGS[language]?.name ?? language} code.`],
+            problems: problems.map(problem => ({ fileId, ...problem, code, language })),
+            steps: [],
+            executedLines: 0,
+        };
+    }
+    const result = await executeJavaScriptCode(javascript, fileSystem, fileId, 'js', options);
+    // Problems point into the source, not the JavaScript it became
+    return { ...result, problems: result.problems.map(problem => problem.fileId === fileId ? { ...problem, code, language } : problem) };
+}
@@ -0,0 +1,41 @@
+import type { FileSystemTree, WorkspaceFile } from './types';
+
+// The file tree as a project on disk: paths run from the root folder, which isn't part of them, and use '/'
+
+export function filePath(fileSystem: FileSystemTree, id: string): string {
+    const names: string[] = [];
+    for (let node = fileSystem[id]; node && node.parentId; node = fileSystem[node.parentId]) {
+        names.unshift(node.name);
+    }
+    return names.join('/');
+}
+
+// Every file that hasn't been deleted, with its path
+export const workspaceFiles = (fileSystem: FileSystemTree): WorkspaceFile[] =>
+    Object.values(fileSystem).flatMap(node => node.type === 'file' && node.status !== 'deleted'
+        ? [{ id: node.id, path: filePath(fileSystem, node.id), code: node.code }]
+        : []);
+
+export const dirname = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+// Joins `relative` onto the folder `base`, resolving '.' and '..'. Returns null for a path that climbs out of the root.
+export function joinPath(base: string, relative: string): string | null {
+    const parts = relative.startsWith('/') ? [] : base.split('/').filter(Boolean);
+    for (const part of relative.split('/')) {
+        if (part === '' || part === '.') continue;
+        if (part === '..') {
+            if (parts.length === 0) return null;
+            parts.pop();
+        } else {
+            parts.push(part);
+        }
+    }
+    return parts.join('/');
+}
+
+// The id of the file at `path`, if the project has one
+export function fileIdForPath(fileSystem: FileSystemTree, path: string): string | undefined {
+    const normalized = joinPath('', path);
+    if (!normalized) return undefined;
+    return workspaceFiles(fileSystem).find(file => file.path === normalized)?.id;
+}
@@ -0,0 +1,50 @@
+import type { Prop } from './types';
+
+// Anything a script can measure against: sprites, props, or a bare point
+export interface Locatable {
+    id: string;
+    shape: string;
+    x: number;
+    y: number;
+}
+
+export type PropInfo = Readonly<Pick<Prop, 'id' | 'shape' | 'x' | 'y' | 'width' | 'height'>>;
+
+export const distanceBetween = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+    Math.hypot(b.x - a.x, b.y - a.y);
+
+// A read-only copy of a prop so scripts can't mutate the world they are sensing
+export const describeProp = (prop: Prop): PropInfo =>
+    Object.freeze({ id: prop.id, shape: prop.shape, x: prop.x, y: prop.y, width: prop.width, height: prop.height });
+
+export function findNearest<T extends Locatable>(origin: Locatable, candidates: T[], shape?: string): T | null {
+    let nearest: T | null = null;
+    let nearestDistance = Infinity;
+    for (const candidate of candidates) {
+        if (candidate.id === origin.id) continue;
+        if (shape && candidate.shape !== shape) continue;
+        const distance = distanceBetween(origin, candidate);
+        if (distance < nearestDistance) {
+            nearest = candidate;
+            nearestDistance = distance;
+        }
+    }
+    return nearest;
+}
+
+// The rectangle is given by its top-left corner; props are positioned by their centre.
+export function propsInRect(props: Prop[], x: number, y: number, width: number, height: number): Prop[] {
+    return props.filter(prop =>
+        prop.x + prop.width / 2 >= x &&
+        prop.x - prop.width / 2 <= x + width &&
+        prop.y + prop.height / 2 >= y &&
+        prop.y - prop.height / 2 <= y + height
+    );
+}
+
+// Accepts a sprite, a prop, an { x, y } object or an [x, y] pair
+export function toPoint(value: any, method: string): { x: number; y: number } {
+    if (Array.isArray(value) && value.length >= 2) return { x: Number(value[0]), y: Number(value[1]) };
+    if (value && typeof value.x === 'number' && typeof value.y === 'number') return { x: value.x, y: value.y };
+    throw new Error(`${method}() requires a sprite, a prop, or an (x, y) point.`);
+}
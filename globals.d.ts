@@ -0,0 +1,29 @@
+// Libraries index.html loads as globals, described only as far as the app uses them
+
+interface Html2CanvasOptions {
+    width?: number;
+    height?: number;
+    scale?: number;
+    logging?: boolean;
+}
+
+declare var html2canvas: ((element: HTMLElement, options?: Html2CanvasOptions) => Promise<HTMLCanvasElement>) | undefined;
+
+interface BabelTransformOptions {
+    presets?: unknown[];
+    plugins?: unknown[];
+    parserOpts?: Record<string, unknown>;
+    sourceType?: 'module' | 'script';
+    retainLines?: boolean;
+}
+
+interface BabelStandalone {
+    transform(code: string, options: BabelTransformOptions): { code: string };
+}
+
+declare var Babel: BabelStandalone | undefined;
+
+// The same build as an npm package, which the headless runner installs as the Babel global
+declare module '@babel/standalone' {
+    export const transform: BabelStandalone['transform'];
+}
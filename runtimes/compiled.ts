@@ -0,0 +1,55 @@
+import type { LanguageRuntime, RuntimeRun } from './registry';
+import { executePythonCode } from '../game/python_engine';
+import { executeUniversalCode } from '../game/universal_engine';
+import { cachedTranspilation, transpileWithCache } from '../game/transpile_cache';
+import { isTranspilerAvailable } from '../game/gemini';
+import { cancelledRun } from '../game/script_worker';
+
+// Compiled languages run as the Python Gemini transpiles them to, or without Gemini through the
+// offline transpiler (see universal_engine.ts)
+const transpiledRuntime = (extension: string, name: string): LanguageRuntime => {
+    const execute = async ({ code, fileSystem, fileId, language, pythonEngine, log, options }: RuntimeRun) => {
+        // Source that was transpiled before reuses its Python (see transpile_cache.ts)
+        let pythonCode = cachedTranspilation(code, language) ?? null;
+        if (pythonCode !== null) {
+            log(`Running the cached Python for this ${name} code.`);
+        } else if (isTranspilerAvailable()) {
+            try {
+                log(`Transpiling ${name} to Python...`);
+                pythonCode = await transpileWithCache(code, language, options.signal);
+                log(`Transpilation complete. Executing...`);
+            } catch (e) {
+                if (options.signal?.aborted) return cancelledRun();
+                const errorMessage = e instanceof Error ? e.message : "An unknown transpilation error occurred.";
+                log(`Gemini could not transpile the code (${errorMessage}). Using the offline transpiler instead.`);
+            }
+        } else {
+            log(`Gemini is unavailable, so ${name} is translated by the offline transpiler.`);
+        }
+
+        return pythonCode !== null
+            ? executePythonCode(
+                pythonCode,
+                fileSystem,
+                fileId,
+                pythonEngine,
+                { code, language }, // Pass original source for better error mapping
+                options
+            )
+            : executeUniversalCode(code, fileSystem, fileId, language, options);
+    };
+    return { extensions: [extension], name, execute, transpiledToPython: true };
+};
+
+export const COMPILED_RUNTIMES: LanguageRuntime[] = [
+    transpiledRuntime('c', 'C'),
+    transpiledRuntime('cpp', 'C++'),
+    transpiledRuntime('cs', 'C#'),
+    transpiledRuntime('dart', 'Dart'),
+    transpiledRuntime('go', 'Go'),
+    transpiledRuntime('java', 'Java'),
+    transpiledRuntime('kt', 'Kotlin'),
+    transpiledRuntime('rs', 'Rust'),
+    transpiledRuntime('scala', 'Scala'),
+    transpiledRuntime('swift', 'Swift'),
+];
@@ -0,0 +1,25 @@
+import type { LanguageRuntime } from './registry';
+
+// Files that are edited but not run: the world, documentation, and languages the playground can't run yet
+const editorOnly = (extension: string, name: string): LanguageRuntime => ({ extensions: [extension], name });
+
+export const DOCUMENT_RUNTIMES: LanguageRuntime[] = [
+    {
+        extensions: ['html'],
+        name: 'HTML',
+        runHint: 'You are viewing world.html. Edit this file to define props. Run a .py or .js file to start the simulation.',
+    },
+    editorOnly('md', 'Markdown'),
+    editorOnly('css', 'CSS'),
+    editorOnly('sh', 'Shell'),
+    editorOnly('clj', 'Clojure'),
+    editorOnly('fs', 'F#'),
+    editorOnly('groovy', 'Groovy'),
+    editorOnly('hs', 'Haskell'),
+    editorOnly('lua', 'Lua'),
+    editorOnly('m', 'Objective-C'),
+    editorOnly('ml', 'OCaml'),
+    editorOnly('pl', 'Perl'),
+    editorOnly('php', 'PHP'),
+    editorOnly('rb', 'Ruby'),
+];
@@ -0,0 +1,17 @@
+import type { LanguageRuntime, RuntimeRun } from './registry';
+import { executeJavaScriptCode } from '../game/javascript_engine';
+
+// TypeScript runs on the same bridge once its types are checked and stripped (see javascript_engine.ts)
+const execute = ({ code, fileSystem, fileId, language, options }: RuntimeRun) => executeJavaScriptCode(code, fileSystem, fileId, language, options);
+
+export const JAVASCRIPT_RUNTIME: LanguageRuntime = {
+    extensions: ['js', 'jsx'],
+    name: 'JavaScript',
+    execute,
+};
+
+export const TYPESCRIPT_RUNTIME: LanguageRuntime = {
+    extensions: ['ts', 'tsx'],
+    name: 'TypeScript',
+    execute,
+};
@@ -0,0 +1,8 @@
+import type { LanguageRuntime } from './registry';
+import { executePythonCode } from '../game/python_engine';
+
+export const PYTHON_RUNTIME: LanguageRuntime = {
+    extensions: ['py'],
+    name: 'Python',
+    execute: ({ code, fileSystem, fileId, pythonEngine, options }) => executePythonCode(code, fileSystem, fileId, pythonEngine, undefined, options),
+};
@@ -0,0 +1,50 @@
+import type { ExecutionOptions, ExecutionResult, FileSystemTree } from '../game/types';
+import type { PythonEngineName } from '../game/python_engine';
+import { PYTHON_RUNTIME } from './python';
+import { JAVASCRIPT_RUNTIME, TYPESCRIPT_RUNTIME } from './javascript';
+import { COMPILED_RUNTIMES } from './compiled';
+import { DOCUMENT_RUNTIMES } from './documents';
+
+// How each language is run, by file extension. The engine and the command-line runner read this, so it stays free
+// of the UI: how a language is edited, documented and shown is in ui.ts. Adding a language means writing a
+// LanguageRuntime, usually in a module of its own here, and listing it below or handing it to registerLanguageRuntime,
+// and giving it a LanguageUi in ui.ts.
+
+// What a runtime is given to run a script
+export interface RuntimeRun {
+    code: string;
+    fileSystem: FileSystemTree;
+    fileId: string;
+    // The script's extension, for runtimes that cover several
+    language: string;
+    pythonEngine: PythonEngineName;
+    // Reports progress before the script starts, e.g. that it is being transpiled
+    log: (message: string) => void;
+    options: ExecutionOptions;
+}
+
+export interface LanguageRuntime {
+    // Without the dot, e.g. ['js', 'jsx']
+    extensions: string[];
+    name: string;
+    // Runs a script; files without one, like Markdown, can only be edited
+    execute?: (run: RuntimeRun) => Promise<Omit<ExecutionResult, 'newState'>>;
+    // What Run says instead for a file that can't run, e.g. how world.html is used
+    runHint?: string;
+    // Set for languages that run as the Python Gemini transpiles them to, which the editor can show beside them
+    transpiledToPython?: boolean;
+}
+
+const runtimes = new Map<string, LanguageRuntime>();
+
+// Adds a runtime, replacing whichever one had any of its extensions before
+export function registerLanguageRuntime(runtime: LanguageRuntime) {
+    runtime.extensions.forEach(extension => runtimes.set(extension, runtime));
+}
+
+[PYTHON_RUNTIME, JAVASCRIPT_RUNTIME, TYPESCRIPT_RUNTIME, ...COMPILED_RUNTIMES, ...DOCUMENT_RUNTIMES].forEach(registerLanguageRuntime);
+
+export const languageRuntimeFor = (extension: string): LanguageRuntime | undefined => runtimes.get(extension);
+
+// The extensions of every language that can be run
+export const runnableExtensions = (): string[] => [...runtimes.entries()].filter(([, runtime]) => runtime.execute).map(([extension]) => extension);
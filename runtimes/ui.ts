@@ -0,0 +1,67 @@
+import type React from 'react';
+import type { Suggestion } from '../game/types';
+import { getSuggestions } from '../editor/completions';
+import { PythonGuide } from '../components/guides/PythonGuide';
+import { JavaScriptGuide } from '../components/guides/JavaScriptGuide';
+import { CompiledLanguageGuide } from '../components/guides/HtmlGuide';
+import { UniversalGuide } from '../components/guides/UniversalGuide';
+
+// How each language is edited, documented and shown, by file extension: the UI's half of a language, which the
+// components read. How it runs is in registry.ts, which the engine and the command-line runner use without this.
+
+export interface LanguageUi {
+    // Without the dot, e.g. ['js', 'jsx']
+    extensions: string[];
+    // The language Monaco highlights the file as
+    monacoId: string;
+    // The Tailwind text color of the file's icon in the file tree
+    color: string;
+    // The Guide tab for the language
+    guide?: React.ComponentType<{ language: string }>;
+    // Suggestions as the user types; the AI's inline completions are offered for every language
+    completions?: (line: string, cursorPosition: number, fullCode: string, language: string) => Suggestion[];
+}
+
+const languageUis = new Map<string, LanguageUi>();
+
+// Adds a language's UI, replacing whichever one had any of its extensions before
+export function registerLanguageUi(ui: LanguageUi) {
+    ui.extensions.forEach(extension => languageUis.set(extension, ui));
+}
+
+// Compiled languages share a guide, since they all use the API as Python does
+const compiled = (extension: string, monacoId: string, color = 'text-gray-400'): LanguageUi =>
+    ({ extensions: [extension], monacoId, color, guide: CompiledLanguageGuide, completions: getSuggestions });
+const editorOnly = (extension: string, monacoId: string): LanguageUi => ({ extensions: [extension], monacoId, color: 'text-gray-400' });
+
+[
+    { extensions: ['py'], monacoId: 'python', color: 'text-green-400', guide: PythonGuide, completions: getSuggestions },
+    { extensions: ['js', 'jsx'], monacoId: 'javascript', color: 'text-yellow-400', guide: JavaScriptGuide, completions: getSuggestions },
+    { extensions: ['ts', 'tsx'], monacoId: 'typescript', color: 'text-blue-400', guide: JavaScriptGuide, completions: getSuggestions },
+    compiled('c', 'c', 'text-blue-500'),
+    compiled('cpp', 'cpp', 'text-blue-500'),
+    compiled('cs', 'csharp', 'text-purple-400'),
+    compiled('dart', 'dart'),
+    compiled('go', 'go', 'text-cyan-300'),
+    compiled('java', 'java', 'text-red-400'),
+    compiled('kt', 'kotlin'),
+    compiled('rs', 'rust', 'text-orange-500'),
+    compiled('scala', 'scala'),
+    compiled('swift', 'swift'),
+    { extensions: ['html'], monacoId: 'html', color: 'text-orange-400', guide: UniversalGuide },
+    { extensions: ['md'], monacoId: 'markdown', color: 'text-gray-400', guide: UniversalGuide },
+    { extensions: ['css'], monacoId: 'css', color: 'text-sky-400' },
+    editorOnly('sh', 'shell'),
+    editorOnly('clj', 'clojure'),
+    editorOnly('fs', 'fsharp'),
+    editorOnly('groovy', 'groovy'),
+    editorOnly('hs', 'haskell'),
+    editorOnly('lua', 'lua'),
+    editorOnly('m', 'objective-c'),
+    editorOnly('ml', 'ocaml'),
+    editorOnly('pl', 'perl'),
+    editorOnly('php', 'php'),
+    editorOnly('rb', 'ruby'),
+].forEach(registerLanguageUi);
+
+export const languageUiFor = (extension: string): LanguageUi | undefined => languageUis.get(extension);
@@ -2,14 +2,29 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Cross-origin isolation gives the page SharedArrayBuffer, which Stop and the time limit use to interrupt
+// a Python script without losing its worker, and the debugger uses to pause scripts. vercel.json sends the same headers.
+const ISOLATION_HEADERS = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'require-corp',
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        headers: ISOLATION_HEADERS,
+      },
+      preview: {
+        headers: ISOLATION_HEADERS,
       },
       plugins: [react()],
+      // The script workers are created with { type: 'module' } and import Pyodide and TypeScript at run time
+      worker: {
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)